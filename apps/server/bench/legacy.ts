@@ -0,0 +1,181 @@
+import type { ImageData, Point } from '../../../shared/types';
+import type { Contour } from '../src/trace/contour';
+
+/**
+ * The raster stages as they were before bitmaps, kept only as the benchmark's baseline
+ * Binary images are RGBA rasters (black = foreground, read from the red channel), and visited
+ * pixels are tracked in boolean arrays; speckles are flood filled with a stack of coordinate pairs
+ */
+
+export function binarizeRgba(imageData: ImageData, threshold: number): ImageData {
+  const { width, height, data } = imageData;
+  const binaryData = new Uint8Array(width * height * 4);
+
+  for (let i = 0; i < width * height; i++) {
+    const pixelIndex = i * 4;
+    const luminance = 0.299 * data[pixelIndex] + 0.587 * data[pixelIndex + 1] + 0.114 * data[pixelIndex + 2];
+    const binaryValue = luminance >= threshold ? 255 : 0;
+
+    binaryData[pixelIndex] = binaryValue;
+    binaryData[pixelIndex + 1] = binaryValue;
+    binaryData[pixelIndex + 2] = binaryValue;
+    binaryData[pixelIndex + 3] = 255;
+  }
+
+  return { width, height, data: binaryData };
+}
+
+export function removeSpecklesRgba(imageData: ImageData, minArea: number): ImageData {
+  const { width, height, data } = imageData;
+  const visited = new Array(width * height).fill(false);
+  const cleanedData = new Uint8Array(data);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!visited[index] && data[index * 4] === 0) {
+        const component = floodFill(imageData, x, y, visited);
+        if (component.length < minArea) {
+          for (const pixelIndex of component) {
+            cleanedData[pixelIndex * 4] = 255;
+            cleanedData[pixelIndex * 4 + 1] = 255;
+            cleanedData[pixelIndex * 4 + 2] = 255;
+          }
+        }
+      }
+    }
+  }
+
+  return { width, height, data: cleanedData };
+}
+
+export function extractContoursRgba(imageData: ImageData): Contour[] {
+  const { width, height, data } = imageData;
+  const visited = new Array(width * height).fill(false);
+  const contours: Contour[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (visited[index]) continue;
+
+      if (data[index * 4] === 0 && isContourStart(imageData, x, y)) {
+        const points = traceContour(imageData, x, y, visited);
+        if (points.length > 3) {
+          contours.push({ points, holes: [], isHole: false, parent: -1 });
+        }
+      }
+    }
+  }
+
+  return findHoles(imageData, contours);
+}
+
+// Helper functions
+
+const NEIGHBORS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+
+// Moore neighborhood, clockwise from north
+const DIRECTIONS = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+function floodFill(imageData: ImageData, startX: number, startY: number, visited: boolean[]): number[] {
+  const { width, height, data } = imageData;
+  const component: number[] = [];
+  const stack: [number, number][] = [[startX, startY]];
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    const index = y * width + x;
+    if (x < 0 || x >= width || y < 0 || y >= height || visited[index]) continue;
+    if (data[index * 4] !== 0) continue;
+
+    visited[index] = true;
+    component.push(index);
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return component;
+}
+
+function isContourStart(imageData: ImageData, x: number, y: number): boolean {
+  const { width, height, data } = imageData;
+  return NEIGHBORS.some(([dx, dy]) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    return nx < 0 || nx >= width || ny < 0 || ny >= height || data[(ny * width + nx) * 4] === 255;
+  });
+}
+
+function isHoleStart(imageData: ImageData, x: number, y: number): boolean {
+  const { width, height, data } = imageData;
+  const blackNeighbors = NEIGHBORS.filter(([dx, dy]) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    return nx >= 0 && nx < width && ny >= 0 && ny < height && data[(ny * width + nx) * 4] === 0;
+  }).length;
+  return blackNeighbors >= 6;
+}
+
+function traceContour(imageData: ImageData, startX: number, startY: number, visited: boolean[]): Point[] {
+  const { width, height, data } = imageData;
+  const points: Point[] = [];
+  let currentX = startX;
+  let currentY = startY;
+  let direction = 0;
+
+  do {
+    points.push({ x: currentX, y: currentY });
+    visited[currentY * width + currentX] = true;
+
+    let found = false;
+    for (let i = 0; i < 8; i++) {
+      const checkDir = (direction + i) % 8;
+      const nextX = currentX + DIRECTIONS[checkDir][0];
+      const nextY = currentY + DIRECTIONS[checkDir][1];
+      if (nextX >= 0 && nextX < width && nextY >= 0 && nextY < height && data[(nextY * width + nextX) * 4] === 0) {
+        currentX = nextX;
+        currentY = nextY;
+        direction = (checkDir + 6) % 8;
+        found = true;
+        break;
+      }
+    }
+    if (!found) break;
+  } while (currentX !== startX || currentY !== startY || points.length < 3);
+
+  return points;
+}
+
+function findHoles(imageData: ImageData, contours: Contour[]): Contour[] {
+  const { width, height, data } = imageData;
+  const visited = new Array(width * height).fill(false);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      if (visited[index] || data[index * 4] !== 255) continue;
+
+      if (isHoleStart(imageData, x, y)) {
+        const hole = traceContour(imageData, x, y, visited);
+        if (hole.length > 3) {
+          const parent = contours.find(contour => pointInPolygon(hole[0], contour.points));
+          parent?.holes.push(hole);
+        }
+      }
+    }
+  }
+
+  return contours;
+}
+
+function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const { x: xi, y: yi } = polygon[i];
+    const { x: xj, y: yj } = polygon[j];
+    if ((yi > point.y) !== (yj > point.y) && point.x < (xj - xi) * (point.y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { fork } from 'child_process';
+import { PNG } from 'pngjs';
+import { toGrayscale, binarizeImage, removeSpeckles } from '../src/trace/raster';
+import { extractContours } from '../src/trace/contour';
+import { binarizeRgba, removeSpecklesRgba, extractContoursRgba } from './legacy';
+import type { ImageData, Bitmap } from '../../../shared/types';
+
+/**
+ * Raster pipeline benchmark: binarization, speckle removal and contour extraction on the fixtures
+ * Every fixture is repeated in a grid up to --size pixels square and measured in its own child
+ * process, so the peak memory (max RSS growth over the decoded image) is not shared between runs
+ * Each fixture runs through the bitmap stages and, as the baseline, the former RGBA stages (legacy.ts)
+ *
+ *   npm run bench --workspace=apps/server -- --size 2048 --runs 3
+ */
+
+const ROOT = path.resolve(__dirname, '../../..');
+const FIXTURES = [path.join(ROOT, 'fixtures/sample.png'), path.join(ROOT, 'test.png')];
+
+type Implementation = 'rgba' | 'bitmap';
+
+/**
+ * The raster stages of one implementation, each taking the output of the one before
+ */
+interface Stages<Binary extends { data: Uint8Array }> {
+  binarize(grayscale: ImageData): Binary;
+  despeckle(binary: Binary): Binary;
+  contours(despeckled: Binary): unknown[];
+}
+
+const IMPLEMENTATIONS: Record<Implementation, Stages<ImageData | Bitmap>> = {
+  rgba: {
+    binarize: grayscale => binarizeRgba(grayscale, 128),
+    despeckle: binary => removeSpecklesRgba(binary, 20),
+    contours: despeckled => extractContoursRgba(despeckled),
+  },
+  bitmap: {
+    binarize: grayscale => binarizeImage(grayscale, 128),
+    despeckle: binary => removeSpeckles(binary, 20),
+    contours: despeckled => extractContours(despeckled),
+  },
+};
+
+interface BenchResult {
+  fixture: string;
+  implementation: Implementation;
+  width: number;
+  height: number;
+  /** Median milliseconds per stage */
+  binarize: number;
+  despeckle: number;
+  contours: number;
+  /** Megapixels per second through all three stages */
+  throughput: number;
+  /** Bytes of the binarized raster */
+  rasterBytes: number;
+  /** Max RSS growth while running the stages (bytes) */
+  peakBytes: number;
+  contourCount: number;
+}
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: number) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? parseInt(args[index + 1]) || fallback : fallback;
+};
+
+if (args[0] === '--child') {
+  process.send!(measure(args[1], args[2] as Implementation, option('size', 2048), option('runs', 3)));
+} else {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+async function main(): Promise<void> {
+  const size = option('size', 2048);
+  const runs = option('runs', 3);
+  console.log(`Raster pipeline on ${size}x${size} px, median of ${runs} runs\n`);
+
+  const rows: BenchResult[] = [];
+  for (const fixture of FIXTURES) {
+    for (const implementation of Object.keys(IMPLEMENTATIONS) as Implementation[]) {
+      try {
+        rows.push(await new Promise<BenchResult>((resolve, reject) => {
+          const child = fork(__filename, ['--child', fixture, implementation, '--size', String(size), '--runs', String(runs)]);
+          child.once('message', result => resolve(result as BenchResult));
+          child.once('error', reject);
+          child.once('exit', (code, signal) => code !== 0 && reject(new Error(`exited with ${signal || `code ${code}`}`)));
+        }));
+      } catch (error) {
+        // The RGBA stages can run out of heap on large images; report it and go on
+        console.warn(`Benchmark of ${path.basename(fixture)} (${implementation}) ${(error as Error).message}`);
+      }
+    }
+  }
+
+  console.table(rows.map(row => ({
+    fixture: row.fixture,
+    implementation: row.implementation,
+    'binarize (ms)': row.binarize,
+    'despeckle (ms)': row.despeckle,
+    'contours (ms)': row.contours,
+    'MP/s': row.throughput,
+    'raster (MB)': megabytes(row.rasterBytes),
+    'peak (MB)': megabytes(row.peakBytes),
+    contours: row.contourCount,
+  })));
+}
+
+function measure(fixture: string, implementation: Implementation, size: number, runs: number): BenchResult {
+  const stages = IMPLEMENTATIONS[implementation];
+  const grayscale = toGrayscale(repeatImage(decodeFixture(fixture), size));
+  const baseline = process.resourceUsage().maxRSS * 1024;
+  const timings = { binarize: [] as number[], despeckle: [] as number[], contours: [] as number[] };
+  let rasterBytes = 0;
+  let contourCount = 0;
+
+  for (let run = 0; run < runs; run++) {
+    let start = performance.now();
+    const binary = stages.binarize(grayscale);
+    timings.binarize.push(performance.now() - start);
+
+    start = performance.now();
+    const despeckled = stages.despeckle(binary);
+    timings.despeckle.push(performance.now() - start);
+
+    start = performance.now();
+    contourCount = stages.contours(despeckled).length;
+    timings.contours.push(performance.now() - start);
+
+    rasterBytes = binary.data.byteLength;
+  }
+
+  const binarize = median(timings.binarize);
+  const despeckle = median(timings.despeckle);
+  const contours = median(timings.contours);
+  return {
+    fixture: path.basename(fixture),
+    implementation,
+    width: grayscale.width,
+    height: grayscale.height,
+    binarize: Math.round(binarize),
+    despeckle: Math.round(despeckle),
+    contours: Math.round(contours),
+    throughput: Math.round((grayscale.width * grayscale.height) / 1000 / (binarize + despeckle + contours) * 10) / 10,
+    rasterBytes,
+    peakBytes: process.resourceUsage().maxRSS * 1024 - baseline,
+    contourCount,
+  };
+}
+
+// Helper functions
+
+function decodeFixture(file: string): ImageData {
+  const png = PNG.sync.read(fs.readFileSync(file));
+  return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+}
+
+/**
+ * Fill a size x size image with copies of a fixture
+ */
+function repeatImage(tile: ImageData, size: number): ImageData {
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x += tile.width) {
+      const length = Math.min(tile.width, size - x) * 4;
+      const source = ((y % tile.height) * tile.width) * 4;
+      data.set(tile.data.subarray(source, source + length), (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function megabytes(bytes: number): number {
+  return Math.round(bytes / 1024 / 1024 * 10) / 10;
+}
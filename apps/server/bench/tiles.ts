@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fork } from 'child_process';
+import { PNG } from 'pngjs';
+import { traceImage } from '../src/trace/index';
+import { readPngHeader } from '../src/trace/png';
+
+/**
+ * Tiled tracing memory benchmark: peak RSS of outline traces as the image grows taller
+ * Every image is --width px wide and from --width up to --max-height px tall (doubling); copies of a fixture
+ * fill its top --width rows and the rest is blank, so the traced polygons stay the same as it grows.
+ * Each PNG is encoded in one child process and traced with --tile px tiles in another (a child's max RSS
+ * starts from its parent's), and the peak RSS of the trace must not grow by more than --limit MB from
+ * the smallest image to the largest, or the benchmark exits with an error
+ *
+ *   npm run bench:tiles --workspace=apps/server -- --width 2048 --max-height 16384 --tile 1024 --limit 64
+ */
+
+const ROOT = path.resolve(__dirname, '../../..');
+const FIXTURE = path.join(ROOT, 'test.png');
+
+interface BenchResult {
+  width: number;
+  height: number;
+  /** Bytes of the PNG file */
+  pngBytes: number;
+  /** Milliseconds for the whole trace */
+  time: number;
+  /** Max RSS of the child process (bytes) */
+  peakBytes: number;
+  polygonCount: number;
+}
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: number) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? parseInt(args[index + 1]) || fallback : fallback;
+};
+
+if (args[0] === '--encode') {
+  fs.writeFileSync(args[1], encodeImage(PNG.sync.read(fs.readFileSync(FIXTURE)), option('width', 2048), option('height', 2048)));
+} else if (args[0] === '--child') {
+  measure(args[1], option('tile', 1024)).then(result => process.send!(result));
+} else {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+async function main(): Promise<void> {
+  const width = option('width', 2048);
+  const maxHeight = option('max-height', 16384);
+  const tileSize = option('tile', 1024);
+  const limit = option('limit', 64);
+  console.log(`Tiled outline traces ${width} px wide in ${tileSize} px tiles\n`);
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tiles-bench-'));
+  const rows: BenchResult[] = [];
+  try {
+    for (let height = width; height <= maxHeight; height *= 2) {
+      const file = path.join(directory, `${width}x${height}.png`);
+      await runChild(['--encode', file, '--width', String(width), '--height', String(height)]);
+      rows.push(await runChild(['--child', file, '--tile', String(tileSize)]) as BenchResult);
+      fs.rmSync(file);
+    }
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+
+  console.table(rows.map(row => ({
+    size: `${row.width}x${row.height}`,
+    'PNG (MB)': megabytes(row.pngBytes),
+    'RGBA (MB)': megabytes(row.width * row.height * 4),
+    'time (ms)': row.time,
+    'peak (MB)': megabytes(row.peakBytes),
+    polygons: row.polygonCount,
+  })));
+
+  const growth = rows[rows.length - 1].peakBytes - rows[0].peakBytes;
+  console.log(`\nPeak memory grew ${megabytes(growth)} MB from the smallest image to the largest (limit ${limit} MB)`);
+  if (growth > limit * 1024 * 1024) {
+    console.error('Peak memory grows with the image height');
+    process.exit(1);
+  }
+}
+
+async function measure(file: string, tileSize: number): Promise<BenchResult> {
+  const png = fs.readFileSync(file);
+  const start = performance.now();
+  const result = await traceImage(png, { fidelity: 50, whiteFill: false, tileSize }, { cache: null });
+  const { width, height } = readPngHeader(png);
+
+  return {
+    width,
+    height,
+    pngBytes: png.length,
+    time: Math.round(performance.now() - start),
+    peakBytes: process.resourceUsage().maxRSS * 1024,
+    polygonCount: result.metrics.polygonCount,
+  };
+}
+
+// Helper functions
+
+/**
+ * Run this script in a child process, resolving with the message it sends (if any) once it exits
+ */
+function runChild(childArgs: string[]): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let message: unknown;
+    const child = fork(__filename, childArgs);
+    child.on('message', value => message = value);
+    child.once('error', reject);
+    child.once('exit', (code, signal) => code === 0
+      ? resolve(message)
+      : reject(new Error(`${childArgs[0]} ${path.basename(childArgs[1])} exited with ${signal || `code ${code}`}`)));
+  });
+}
+
+/**
+ * Encode a white width x height PNG with copies of a fixture over its top width rows
+ */
+function encodeImage(fixture: PNG, width: number, height: number): Buffer {
+  const png = new PNG({ width, height });
+  png.data.fill(255);
+  for (let y = 0; y < Math.min(width, height); y++) {
+    for (let x = 0; x < width; x += fixture.width) {
+      const length = Math.min(fixture.width, width - x) * 4;
+      const source = ((y % fixture.height) * fixture.width) * 4;
+      png.data.set(fixture.data.subarray(source, source + length), (y * width + x) * 4);
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+function megabytes(bytes: number): number {
+  return Math.round(bytes / 1024 / 1024 * 10) / 10;
+}
@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import type { DecodedImage } from './trace/index';
+import type { StoredImage } from '../../../shared/types';
+
+/**
+ * Server-side store for uploaded images
+ * Clients upload a PNG once and trace it repeatedly by id; decoded pixels stay in memory
+ * (shared with the trace workers) and the stage cache, keyed by the image's content hash,
+ * holds the intermediate results
+ */
+
+export interface ImageStoreOptions {
+  /** Idle time before an image is discarded (ms); every access extends it */
+  ttlMs: number;
+  /** Memory budget for all images (bytes); least recently used images are evicted beyond it */
+  maxBytes: number;
+}
+
+/**
+ * Thrown by put() when a single image exceeds the whole memory budget
+ */
+export class ImageTooLargeError extends Error {
+  constructor(size: number, limit: number) {
+    super(`Decoded image needs ${Math.ceil(size / 1048576)} MB, more than the ${Math.floor(limit / 1048576)} MB image store`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+interface Entry {
+  info: StoredImage;
+  image: DecodedImage;
+  /** Bytes counted against the budget */
+  size: number;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+export class ImageStore {
+  /** Insertion order doubles as recency order: entries are re-inserted on every access */
+  private readonly images = new Map<string, Entry>();
+  private totalBytes = 0;
+
+  constructor(private readonly options: ImageStoreOptions) {}
+
+  /**
+   * Store a decoded PNG; throws for images larger than the budget
+   */
+  put(image: DecodedImage): StoredImage {
+    const size = image.imageData.data.byteLength;
+    if (size > this.options.maxBytes) {
+      throw new ImageTooLargeError(size, this.options.maxBytes);
+    }
+
+    while (this.totalBytes + size > this.options.maxBytes) {
+      const oldest = this.images.keys().next().value as string;
+      console.log(`Evicting image ${oldest} from the image store`);
+      this.delete(oldest);
+    }
+
+    const entry: Entry = {
+      info: {
+        id: randomUUID(),
+        width: image.imageData.width,
+        height: image.imageData.height,
+        dpi: image.dpi || undefined,
+        expiresAt: '',
+      },
+      image,
+      size,
+    };
+
+    this.images.set(entry.info.id, entry);
+    this.totalBytes += size;
+    this.touch(entry);
+
+    return { ...entry.info };
+  }
+
+  /**
+   * Decoded image for tracing, or null for unknown or expired images
+   */
+  get(id: string): DecodedImage | null {
+    const entry = this.images.get(id);
+    if (!entry) return null;
+
+    this.touch(entry);
+    return entry.image;
+  }
+
+  /**
+   * Image metadata, or null for unknown or expired images
+   */
+  info(id: string): StoredImage | null {
+    const entry = this.images.get(id);
+    return entry ? { ...entry.info } : null;
+  }
+
+  /**
+   * Discard an image; returns false when it was not stored
+   */
+  delete(id: string): boolean {
+    const entry = this.images.get(id);
+    if (!entry) return false;
+
+    clearTimeout(entry.expiryTimer);
+    this.images.delete(id);
+    this.totalBytes -= entry.size;
+    return true;
+  }
+
+  // Helper methods
+
+  /**
+   * Mark an image as most recently used and restart its expiry timer
+   */
+  private touch(entry: Entry): void {
+    this.images.delete(entry.info.id);
+    this.images.set(entry.info.id, entry);
+
+    clearTimeout(entry.expiryTimer);
+    entry.expiryTimer = setTimeout(() => this.delete(entry.info.id), this.options.ttlMs).unref();
+    entry.info.expiresAt = new Date(Date.now() + this.options.ttlMs).toISOString();
+  }
+}
@@ -4,12 +4,36 @@ import helmet from 'helmet';
 import compression from 'compression';
 import multer from 'multer';
 import path from 'path';
-import { traceImage } from './trace/index';
-import type { TraceRequest } from '../../../shared/types';
+import { parseTraceRequest, isRequestError } from './request';
+import { JobQueue, QueueFullError } from './jobs';
+import { ImageStore, ImageTooLargeError } from './images';
+import { TracePool, TraceTimeoutError, defaultPoolSize } from './workers';
+import type { DecodedImage } from './trace/index';
+import type { TraceJob, TraceRequest } from '../../../shared/types';
 
 const app = express();
 const PORT = process.env.PORT || 8080;
 
+// Decoding and tracing run on worker threads so the event loop stays responsive
+const tracePool = new TracePool({
+  size: parseInt(process.env.TRACE_WORKERS || '') || defaultPoolSize(),
+  timeoutMs: (parseInt(process.env.TRACE_TIMEOUT_SECONDS || '') || 300) * 1000,
+});
+
+// Background trace jobs for large images
+const jobQueue = new JobQueue({
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || '') || 1,
+  maxQueued: parseInt(process.env.JOB_QUEUE_LIMIT || '') || 10,
+  retentionMs: (parseInt(process.env.JOB_RETENTION_SECONDS || '') || 600) * 1000,
+  runner: (input, request, hooks) => tracePool.run(input, request, hooks),
+});
+
+// Uploaded images kept for repeated traces with different parameters
+const imageStore = new ImageStore({
+  ttlMs: (parseInt(process.env.IMAGE_TTL_SECONDS || '') || 1800) * 1000,
+  maxBytes: (parseInt(process.env.IMAGE_STORE_MB || '') || 512) * 1024 * 1024,
+});
+
 // Security and performance middleware
 app.use(helmet({
   contentSecurityPolicy: false, // Disable for development, adjust for production
@@ -41,66 +65,273 @@ app.use(express.static(path.join(__dirname, '../public')));
 
 // API endpoints
 app.get('/api/health', (req, res) => {
-  res.json({ ok: true, timestamp: new Date().toISOString() });
+  res.json({ ok: true, timestamp: new Date().toISOString(), workers: tracePool.stats() });
 });
 
+// Trace synchronously and send the result; the trace is aborted when the client disconnects first
+async function sendTrace(res: express.Response, input: Buffer | DecodedImage, traceRequest: TraceRequest): Promise<void> {
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  try {
+    const result = await tracePool.run(input, traceRequest, { signal: abortController.signal });
+    res.json(result);
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      console.log('Trace request aborted by client');
+      return;
+    }
+    if (error instanceof TraceTimeoutError) {
+      res.status(504).json({
+        error: error.message,
+        code: 'TRACE_TIMEOUT'
+      });
+      return;
+    }
+    console.error('Trace API error:', error);
+    res.status(500).json({
+      error: error.message || 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined,
+      code: 'PROCESSING_ERROR'
+    });
+  }
+}
+
 // Main tracing endpoint
 app.post('/api/trace', upload.single('image'), async (req, res): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({
+      error: 'No image file provided',
+      code: 'MISSING_FILE'
+    });
+    return;
+  }
+
+  // Parse and validate request parameters
+  const traceRequest = parseTraceRequest(req.body);
+  if (isRequestError(traceRequest)) {
+    res.status(400).json(traceRequest);
+    return;
+  }
+
+  console.log(`Processing ${req.file.originalname} (${req.file.size} bytes) with fidelity=${traceRequest.fidelity}, mode=${traceRequest.mode}`);
+
+  // Process the image
+  await sendTrace(res, req.file.buffer, traceRequest);
+});
+
+// Upload-once images: store a PNG, then trace it by id as often as parameters change
+app.post('/api/images', upload.single('image'), async (req, res): Promise<void> => {
+  if (!req.file) {
+    res.status(400).json({
+      error: 'No image file provided',
+      code: 'MISSING_FILE'
+    });
+    return;
+  }
+
   try {
-    if (!req.file) {
-      res.status(400).json({
-        error: 'No image file provided',
-        code: 'MISSING_FILE'
+    const image = imageStore.put(await tracePool.decode(req.file.buffer));
+    console.log(`Stored image ${image.id} (${image.width}x${image.height}) from ${req.file.originalname}`);
+    res.status(201).location(`/api/images/${image.id}`).json(image);
+  } catch (error: any) {
+    if (error instanceof ImageTooLargeError) {
+      res.status(413).json({
+        error: error.message,
+        code: 'IMAGE_TOO_LARGE'
       });
       return;
     }
+    if (error instanceof TraceTimeoutError) {
+      res.status(504).json({
+        error: error.message,
+        code: 'TRACE_TIMEOUT'
+      });
+      return;
+    }
+    res.status(400).json({
+      error: `Invalid PNG: ${error.message}`,
+      code: 'INVALID_IMAGE'
+    });
+  }
+});
+
+app.get('/api/images/:id', (req, res): void => {
+  const image = imageStore.info(req.params.id);
+  if (!image) {
+    res.status(404).json({
+      error: 'Image not found',
+      code: 'IMAGE_NOT_FOUND'
+    });
+    return;
+  }
+
+  res.json(image);
+});
+
+app.post('/api/images/:id/trace', upload.none(), async (req, res): Promise<void> => {
+  const image = imageStore.get(req.params.id);
+  if (!image) {
+    res.status(404).json({
+      error: 'Image not found',
+      code: 'IMAGE_NOT_FOUND'
+    });
+    return;
+  }
+
+  const traceRequest = parseTraceRequest(req.body);
+  if (isRequestError(traceRequest)) {
+    res.status(400).json(traceRequest);
+    return;
+  }
+
+  console.log(`Processing stored image ${req.params.id} with fidelity=${traceRequest.fidelity}, mode=${traceRequest.mode}`);
+  await sendTrace(res, image, traceRequest);
+});
 
-    // Parse and validate request parameters
-    const fidelity = parseInt(req.body.fidelity) || 75;
-    const threshold = parseInt(req.body.threshold) || 128;
-    const whiteFill = req.body.whiteFill === 'true';
-    const useAI = req.body.useAI === 'true';
-    const despeckleAreaMin = parseInt(req.body.despeckleAreaMin) || undefined;
-
-    if (fidelity < 0 || fidelity > 100) {
-      res.status(400).json({
-        error: 'Fidelity must be between 0 and 100',
-        code: 'INVALID_FIDELITY'
+app.delete('/api/images/:id', (req, res): void => {
+  if (!imageStore.delete(req.params.id)) {
+    res.status(404).json({
+      error: 'Image not found',
+      code: 'IMAGE_NOT_FOUND'
+    });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+// Asynchronous job API: submit, poll status, fetch the result, cancel
+// Jobs trace an uploaded file or, given `imageId`, an image from the image store
+app.post('/api/jobs', upload.single('image'), (req, res): void => {
+  let input: Buffer | DecodedImage | null = req.file?.buffer || null;
+  if (!input && req.body.imageId) {
+    input = imageStore.get(String(req.body.imageId));
+    if (!input) {
+      res.status(404).json({
+        error: 'Image not found',
+        code: 'IMAGE_NOT_FOUND'
       });
       return;
     }
+  }
+  if (!input) {
+    res.status(400).json({
+      error: 'No image file provided',
+      code: 'MISSING_FILE'
+    });
+    return;
+  }
 
-    if (threshold < 0 || threshold > 255) {
-      res.status(400).json({
-        error: 'Threshold must be between 0 and 255',
-        code: 'INVALID_THRESHOLD'
+  const traceRequest = parseTraceRequest(req.body);
+  if (isRequestError(traceRequest)) {
+    res.status(400).json(traceRequest);
+    return;
+  }
+
+  try {
+    const job = jobQueue.submit(input, traceRequest);
+    console.log(`Queued job ${job.id} for ${req.file ? `${req.file.originalname} (${req.file.size} bytes)` : `stored image ${req.body.imageId}`}`);
+    res.status(202).location(`/api/jobs/${job.id}`).json(job);
+  } catch (error: any) {
+    if (error instanceof QueueFullError) {
+      res.status(503).json({
+        error: error.message,
+        code: 'QUEUE_FULL'
       });
       return;
     }
+    throw error;
+  }
+});
+
+app.get('/api/jobs/:id', (req, res): void => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      error: 'Job not found',
+      code: 'JOB_NOT_FOUND'
+    });
+    return;
+  }
 
-    const traceRequest: TraceRequest = {
-      fidelity,
-      threshold,
-      whiteFill,
-      useAI,
-      despeckleAreaMin,
-    };
+  res.json(job);
+});
 
-    console.log(`Processing ${req.file.originalname} (${req.file.size} bytes) with fidelity=${fidelity}`);
+// Server-Sent Events: one `progress` event per pipeline stage, then a final event named after the job status
+app.get('/api/jobs/:id/events', (req, res): void => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      error: 'Job not found',
+      code: 'JOB_NOT_FOUND'
+    });
+    return;
+  }
 
-    // Process the image
-    const result = await traceImage(req.file.buffer, traceRequest);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
 
-    res.json(result);
+  const isFinished = (status: TraceJob['status']) => status === 'completed' || status === 'failed' || status === 'cancelled';
+  const send = (snapshot: TraceJob) => {
+    res.write(`event: ${isFinished(snapshot.status) ? snapshot.status : 'progress'}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+    res.flush(); // Push through the compression middleware immediately
+    if (isFinished(snapshot.status)) res.end();
+  };
 
-  } catch (error: any) {
-    console.error('Trace API error:', error);
+  send(job);
+  if (isFinished(job.status)) return;
+
+  const unsubscribe = jobQueue.subscribe(job.id, send);
+  req.on('close', () => unsubscribe?.());
+});
+
+app.get('/api/jobs/:id/result', (req, res): void => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      error: 'Job not found',
+      code: 'JOB_NOT_FOUND'
+    });
+    return;
+  }
+
+  if (job.status === 'failed') {
     res.status(500).json({
-      error: error.message || 'Internal server error',
-      details: process.env.NODE_ENV === 'development' ? error.stack : undefined,
+      error: job.error || 'Internal server error',
       code: 'PROCESSING_ERROR'
     });
+    return;
+  }
+
+  const result = jobQueue.getResult(job.id);
+  if (!result) {
+    res.status(409).json({
+      error: `Job is ${job.status}`,
+      code: job.status === 'cancelled' ? 'JOB_CANCELLED' : 'JOB_NOT_FINISHED'
+    });
+    return;
   }
+
+  res.json(result);
+});
+
+app.delete('/api/jobs/:id', (req, res): void => {
+  const job = jobQueue.cancel(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      error: 'Job not found',
+      code: 'JOB_NOT_FOUND'
+    });
+    return;
+  }
+
+  res.json(job);
 });
 
 // Catch-all handler: send back the frontend's index.html file
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import type { TraceHooks, ProgressCallback, DecodedImage } from './trace/index';
+import type { TraceRequest, TraceResponse, TraceJob } from '../../../shared/types';
+
+/**
+ * Bounded in-process queue for asynchronous trace jobs
+ * Large scans are traced in the background while clients poll or stream their progress and fetch the result later
+ */
+
+export type TraceRunner = (input: Buffer | DecodedImage, request: TraceRequest, hooks: TraceHooks) => Promise<TraceResponse>;
+
+/**
+ * Receives a status snapshot on every progress update and when the job finishes
+ */
+export type JobListener = (job: TraceJob) => void;
+
+export interface JobQueueOptions {
+  /** Jobs traced at the same time */
+  concurrency: number;
+  /** Waiting jobs accepted before new submissions are rejected */
+  maxQueued: number;
+  /** How long finished jobs and their results are kept (ms) */
+  retentionMs: number;
+  /** Trace implementation (the worker pool in the server) */
+  runner: TraceRunner;
+}
+
+/**
+ * Thrown by submit() when the queue is at capacity
+ */
+export class QueueFullError extends Error {
+  constructor(limit: number) {
+    super(`Job queue is full (${limit} waiting jobs)`);
+    this.name = 'QueueFullError';
+  }
+}
+
+interface Job {
+  info: TraceJob;
+  request: TraceRequest;
+  /** Uploaded PNG or stored image, released once the job starts */
+  input: Buffer | DecodedImage | null;
+  result: TraceResponse | null;
+  /** Aborts the running trace on cancel */
+  abortController: AbortController;
+  listeners: Set<JobListener>;
+}
+
+export class JobQueue {
+  private readonly jobs = new Map<string, Job>();
+  private readonly waiting: Job[] = [];
+  private running = 0;
+  constructor(private readonly options: JobQueueOptions) {}
+
+  /**
+   * Queue a trace of an uploaded PNG or a stored image and return its initial status
+   */
+  submit(input: Buffer | DecodedImage, request: TraceRequest): TraceJob {
+    if (this.waiting.length >= this.options.maxQueued) {
+      throw new QueueFullError(this.options.maxQueued);
+    }
+
+    const job: Job = {
+      info: {
+        id: randomUUID(),
+        status: 'queued',
+        percent: 0,
+        createdAt: new Date().toISOString(),
+      },
+      request,
+      input,
+      result: null,
+      abortController: new AbortController(),
+      listeners: new Set(),
+    };
+
+    this.jobs.set(job.info.id, job);
+    this.waiting.push(job);
+    this.startNext();
+
+    return { ...job.info };
+  }
+
+  /**
+   * Current status, or null for unknown or expired jobs
+   */
+  get(id: string): TraceJob | null {
+    const job = this.jobs.get(id);
+    return job ? { ...job.info } : null;
+  }
+
+  /**
+   * Result of a completed job, or null while it is not available
+   */
+  getResult(id: string): TraceResponse | null {
+    return this.jobs.get(id)?.result ?? null;
+  }
+
+  /**
+   * Follow a job's progress; returns an unsubscribe function, or null for unknown jobs
+   * Listeners are dropped automatically once the job finishes
+   */
+  subscribe(id: string, listener: JobListener): (() => void) | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  /**
+   * Cancel a waiting or running job; finished jobs are discarded with their result
+   * Running jobs are aborted through their AbortSignal
+   */
+  cancel(id: string): TraceJob | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    if (job.info.status === 'queued') {
+      this.waiting.splice(this.waiting.indexOf(job), 1);
+      this.finish(job, 'cancelled');
+    } else if (job.info.status === 'running') {
+      job.abortController.abort();
+    } else {
+      this.jobs.delete(id);
+    }
+
+    return { ...job.info };
+  }
+
+  // Queue management
+
+  private startNext(): void {
+    while (this.running < this.options.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.startNext();
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const input = job.input!;
+    job.input = null;
+    job.info.status = 'running';
+    job.info.startedAt = new Date().toISOString();
+    this.notify(job);
+
+    const onProgress: ProgressCallback = progress => {
+      job.info.stage = progress.stage;
+      job.info.percent = progress.percent;
+      job.info.contourCount = progress.contourCount;
+      this.notify(job);
+    };
+
+    try {
+      job.result = await this.options.runner(input, job.request, { onProgress, signal: job.abortController.signal });
+      job.info.percent = 100;
+      this.finish(job, job.abortController.signal.aborted ? 'cancelled' : 'completed');
+    } catch (error: any) {
+      if (job.abortController.signal.aborted) {
+        this.finish(job, 'cancelled');
+      } else {
+        this.finish(job, 'failed', error?.message || 'Trace processing failed');
+      }
+    }
+  }
+
+  private finish(job: Job, status: 'completed' | 'failed' | 'cancelled', error?: string): void {
+    job.info.status = status;
+    job.info.finishedAt = new Date().toISOString();
+    job.info.stage = undefined;
+    if (error) job.info.error = error;
+    if (status !== 'completed') job.result = null;
+
+    this.notify(job);
+    job.listeners.clear();
+
+    // Drop the job (and its result) once the retention period has passed
+    setTimeout(() => this.jobs.delete(job.info.id), this.options.retentionMs).unref();
+  }
+
+  private notify(job: Job): void {
+    const snapshot = { ...job.info };
+    job.listeners.forEach(listener => listener(snapshot));
+  }
+}
@@ -0,0 +1,283 @@
+import { MAX_COLORS } from './trace/color';
+import { MAX_CHAIKIN_ITERATIONS } from './trace/smoothing';
+import type { TraceRequest, TraceMode, ContourMethod, SmoothingMethod, SimplifyMethod, ThresholdMode, AdaptiveMethod, AlphaMode, DrawingUnits, DrawingOrigin, OffsetJoin } from '../../../shared/types';
+
+/**
+ * Validation failure returned to the client as a 400 response
+ */
+export interface RequestError {
+  error: string;
+  code: string;
+}
+
+/**
+ * Parse and validate trace parameters from a multipart form body
+ * Shared by the synchronous trace endpoint and the job API
+ */
+export function parseTraceRequest(body: any): TraceRequest | RequestError {
+  const fidelity = parseInt(body.fidelity) || 75;
+  const threshold = parseInt(body.threshold) || 128;
+  const thresholdMode: ThresholdMode = body.thresholdMode || 'fixed';
+  const adaptiveMethod: AdaptiveMethod = body.adaptiveMethod || 'sauvola';
+  const adaptiveWindow = parseInt(body.adaptiveWindow) || undefined;
+  const whiteFill = body.whiteFill === 'true';
+  const useAI = body.useAI === 'true';
+  const despeckleAreaMin = parseInt(body.despeckleAreaMin) || undefined;
+  const tileSize = body.tileSize !== undefined ? Number(body.tileSize) : undefined;
+  const mode: TraceMode = body.mode || 'outline';
+  const contourMethod: ContourMethod = body.contourMethod || 'border';
+  const smoothing: SmoothingMethod = body.smoothing || 'none';
+  const smoothingStrength = body.smoothingStrength !== undefined && body.smoothingStrength !== '' ? Number(body.smoothingStrength) : undefined;
+  const simplifyMethod: SimplifyMethod = body.simplifyMethod || 'douglas-peucker';
+  const maxNodes = body.maxNodes !== undefined && body.maxNodes !== '' ? Number(body.maxNodes) : undefined;
+  const curveFitting = body.curveFitting === 'true';
+  const cornerThreshold = parseFloat(body.cornerThreshold) || undefined;
+  const detectPrimitives = body.detectPrimitives === 'true';
+  const primitiveTolerance = parseFloat(body.primitiveTolerance) || undefined;
+  const orthogonalSnap = body.orthogonalSnap === 'true';
+  const snapTolerance = parseFloat(body.snapTolerance) || undefined;
+  const colorMode = body.colorMode === 'true';
+  const colorCount = parseInt(body.colorCount) || undefined;
+  const alphaMode: AlphaMode = body.alphaMode || 'composite';
+  const alphaBackground: string | undefined = body.alphaBackground || undefined;
+  const alphaCutoff = body.alphaCutoff !== undefined ? parseInt(body.alphaCutoff) : undefined;
+  const dpi = body.dpi !== undefined ? parseFloat(body.dpi) : undefined;
+  const drawingScale = body.drawingScale !== undefined ? parseFloat(String(body.drawingScale).replace(/^1:/, '')) : undefined; // "1:100" or "100"
+  const units: DrawingUnits | undefined = body.units || undefined;
+  const origin: DrawingOrigin = body.origin || 'bottom-left';
+  const originX = parseFloat(body.originX);
+  const originY = parseFloat(body.originY);
+  const offset = body.offset !== undefined && body.offset !== '' ? Number(body.offset) : undefined;
+  const offsetJoin: OffsetJoin = body.offsetJoin || 'miter';
+  const dissolve = body.dissolve === 'true';
+
+  if (fidelity < 0 || fidelity > 100) {
+    return {
+      error: 'Fidelity must be between 0 and 100',
+      code: 'INVALID_FIDELITY'
+    };
+  }
+
+  if (threshold < 0 || threshold > 255) {
+    return {
+      error: 'Threshold must be between 0 and 255',
+      code: 'INVALID_THRESHOLD'
+    };
+  }
+
+  if (thresholdMode !== 'fixed' && thresholdMode !== 'otsu' && thresholdMode !== 'adaptive') {
+    return {
+      error: 'Threshold mode must be "fixed", "otsu" or "adaptive"',
+      code: 'INVALID_THRESHOLD_MODE'
+    };
+  }
+
+  if (adaptiveMethod !== 'sauvola' && adaptiveMethod !== 'niblack') {
+    return {
+      error: 'Adaptive method must be "sauvola" or "niblack"',
+      code: 'INVALID_THRESHOLD_MODE'
+    };
+  }
+
+  if (adaptiveWindow !== undefined && (adaptiveWindow < 3 || adaptiveWindow > 255)) {
+    return {
+      error: 'Adaptive window must be between 3 and 255 pixels',
+      code: 'INVALID_ADAPTIVE_WINDOW'
+    };
+  }
+
+  if (tileSize !== undefined && tileSize !== 0 && !(Number.isInteger(tileSize) && tileSize >= 256)) {
+    return {
+      error: 'Tile size must be 0 (no tiling) or an integer of at least 256 pixels',
+      code: 'INVALID_TILE_SIZE'
+    };
+  }
+
+  if (mode !== 'outline' && mode !== 'centerline') {
+    return {
+      error: 'Mode must be "outline" or "centerline"',
+      code: 'INVALID_MODE'
+    };
+  }
+
+  if (contourMethod !== 'border' && contourMethod !== 'marching-squares') {
+    return {
+      error: 'Contour method must be "border" or "marching-squares"',
+      code: 'INVALID_CONTOUR_METHOD'
+    };
+  }
+
+  if (smoothing !== 'none' && smoothing !== 'gaussian' && smoothing !== 'chaikin') {
+    return {
+      error: 'Smoothing must be "none", "gaussian" or "chaikin"',
+      code: 'INVALID_SMOOTHING'
+    };
+  }
+
+  if (smoothingStrength !== undefined && !(smoothingStrength > 0 && smoothingStrength <= (smoothing === 'chaikin' ? MAX_CHAIKIN_ITERATIONS : 10))) {
+    return {
+      error: `Smoothing strength must be a Gaussian sigma up to 10 px or 1-${MAX_CHAIKIN_ITERATIONS} Chaikin iterations`,
+      code: 'INVALID_SMOOTHING_STRENGTH'
+    };
+  }
+
+  if (simplifyMethod !== 'douglas-peucker' && simplifyMethod !== 'topology-preserving' && simplifyMethod !== 'visvalingam') {
+    return {
+      error: 'Simplify method must be "douglas-peucker", "topology-preserving" or "visvalingam"',
+      code: 'INVALID_SIMPLIFY_METHOD'
+    };
+  }
+
+  if (maxNodes !== undefined && (!Number.isInteger(maxNodes) || maxNodes < 1)) {
+    return {
+      error: 'Max nodes must be a positive whole number',
+      code: 'INVALID_MAX_NODES'
+    };
+  }
+
+  if (cornerThreshold !== undefined && (cornerThreshold <= 0 || cornerThreshold >= 180)) {
+    return {
+      error: 'Corner threshold must be between 0 and 180 degrees',
+      code: 'INVALID_CORNER_THRESHOLD'
+    };
+  }
+
+  if (primitiveTolerance !== undefined && primitiveTolerance <= 0) {
+    return {
+      error: 'Primitive tolerance must be greater than 0',
+      code: 'INVALID_PRIMITIVE_TOLERANCE'
+    };
+  }
+
+  if (snapTolerance !== undefined && (snapTolerance <= 0 || snapTolerance > 22.5)) {
+    return {
+      error: 'Snap tolerance must be between 0 and 22.5 degrees',
+      code: 'INVALID_SNAP_TOLERANCE'
+    };
+  }
+
+  if (colorMode && mode === 'centerline') {
+    return {
+      error: 'Color mode traces filled regions and cannot be combined with centerline mode',
+      code: 'INVALID_MODE'
+    };
+  }
+
+  if (colorCount !== undefined && (colorCount < 2 || colorCount > MAX_COLORS)) {
+    return {
+      error: `Color count must be between 2 and ${MAX_COLORS}`,
+      code: 'INVALID_COLOR_COUNT'
+    };
+  }
+
+  if (alphaMode !== 'composite' && alphaMode !== 'cutoff' && alphaMode !== 'mask') {
+    return {
+      error: 'Alpha mode must be "composite", "cutoff" or "mask"',
+      code: 'INVALID_ALPHA_MODE'
+    };
+  }
+
+  if (alphaBackground !== undefined && !/^#[0-9a-fA-F]{6}$/.test(alphaBackground)) {
+    return {
+      error: 'Alpha background must be a #rrggbb color',
+      code: 'INVALID_ALPHA_BACKGROUND'
+    };
+  }
+
+  if (alphaCutoff !== undefined && (isNaN(alphaCutoff) || alphaCutoff < 0 || alphaCutoff > 255)) {
+    return {
+      error: 'Alpha cutoff must be between 0 and 255',
+      code: 'INVALID_ALPHA_CUTOFF'
+    };
+  }
+
+  if (dpi !== undefined && (isNaN(dpi) || dpi <= 0)) {
+    return {
+      error: 'DPI must be a positive number',
+      code: 'INVALID_DPI'
+    };
+  }
+
+  if (drawingScale !== undefined && (isNaN(drawingScale) || drawingScale <= 0)) {
+    return {
+      error: 'Drawing scale must be a positive number or ratio like 1:100',
+      code: 'INVALID_DRAWING_SCALE'
+    };
+  }
+
+  if (units !== undefined && units !== 'px' && units !== 'mm' && units !== 'in') {
+    return {
+      error: 'Units must be "px", "mm" or "in"',
+      code: 'INVALID_UNITS'
+    };
+  }
+
+  if (origin !== 'bottom-left' && origin !== 'center' && origin !== 'point') {
+    return {
+      error: 'Origin must be "bottom-left", "center" or "point"',
+      code: 'INVALID_ORIGIN'
+    };
+  }
+
+  if (origin === 'point' && (isNaN(originX) || isNaN(originY))) {
+    return {
+      error: 'Origin "point" requires numeric originX and originY',
+      code: 'INVALID_ORIGIN'
+    };
+  }
+
+  if (offset !== undefined && !isFinite(offset)) {
+    return {
+      error: 'Offset must be a number (negative to shrink)',
+      code: 'INVALID_OFFSET'
+    };
+  }
+
+  if (offsetJoin !== 'miter' && offsetJoin !== 'round' && offsetJoin !== 'square') {
+    return {
+      error: 'Offset join must be "miter", "round" or "square"',
+      code: 'INVALID_OFFSET_JOIN'
+    };
+  }
+
+  return {
+    fidelity,
+    threshold,
+    thresholdMode,
+    adaptiveMethod,
+    adaptiveWindow,
+    whiteFill,
+    useAI,
+    despeckleAreaMin,
+    tileSize,
+    mode,
+    contourMethod,
+    smoothing,
+    smoothingStrength,
+    simplifyMethod,
+    maxNodes,
+    curveFitting,
+    cornerThreshold,
+    detectPrimitives,
+    primitiveTolerance,
+    orthogonalSnap,
+    snapTolerance,
+    colorMode,
+    colorCount,
+    alphaMode,
+    alphaBackground,
+    alphaCutoff,
+    dpi,
+    drawingScale,
+    units,
+    origin,
+    originPoint: origin === 'point' ? { x: originX, y: originY } : undefined,
+    offset: offset || undefined,
+    offsetJoin,
+    dissolve,
+  };
+}
+
+export function isRequestError(value: TraceRequest | RequestError): value is RequestError {
+  return 'code' in value;
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import type { ImageData, Bitmap, Point } from '../../../../shared/types';
+
+/**
+ * Memoization of intermediate pipeline results
+ * Every stage is keyed by its input's key plus the parameters it reads, so a parameter change only
+ * recomputes the stages from the first one that reads it; entries are evicted least recently used
+ */
+
+export interface StageCacheOptions {
+  /** Estimated memory for all entries (bytes) */
+  maxBytes: number;
+}
+
+interface Entry {
+  value: unknown;
+  /** Estimated bytes counted against the budget */
+  size: number;
+}
+
+// Rough heap cost of a {x, y} point held in an array
+const POINT_BYTES = 40;
+
+export class StageCache {
+  /** Insertion order doubles as recency order: entries are re-inserted on every hit */
+  private readonly entries = new Map<string, Entry>();
+  private totalBytes = 0;
+
+  constructor(private readonly options: StageCacheOptions) {}
+
+  /**
+   * Cached value, or undefined on a miss
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  /**
+   * Store a value; values larger than the whole budget are not cached
+   */
+  set(key: string, value: unknown, size: number): void {
+    if (size > this.options.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.entries.delete(key);
+      this.totalBytes -= existing.size;
+    }
+
+    while (this.totalBytes + size > this.options.maxBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this.totalBytes -= this.entries.get(oldest)!.size;
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(key, { value, size });
+    this.totalBytes += size;
+  }
+
+  /**
+   * Return the cached value for `key`, or compute and store it
+   * `hit` tells whether the stage was skipped
+   */
+  async memoize<T>(key: string, compute: () => T | Promise<T>, sizeOf: (value: T) => number): Promise<{ value: T; hit: boolean }> {
+    const cached = this.get<T>(key);
+    if (cached !== undefined) return { value: cached, hit: true };
+
+    const value = await compute();
+    this.set(key, value, sizeOf(value));
+    return { value, hit: false };
+  }
+
+  /** Number of cached entries */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Estimated bytes held */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+}
+
+/**
+ * Content hash of an uploaded file, the root of every stage key
+ */
+export function hashContent(buffer: Uint8Array): string {
+  return createHash('sha1').update(buffer).digest('hex');
+}
+
+/**
+ * Key of a stage output from its input's key and the parameters the stage reads
+ */
+export function stageKey(inputKey: string, stage: string, params: unknown[] = []): string {
+  return createHash('sha1').update(JSON.stringify([inputKey, stage, params])).digest('hex');
+}
+
+/**
+ * Estimated size of a raster, RGBA or single-channel
+ */
+export function imageSize(image: ImageData | Bitmap): number {
+  return image.data.byteLength;
+}
+
+/**
+ * Estimated size of point rings (contours, polygon rings, polylines)
+ */
+export function pathsSize(paths: Point[][]): number {
+  return paths.reduce((total, path) => total + path.length * POINT_BYTES, 0);
+}
@@ -0,0 +1,257 @@
+import type { ImageData, Bitmap } from '../../../../shared/types';
+
+/**
+ * Color quantization for multi-color tracing
+ * Deterministic k-means in RGB space so the same image always yields the same palette
+ */
+
+export type RGB = [number, number, number];
+
+export interface QuantizedImage {
+  /** Cluster colors, most frequent first */
+  palette: RGB[];
+  /** Cluster index for every pixel */
+  labels: Uint8Array;
+  /** Pixel count per cluster */
+  counts: number[];
+  /** Cluster covering most of the image border (the drawing background) */
+  background: number;
+}
+
+// Upper bounds for requested and automatically chosen cluster counts
+export const MAX_COLORS = 16;
+const MAX_AUTO_COLORS = 8;
+
+// k-means runs on a regular subsample; every pixel is labelled afterwards
+const SAMPLE_LIMIT = 20000;
+const MAX_ITERATIONS = 20;
+
+// Auto mode stops adding clusters once colors are this close (RGB distance) or gains flatten out
+const AUTO_TARGET_ERROR = 20;
+const AUTO_MIN_IMPROVEMENT = 0.25;
+
+/**
+ * Quantize an image into `colorCount` colors, or choose the count automatically when omitted
+ */
+export function quantizeColors(imageData: ImageData, colorCount?: number): QuantizedImage {
+  const { width, height, data } = imageData;
+  const pixelCount = width * height;
+  const samples = samplePixels(imageData);
+
+  let result: { centers: RGB[]; error: number };
+  if (colorCount !== undefined) {
+    result = kMeans(samples, Math.max(1, Math.min(MAX_COLORS, Math.round(colorCount))));
+  } else {
+    result = kMeans(samples, 2);
+    for (let k = 3; k <= MAX_AUTO_COLORS; k++) {
+      const sampleCount = samples.length / 3;
+      if (Math.sqrt(result.error / sampleCount) <= AUTO_TARGET_ERROR) break;
+
+      const next = kMeans(samples, k);
+      if (next.centers.length < k || next.error > result.error * (1 - AUTO_MIN_IMPROVEMENT)) break;
+      result = next;
+    }
+  }
+
+  // Label every pixel with its nearest center
+  const labels = new Uint8Array(pixelCount);
+  const counts = new Array<number>(result.centers.length).fill(0);
+  for (let i = 0; i < pixelCount; i++) {
+    const pixelIndex = i * 4;
+    const label = nearestCenter(result.centers, data[pixelIndex], data[pixelIndex + 1], data[pixelIndex + 2]);
+    labels[i] = label;
+    counts[label]++;
+  }
+
+  // Order clusters by frequency so palettes are stable and readable
+  const order = counts.map((_, i) => i).sort((a, b) => counts[b] - counts[a] || a - b);
+  const remap = new Uint8Array(order.length);
+  order.forEach((cluster, i) => { remap[cluster] = i; });
+  for (let i = 0; i < pixelCount; i++) {
+    labels[i] = remap[labels[i]];
+  }
+
+  const palette = order.map(cluster => result.centers[cluster].map(Math.round) as RGB);
+  const sortedCounts = order.map(cluster => counts[cluster]);
+
+  return {
+    palette,
+    labels,
+    counts: sortedCounts,
+    background: findBackgroundCluster(labels, width, height, palette.length),
+  };
+}
+
+/**
+ * Build a binary bitmap (1 = foreground) for a single cluster
+ */
+export function createClusterMask(quantized: QuantizedImage, width: number, height: number, cluster: number): Bitmap {
+  const data = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    data[i] = quantized.labels[i] === cluster ? 1 : 0;
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Layer/group name for the color layer at `index`, shared by the SVG and DXF exports
+ */
+export function colorLayerName(index: number): string {
+  return `VW_CLASS_Color_${index + 1}`;
+}
+
+/**
+ * Format a color as #rrggbb
+ */
+export function toHexColor(color: RGB): string {
+  return '#' + color.map(channel => channel.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parse a #rrggbb color
+ */
+export function parseHexColor(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Helper functions
+
+function samplePixels(imageData: ImageData): Float64Array {
+  const { width, height, data } = imageData;
+  const pixelCount = width * height;
+  const step = Math.max(1, Math.floor(pixelCount / SAMPLE_LIMIT));
+  const count = Math.ceil(pixelCount / step);
+  const samples = new Float64Array(count * 3);
+
+  for (let s = 0; s < count; s++) {
+    const pixelIndex = s * step * 4;
+    samples[s * 3] = data[pixelIndex];
+    samples[s * 3 + 1] = data[pixelIndex + 1];
+    samples[s * 3 + 2] = data[pixelIndex + 2];
+  }
+
+  return samples;
+}
+
+/**
+ * Lloyd's k-means with farthest-first initialization
+ * May return fewer centers than requested when the image has fewer distinct colors
+ */
+function kMeans(samples: Float64Array, k: number): { centers: RGB[]; error: number } {
+  const count = samples.length / 3;
+  if (count === 0) return { centers: [[255, 255, 255]], error: 0 };
+
+  // Start from the sample closest to the mean color
+  const mean: RGB = [0, 0, 0];
+  for (let s = 0; s < count; s++) {
+    for (let c = 0; c < 3; c++) mean[c] += samples[s * 3 + c] / count;
+  }
+  let first = 0;
+  let firstDistance = Infinity;
+  for (let s = 0; s < count; s++) {
+    const distance = squaredDistance(samples, s, mean);
+    if (distance < firstDistance) {
+      firstDistance = distance;
+      first = s;
+    }
+  }
+
+  const centers: RGB[] = [sampleColor(samples, first)];
+  const minDistances = new Float64Array(count).fill(Infinity);
+
+  while (centers.length < k) {
+    const latest = centers[centers.length - 1];
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let s = 0; s < count; s++) {
+      minDistances[s] = Math.min(minDistances[s], squaredDistance(samples, s, latest));
+      if (minDistances[s] > farthestDistance) {
+        farthestDistance = minDistances[s];
+        farthest = s;
+      }
+    }
+    if (farthest === -1) break; // Fewer distinct colors than clusters
+    centers.push(sampleColor(samples, farthest));
+  }
+
+  const assignments = new Int32Array(count).fill(-1);
+  let error = 0;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    error = 0;
+
+    for (let s = 0; s < count; s++) {
+      const label = nearestCenter(centers, samples[s * 3], samples[s * 3 + 1], samples[s * 3 + 2]);
+      if (label !== assignments[s]) {
+        assignments[s] = label;
+        changed = true;
+      }
+      error += squaredDistance(samples, s, centers[label]);
+    }
+
+    if (!changed) break;
+
+    // Move centers to the mean of their samples; empty clusters keep their position
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (let s = 0; s < count; s++) {
+      const sum = sums[assignments[s]];
+      sum[0] += samples[s * 3];
+      sum[1] += samples[s * 3 + 1];
+      sum[2] += samples[s * 3 + 2];
+      sum[3]++;
+    }
+    sums.forEach((sum, i) => {
+      if (sum[3] > 0) centers[i] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  return { centers, error };
+}
+
+function nearestCenter(centers: RGB[], r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < centers.length; i++) {
+    const dr = r - centers[i][0];
+    const dg = g - centers[i][1];
+    const db = b - centers[i][2];
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+
+  return best;
+}
+
+function findBackgroundCluster(labels: Uint8Array, width: number, height: number, clusterCount: number): number {
+  const borderCounts = new Array<number>(clusterCount).fill(0);
+
+  for (let x = 0; x < width; x++) {
+    borderCounts[labels[x]]++;
+    borderCounts[labels[(height - 1) * width + x]]++;
+  }
+  for (let y = 0; y < height; y++) {
+    borderCounts[labels[y * width]]++;
+    borderCounts[labels[y * width + width - 1]]++;
+  }
+
+  return borderCounts.indexOf(Math.max(...borderCounts));
+}
+
+function sampleColor(samples: Float64Array, index: number): RGB {
+  return [samples[index * 3], samples[index * 3 + 1], samples[index * 3 + 2]];
+}
+
+function squaredDistance(samples: Float64Array, index: number, color: RGB): number {
+  const dr = samples[index * 3] - color[0];
+  const dg = samples[index * 3 + 1] - color[1];
+  const db = samples[index * 3 + 2] - color[2];
+  return dr * dr + dg * dg + db * db;
+}
@@ -1,248 +1,205 @@
 import simplify from 'simplify-js';
-import type { ImageData, Point, ContourHierarchy } from '../../../../shared/types';
+import type { Bitmap, Point, Polyline, ContourHierarchy } from '../../../../shared/types';
 
 export interface Contour {
   points: Point[];
   holes: Point[][];
   isHole: boolean;
+  /** Index of the contour whose hole holds this one (an island), -1 at the top level */
   parent: number;
 }
 
 /**
- * Extract contours from binary image using Moore neighborhood tracing
- * Returns hierarchical contours with proper hole detection
+ * Every border of a bitmap with its nesting
+ * hierarchy[i] describes borders[i]; outer borders are children of holes and vice versa
  */
-export function extractContours(imageData: ImageData): Contour[] {
-  const { width, height, data } = imageData;
-  const visited = new Array(width * height).fill(false);
-  const contours: Contour[] = [];
-  const hierarchy: ContourHierarchy[] = [];
-  
-  // Scan image for contour starting points
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const index = y * width + x;
-      const pixelIndex = index * 4;
-      
-      if (visited[index]) continue;
-      
-      const isBlack = data[pixelIndex] === 0; // Foreground pixel
-      
-      // Check if this is a contour starting point
-      if (isBlack && isContourStart(imageData, x, y)) {
-        const contour = traceContour(imageData, x, y, visited);
-        if (contour.points.length > 3) { // Minimum viable contour
-          contours.push({
-            points: contour.points,
-            holes: [],
-            isHole: false,
-            parent: -1,
-          });
-        }
-      }
-    }
-  }
-  
-  // Find holes and establish hierarchy
-  const contoursWithHoles = findHoles(imageData, contours);
-  
-  console.log(`Extracted ${contoursWithHoles.length} contours`);
-  return contoursWithHoles;
+export interface BorderTree {
+  borders: Point[][];
+  hierarchy: ContourHierarchy[];
 }
 
-/**
- * Simplify contours using Douglas-Peucker algorithm
- * Reduces point count while preserving shape fidelity
- */
-export function simplifyContours(contours: Contour[], epsilon: number): Contour[] {
-  return contours.map(contour => ({
-    ...contour,
-    points: simplifyPoints(contour.points, epsilon),
-    holes: contour.holes.map(hole => simplifyPoints(hole, epsilon)),
-  }));
-}
+// 8-neighborhood offsets in clockwise order (y down), starting east
+const NEIGHBOR_DX = [1, 1, 0, -1, -1, -1, 0, 1];
+const NEIGHBOR_DY = [0, 1, 1, 1, 0, -1, -1, -1];
 
 /**
- * Check if a pixel is a contour starting point
- * Must be foreground with at least one background neighbor
+ * Extract contours from a binary bitmap
+ * Each outer border becomes a contour with its direct holes; islands inside holes are contours
+ * of their own whose `parent` points at the enclosing contour, to any depth
+ * The optional signal is checked once per row
  */
-function isContourStart(imageData: ImageData, x: number, y: number): boolean {
-  const { width, height, data } = imageData;
-  
-  // Check 8-connected neighbors
-  const neighbors = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
+export function extractContours(bitmap: Bitmap, signal?: AbortSignal): Contour[] {
+  const { borders, hierarchy } = traceBorders(bitmap, signal);
+  const contours: Contour[] = [];
+  const contourOf = new Int32Array(borders.length).fill(-1);
   
-  for (const [dx, dy] of neighbors) {
-    const nx = x + dx;
-    const ny = y + dy;
-    
-    if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
-      return true; // Border is considered background
+  // Outer borders in scan order, then holes and islands attached to them
+  for (let i = 0; i < borders.length; i++) {
+    if (!hierarchy[i].isHole && borders[i].length > 3) { // Minimum viable contour
+      contourOf[i] = contours.length;
+      contours.push({ points: borders[i], holes: [], isHole: false, parent: -1 });
     }
-    
-    const neighborIndex = (ny * width + nx) * 4;
-    if (data[neighborIndex] === 255) { // Background neighbor found
-      return true;
+  }
+  
+  for (let i = 0; i < borders.length; i++) {
+    const parent = hierarchy[i].parent;
+    if (hierarchy[i].isHole) {
+      if (parent >= 0 && contourOf[parent] >= 0 && borders[i].length >= 3) {
+        contours[contourOf[parent]].holes.push(borders[i]);
+      }
+    } else if (contourOf[i] >= 0 && parent >= 0) {
+      contours[contourOf[i]].parent = contourOf[hierarchy[parent].parent];
     }
   }
   
-  return false;
+  console.log(`Extracted ${contours.length} contours`);
+  return contours;
 }
 
 /**
- * Trace contour using Moore neighborhood algorithm
- * Follows the boundary of a connected component
+ * Suzuki-Abe border following (Suzuki & Abe, 1985)
+ * A single raster scan finds every outer border (foreground, 8-connected) and hole border
+ * (background, 4-connected) and derives each border's parent from the last border crossed on
+ * the scan line, which yields the exact nesting tree
+ * Border points are the centers of the border pixels, in tracing order
  */
-function traceContour(imageData: ImageData, startX: number, startY: number, visited: boolean[]): { points: Point[] } {
-  const { width, height, data } = imageData;
-  const points: Point[] = [];
+export function traceBorders(bitmap: Bitmap, signal?: AbortSignal): BorderTree {
+  const { width, height, data } = bitmap;
   
-  // Moore neighborhood directions (8-connected)
-  const directions = [
-    [0, -1],  // North
-    [1, -1],  // Northeast
-    [1, 0],   // East
-    [1, 1],   // Southeast
-    [0, 1],   // South
-    [-1, 1],  // Southwest
-    [-1, 0],  // West
-    [-1, -1]  // Northwest
-  ];
+  // Labels with a one-pixel background frame: 1 = untraced foreground, ±n = on border n
+  // Border 1 is the frame itself, traced borders are numbered from 2
+  const stride = width + 2;
+  const labels = new Int32Array(stride * (height + 2));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x]) labels[(y + 1) * stride + x + 1] = 1;
+    }
+  }
   
-  let currentX = startX;
-  let currentY = startY;
-  let direction = 0; // Start facing north
+  const borders: Point[][] = [];
+  const hierarchy: ContourHierarchy[] = [];
+  // Whether the border with number n is a hole; the frame counts as one
+  const isHoleBorder = (border: number) => border === 1 || hierarchy[border - 2].isHole;
+  const parentOf = (border: number) => (border === 1 ? -1 : hierarchy[border - 2].parent);
   
-  do {
-    points.push({ x: currentX, y: currentY });
-    visited[currentY * width + currentX] = true;
+  for (let y = 1; y <= height; y++) {
+    signal?.throwIfAborted();
+    let lastBorder = 1;
     
-    // Find next boundary pixel
-    let found = false;
-    for (let i = 0; i < 8; i++) {
-      const checkDir = (direction + i) % 8;
-      const [dx, dy] = directions[checkDir];
-      const nextX = currentX + dx;
-      const nextY = currentY + dy;
+    for (let x = 1; x <= width; x++) {
+      const index = y * stride + x;
+      const label = labels[index];
+      if (label === 0) continue;
       
-      if (nextX >= 0 && nextX < width && nextY >= 0 && nextY < height) {
-        const nextIndex = (nextY * width + nextX) * 4;
-        
-        if (data[nextIndex] === 0) { // Foreground pixel
-          currentX = nextX;
-          currentY = nextY;
-          direction = (checkDir + 6) % 8; // Turn left for next iteration
-          found = true;
-          break;
-        }
+      let from = -1;
+      let isHole = false;
+      if (label === 1 && labels[index - 1] === 0) {
+        from = index - 1; // Outer border: background on the left
+      } else if (label >= 1 && labels[index + 1] === 0) {
+        from = index + 1; // Hole border: background on the right
+        isHole = true;
+        if (label > 1) lastBorder = label;
       }
-    }
-    
-    if (!found) break;
-    
-  } while (currentX !== startX || currentY !== startY || points.length < 3);
-  
-  return { points };
-}
-
-/**
- * Find holes within contours and establish parent-child relationships
- */
-function findHoles(imageData: ImageData, contours: Contour[]): Contour[] {
-  const { width, height, data } = imageData;
-  const result: Contour[] = [...contours];
-  
-  // Find hole contours (white pixels surrounded by black)
-  const visited = new Array(width * height).fill(false);
-  
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const index = y * width + x;
-      const pixelIndex = index * 4;
       
-      if (visited[index] || data[pixelIndex] !== 255) continue; // Not white or already visited
-      
-      // Check if this white pixel is surrounded by black (potential hole)
-      if (isHoleStart(imageData, x, y)) {
-        const holeContour = traceContour(imageData, x, y, visited);
-        if (holeContour.points.length > 3) {
-          // Find parent contour that contains this hole
-          const parentIndex = findContainingContour(result, holeContour.points[0]);
-          if (parentIndex >= 0) {
-            result[parentIndex].holes.push(holeContour.points);
-          }
-        }
+      if (from !== -1) {
+        // A border's parent is the last border crossed, or that border's parent when both are the same kind
+        const border = borders.length + 2;
+        const parentBorder = isHole === isHoleBorder(lastBorder) ? parentOf(lastBorder) : lastBorder - 2;
+        const entry: ContourHierarchy = { index: border - 2, parent: parentBorder, children: [], isHole };
+        hierarchy.push(entry);
+        if (parentBorder >= 0) hierarchy[parentBorder].children.push(entry.index);
+        borders.push(followBorder(labels, stride, index, from, border));
       }
+      
+      if (labels[index] !== 1) lastBorder = Math.abs(labels[index]);
     }
   }
   
-  return result;
+  return { borders, hierarchy };
 }
 
 /**
- * Check if a white pixel is the start of a hole
+ * Simplify contours using Douglas-Peucker algorithm
+ * Reduces point count while preserving shape fidelity
  */
-function isHoleStart(imageData: ImageData, x: number, y: number): boolean {
-  const { width, height, data } = imageData;
-  
-  // Check if surrounded by black pixels
-  const neighbors = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-  
-  let blackNeighbors = 0;
-  for (const [dx, dy] of neighbors) {
-    const nx = x + dx;
-    const ny = y + dy;
-    
-    if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-      const neighborIndex = (ny * width + nx) * 4;
-      if (data[neighborIndex] === 0) { // Black neighbor
-        blackNeighbors++;
-      }
-    }
-  }
-  
-  return blackNeighbors >= 6; // Mostly surrounded by black
+export function simplifyContours(contours: Contour[], epsilon: number): Contour[] {
+  return contours.map(contour => ({
+    ...contour,
+    points: simplifyPoints(contour.points, epsilon),
+    holes: contour.holes.map(hole => simplifyPoints(hole, epsilon)),
+  }));
 }
 
 /**
- * Find which contour contains a given point using ray casting
+ * Simplify open/closed polylines using Douglas-Peucker algorithm
+ * Endpoints are always kept so that lines still meet at junctions
  */
-function findContainingContour(contours: Contour[], point: Point): number {
-  for (let i = 0; i < contours.length; i++) {
-    if (pointInPolygon(point, contours[i].points)) {
-      return i;
-    }
-  }
-  return -1;
+export function simplifyPolylines(polylines: Polyline[], epsilon: number): Polyline[] {
+  return polylines.map(polyline => ({
+    ...polyline,
+    points: simplifyPoints(polyline.points, epsilon),
+  }));
 }
 
 /**
- * Point-in-polygon test using ray casting algorithm
+ * Follow one border from its start pixel, labeling it with `border`
+ * `from` is the background neighbor the border was entered from
  */
-function pointInPolygon(point: Point, polygon: Point[]): boolean {
-  const { x, y } = point;
-  let inside = false;
+function followBorder(labels: Int32Array, stride: number, start: number, from: number, border: number): Point[] {
+  const toPoint = (index: number) => ({ x: (index % stride) - 1, y: Math.floor(index / stride) - 1 });
+  const neighbor = (index: number, direction: number) => index + NEIGHBOR_DY[direction] * stride + NEIGHBOR_DX[direction];
+  const directionOf = (index: number, target: number) => {
+    for (let direction = 0; direction < 8; direction++) {
+      if (neighbor(index, direction) === target) return direction;
+    }
+    return 0;
+  };
   
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const xi = polygon[i].x;
-    const yi = polygon[i].y;
-    const xj = polygon[j].x;
-    const yj = polygon[j].y;
+  // Clockwise from the entry side for the first foreground neighbor; none means an isolated pixel
+  let first = -1;
+  const entry = directionOf(start, from);
+  for (let i = 0; i < 8 && first === -1; i++) {
+    const candidate = neighbor(start, (entry + i) % 8);
+    if (labels[candidate] !== 0) first = candidate;
+  }
+  if (first === -1) {
+    labels[start] = -border;
+    return [toPoint(start)];
+  }
+  
+  const points: Point[] = [];
+  let previous = first;
+  let current = start;
+  
+  while (true) {
+    // Counterclockwise from the previous pixel for the next border pixel
+    const back = directionOf(current, previous);
+    let next = previous;
+    let eastIsBackground = false;
+    for (let i = 1; i <= 8; i++) {
+      const direction = (back - i + 8) % 8;
+      const candidate = neighbor(current, direction);
+      if (labels[candidate] !== 0) {
+        next = candidate;
+        break;
+      }
+      if (direction === 0) eastIsBackground = true;
+    }
     
-    if (((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi)) {
-      inside = !inside;
+    // Pixels with background to their right are marked negative, so the scan does not start a hole border there
+    if (eastIsBackground) {
+      labels[current] = -border;
+    } else if (labels[current] === 1) {
+      labels[current] = border;
     }
+    points.push(toPoint(current));
+    
+    if (next === start && current === first) break;
+    previous = current;
+    current = next;
   }
   
-  return inside;
+  return points;
 }
 
 /**
@@ -0,0 +1,422 @@
+import type { Point, Polygon, Polyline, CurvePath, PathSegment } from '../../../../shared/types';
+
+/**
+ * Bezier curve fitting utilities
+ * Replaces pixel-staircase polylines with smooth cubic segments while keeping sharp corners
+ */
+
+export interface CurveFitOptions {
+  /** Maximum allowed distance between the curve and the traced points */
+  tolerance: number;
+  /** Turning angle (degrees) above which a vertex is treated as a corner */
+  cornerAngle: number;
+}
+
+/**
+ * Fit curves to every ring of every polygon
+ * The point rings are kept untouched for geometry operations; curves are attached alongside
+ */
+export function fitPolygonCurves(polygons: Polygon[], options: CurveFitOptions): Polygon[] {
+  return polygons.map(polygon => ({
+    ...polygon,
+    curves: {
+      exterior: polygon.curves?.exterior ?? fitCurvePath(polygon.exterior, true, options),
+      holes: polygon.holes.map((hole, i) => polygon.curves?.holes[i] ?? fitCurvePath(hole, true, options)),
+    },
+  }));
+}
+
+/**
+ * Fit curves to centerline polylines
+ */
+export function fitPolylineCurves(polylines: Polyline[], options: CurveFitOptions): Polyline[] {
+  return polylines.map(polyline => ({
+    ...polyline,
+    curve: polyline.curve ?? fitCurvePath(polyline.points, polyline.closed, options),
+  }));
+}
+
+/**
+ * Fit a sequence of points with line and cubic Bezier segments
+ * Closed rings may repeat the first point at the end; the returned path ends at its start
+ */
+export function fitCurvePath(points: Point[], closed: boolean, options: CurveFitOptions): CurvePath | null {
+  const ring = closed ? stripClosingPoint(points) : points;
+  if (ring.length < 2 || (closed && ring.length < 3)) {
+    return null;
+  }
+
+  const corners = detectCorners(ring, closed, options.cornerAngle, options.tolerance * 2);
+  const segments: PathSegment[] = [];
+
+  if (!closed) {
+    // Open lines always break at their endpoints
+    const breaks = [0, ...corners.filter(i => i > 0 && i < ring.length - 1), ring.length - 1];
+    for (let i = 0; i < breaks.length - 1; i++) {
+      fitRun(ring.slice(breaks[i], breaks[i + 1] + 1), null, null, options.tolerance, segments);
+    }
+    return { start: ring[0], segments };
+  }
+
+  if (corners.length === 0) {
+    // Smooth closed ring: start anywhere and keep the tangent continuous across the seam
+    const run = [...ring, ring[0]];
+    const tangent = normalize(subtract(ring[1], ring[ring.length - 1]));
+    fitRun(run, tangent, scale(tangent, -1), options.tolerance, segments);
+    return { start: ring[0], segments };
+  }
+
+  // Rotate the ring so that it starts on a corner, then fit corner-to-corner runs
+  const offset = corners[0];
+  const rotated = [...ring.slice(offset), ...ring.slice(0, offset), ring[offset]];
+  const breaks = [...corners.map(i => (i - offset + ring.length) % ring.length), ring.length].sort((a, b) => a - b);
+
+  for (let i = 0; i < breaks.length - 1; i++) {
+    fitRun(rotated.slice(breaks[i], breaks[i + 1] + 1), null, null, options.tolerance, segments);
+  }
+
+  return { start: rotated[0], segments };
+}
+
+/**
+ * Find vertices where the outline turns sharply
+ * The turning angle is measured between neighbors at least `radius` away so that
+ * pixel jitter does not register as corners; only the sharpest vertex of a cluster is kept
+ */
+export function detectCorners(points: Point[], closed: boolean, cornerAngle: number, radius: number = 2): number[] {
+  const n = points.length;
+  if (n < 3) return [];
+
+  const threshold = (cornerAngle * Math.PI) / 180;
+  const angles = new Array<number>(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    if (!closed && (i === 0 || i === n - 1)) continue;
+
+    const previous = findNeighborAtDistance(points, i, -1, radius, closed);
+    const next = findNeighborAtDistance(points, i, 1, radius, closed);
+    if (previous === null || next === null) continue;
+
+    angles[i] = turningAngle(points[previous], points[i], points[next]);
+  }
+
+  const corners: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (angles[i] < threshold) continue;
+
+    // Non-maximum suppression within the measuring radius
+    let isMaximum = true;
+    for (const direction of [-1, 1]) {
+      let distance = 0;
+      let j = i;
+      for (let step = 1; step < n; step++) {
+        const k = closed ? (i + direction * step + n) % n : i + direction * step;
+        if (k < 0 || k >= n) break;
+        distance += Math.hypot(points[k].x - points[j].x, points[k].y - points[j].y);
+        if (distance > radius) break;
+        if (angles[k] > angles[i] || (angles[k] === angles[i] && k < i)) {
+          isMaximum = false;
+          break;
+        }
+        j = k;
+      }
+      if (!isMaximum) break;
+    }
+
+    if (isMaximum) corners.push(i);
+  }
+
+  return corners;
+}
+
+/**
+ * Count cubic segments across polygons and polylines (for metrics)
+ */
+export function countCurveSegments(polygons: Polygon[], polylines: Polyline[] = []): number {
+  const countPath = (path: CurvePath | null | undefined) =>
+    path ? path.segments.filter(segment => segment.type === 'cubic').length : 0;
+
+  return polygons.reduce((total, polygon) => {
+    if (!polygon.curves) return total;
+    return total + countPath(polygon.curves.exterior) +
+      polygon.curves.holes.reduce((holeTotal, hole) => holeTotal + countPath(hole), 0);
+  }, 0) + polylines.reduce((total, polyline) => total + countPath(polyline.curve), 0);
+}
+
+/**
+ * Evaluate a cubic Bezier at parameter t
+ */
+export function evaluateCubic(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y,
+  };
+}
+
+// Helper functions
+
+/**
+ * Fit a corner-free run of points, emitting a line when the run is straight
+ */
+function fitRun(
+  run: Point[],
+  startTangent: Point | null,
+  endTangent: Point | null,
+  tolerance: number,
+  segments: PathSegment[]
+): void {
+  const first = run[0];
+  const last = run[run.length - 1];
+
+  if (run.length === 2 || (startTangent === null && maxDistanceToChord(run) <= tolerance * 0.5)) {
+    segments.push({ type: 'line', to: last });
+    return;
+  }
+
+  const tHat1 = startTangent ?? normalize(subtract(run[1], first));
+  const tHat2 = endTangent ?? normalize(subtract(run[run.length - 2], last));
+
+  fitCubic(run, 0, run.length - 1, tHat1, tHat2, tolerance * tolerance, segments);
+}
+
+/**
+ * Schneider's recursive least-squares cubic fitting
+ * ("An Algorithm for Automatically Fitting Digitized Curves", Graphics Gems, 1990)
+ */
+function fitCubic(
+  points: Point[],
+  first: number,
+  last: number,
+  tHat1: Point,
+  tHat2: Point,
+  errorSquared: number,
+  segments: PathSegment[]
+): void {
+  const p0 = points[first];
+  const p3 = points[last];
+
+  // Two points: use the heuristic of placing controls a third of the way along the tangents
+  if (last - first === 1) {
+    const distance = Math.hypot(p3.x - p0.x, p3.y - p0.y) / 3;
+    segments.push({
+      type: 'cubic',
+      control1: add(p0, scale(tHat1, distance)),
+      control2: add(p3, scale(tHat2, distance)),
+      to: p3,
+    });
+    return;
+  }
+
+  let u = chordLengthParameterize(points, first, last);
+  let bezier = generateBezier(points, first, last, u, tHat1, tHat2);
+  let { maxError, splitPoint } = computeMaxError(points, first, last, bezier, u);
+
+  if (maxError < errorSquared) {
+    segments.push({ type: 'cubic', control1: bezier[1], control2: bezier[2], to: p3 });
+    return;
+  }
+
+  // Close enough: try improving the parameterization before splitting
+  if (maxError < errorSquared * 4) {
+    for (let iteration = 0; iteration < 4; iteration++) {
+      u = reparameterize(points, first, last, u, bezier);
+      bezier = generateBezier(points, first, last, u, tHat1, tHat2);
+      ({ maxError, splitPoint } = computeMaxError(points, first, last, bezier, u));
+
+      if (maxError < errorSquared) {
+        segments.push({ type: 'cubic', control1: bezier[1], control2: bezier[2], to: p3 });
+        return;
+      }
+    }
+  }
+
+  // Split at the point of maximum error and fit each half
+  const tHatCenter = computeCenterTangent(points, splitPoint);
+  fitCubic(points, first, splitPoint, tHat1, tHatCenter, errorSquared, segments);
+  fitCubic(points, splitPoint, last, scale(tHatCenter, -1), tHat2, errorSquared, segments);
+}
+
+function generateBezier(points: Point[], first: number, last: number, u: number[], tHat1: Point, tHat2: Point): Point[] {
+  const p0 = points[first];
+  const p3 = points[last];
+
+  let c00 = 0, c01 = 0, c11 = 0;
+  let x0 = 0, x1 = 0;
+
+  for (let i = 0; i < u.length; i++) {
+    const t = u[i];
+    const mt = 1 - t;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * mt * mt * t;
+    const b2 = 3 * mt * t * t;
+    const b3 = t * t * t;
+
+    const a0 = scale(tHat1, b1);
+    const a1 = scale(tHat2, b2);
+
+    c00 += dot(a0, a0);
+    c01 += dot(a0, a1);
+    c11 += dot(a1, a1);
+
+    const tmp = subtract(points[first + i], add(scale(p0, b0 + b1), scale(p3, b2 + b3)));
+    x0 += dot(a0, tmp);
+    x1 += dot(a1, tmp);
+  }
+
+  const det = c00 * c11 - c01 * c01;
+  let alphaL = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alphaR = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+
+  // Degenerate solutions fall back to the Wu/Barsky heuristic
+  const segmentLength = Math.hypot(p3.x - p0.x, p3.y - p0.y);
+  const epsilon = 1e-6 * segmentLength;
+  if (alphaL < epsilon || alphaR < epsilon) {
+    alphaL = alphaR = segmentLength / 3;
+  }
+
+  return [p0, add(p0, scale(tHat1, alphaL)), add(p3, scale(tHat2, alphaR)), p3];
+}
+
+function computeMaxError(
+  points: Point[],
+  first: number,
+  last: number,
+  bezier: Point[],
+  u: number[]
+): { maxError: number; splitPoint: number } {
+  let maxError = 0;
+  let splitPoint = Math.floor((last - first + 1) / 2) + first;
+
+  for (let i = first + 1; i < last; i++) {
+    const point = evaluateCubic(bezier[0], bezier[1], bezier[2], bezier[3], u[i - first]);
+    const dx = point.x - points[i].x;
+    const dy = point.y - points[i].y;
+    const distance = dx * dx + dy * dy;
+
+    if (distance >= maxError) {
+      maxError = distance;
+      splitPoint = i;
+    }
+  }
+
+  return { maxError, splitPoint };
+}
+
+/**
+ * Newton-Raphson step towards the closest curve parameter for every point
+ */
+function reparameterize(points: Point[], first: number, last: number, u: number[], bezier: Point[]): number[] {
+  return u.map((t, i) => {
+    const point = points[first + i];
+    const q = evaluateCubic(bezier[0], bezier[1], bezier[2], bezier[3], t);
+
+    // First and second derivative control points
+    const q1 = [0, 1, 2].map(k => scale(subtract(bezier[k + 1], bezier[k]), 3));
+    const q2 = [0, 1].map(k => scale(subtract(q1[k + 1], q1[k]), 2));
+
+    const mt = 1 - t;
+    const d1 = add(add(scale(q1[0], mt * mt), scale(q1[1], 2 * mt * t)), scale(q1[2], t * t));
+    const d2 = add(scale(q2[0], mt), scale(q2[1], t));
+
+    const diff = subtract(q, point);
+    const numerator = dot(diff, d1);
+    const denominator = dot(d1, d1) + dot(diff, d2);
+
+    if (denominator === 0) return t;
+    return Math.min(1, Math.max(0, t - numerator / denominator));
+  });
+}
+
+function chordLengthParameterize(points: Point[], first: number, last: number): number[] {
+  const u = [0];
+  for (let i = first + 1; i <= last; i++) {
+    u.push(u[u.length - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+
+  const total = u[u.length - 1];
+  return u.map(value => (total > 0 ? value / total : 0));
+}
+
+function computeCenterTangent(points: Point[], center: number): Point {
+  const v1 = subtract(points[center - 1], points[center]);
+  const v2 = subtract(points[center], points[center + 1]);
+  const tangent = normalize(add(v1, v2));
+
+  // Cusp: fall back to the incoming direction
+  return tangent.x === 0 && tangent.y === 0 ? normalize(v1) : tangent;
+}
+
+function maxDistanceToChord(points: Point[]): number {
+  const a = points[0];
+  const b = points[points.length - 1];
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  let maxDistance = 0;
+
+  for (const point of points) {
+    const distance = length === 0
+      ? Math.hypot(point.x - a.x, point.y - a.y)
+      : Math.abs((b.x - a.x) * (a.y - point.y) - (a.x - point.x) * (b.y - a.y)) / length;
+    maxDistance = Math.max(maxDistance, distance);
+  }
+
+  return maxDistance;
+}
+
+function findNeighborAtDistance(points: Point[], index: number, direction: number, radius: number, closed: boolean): number | null {
+  const n = points.length;
+  let distance = 0;
+  let current = index;
+
+  for (let step = 1; step < n; step++) {
+    const next = closed ? (index + direction * step + n) % n : index + direction * step;
+    if (next < 0 || next >= n) return step > 1 ? current : null;
+
+    distance += Math.hypot(points[next].x - points[current].x, points[next].y - points[current].y);
+    current = next;
+    if (distance >= radius) break;
+  }
+
+  return current === index ? null : current;
+}
+
+function turningAngle(previous: Point, current: Point, next: Point): number {
+  const a = normalize(subtract(current, previous));
+  const b = normalize(subtract(next, current));
+  return Math.acos(Math.max(-1, Math.min(1, dot(a, b))));
+}
+
+function stripClosingPoint(points: Point[]): Point[] {
+  if (points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.abs(first.x - last.x) < 0.001 && Math.abs(first.y - last.y) < 0.001) {
+    return points.slice(0, -1);
+  }
+  return points;
+}
+
+function add(a: Point, b: Point): Point {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function subtract(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(a: Point, factor: number): Point {
+  return { x: a.x * factor, y: a.y * factor };
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function normalize(a: Point): Point {
+  const length = Math.hypot(a.x, a.y);
+  return length === 0 ? { x: 0, y: 0 } : { x: a.x / length, y: a.y / length };
+}
@@ -1,25 +1,65 @@
-import type { Polygon, Point } from '../../../../shared/types';
+import { evaluateCubic } from './curves';
+import { asCircle, asArc } from './primitives';
+import { colorLayerName } from './color';
+import { createCADTransform, transformExtents, transformPolygons, transformPolylines, transformColorLayers } from './transform';
+import type { DrawingScale } from './units';
+import type { Polygon, Polyline, Point, CurvePath, ArcSegment, ColorLayer, DrawingOrigin } from '../../../../shared/types';
+
+// Maximum deviation when approximating Bezier curves with polyline arcs (drawing units)
+const ARC_TOLERANCE = 0.05;
+
+// $INSUNITS codes: 0 = unitless, 1 = inches, 4 = millimeters
+const INSUNITS: Record<DrawingScale['units'], string> = {
+  px: '0',
+  in: '1',
+  mm: '4',
+};
+
+export interface DXFExportOptions {
+  /** Open/closed centerlines, written as LWPOLYLINE on the detail layer */
+  polylines?: Polyline[];
+  /** Color mode layers, each written to its own DXF layer with a true-color solid HATCH */
+  colorLayers?: ColorLayer[];
+  /** Real-world units; coordinates are scaled and $INSUNITS is set to match (default: unitless pixels) */
+  scale?: DrawingScale;
+  /** Image point that becomes 0,0; the y axis is flipped to point up (default: bottom-left) */
+  origin?: DrawingOrigin;
+  /** Origin in image pixels for the 'point' origin */
+  originPoint?: Point;
+}
 
 /**
  * Generate DXF output with closed LWPOLYLINE entities
+ * Detected circles and arcs are written as native CIRCLE/ARC entities
+ * Coordinates are y-up relative to the chosen origin, so drawings import the right way round
  * Ensures CAD-compatible format with proper layer structure
  */
 export function generateDXF(
   polygons: Polygon[],
   width: number,
   height: number,
-  whiteFill: boolean = false
+  whiteFill: boolean = false,
+  options: DXFExportOptions = {}
 ): string {
+  const scale: DrawingScale = options.scale || { units: 'px', unitsPerPixel: 1 };
+  const transform = createCADTransform(width, height, scale.unitsPerPixel, options.origin, options.originPoint);
+  const colorLayers = transformColorLayers(options.colorLayers || [], transform);
   const dxfContent: string[] = [];
   
   // DXF Header
-  dxfContent.push(...generateDXFHeader());
+  dxfContent.push(...generateDXFHeader(transformExtents(width, height, transform), scale));
   
   // DXF Tables (layers, etc.)
-  dxfContent.push(...generateDXFTables());
+  dxfContent.push(...generateDXFTables(colorLayers));
   
-  // DXF Entities
-  dxfContent.push(...generateDXFEntities(polygons, whiteFill));
+  // DXF Entities (appended line by line: large drawings have more lines than push() takes arguments)
+  const entities = generateDXFEntities(
+    transformPolygons(polygons, transform),
+    whiteFill,
+    transformPolylines(options.polylines || [], transform),
+    colorLayers
+  );
+  for (const line of entities) dxfContent.push(line);
   
   // DXF Footer
   dxfContent.push(...generateDXFFooter());
@@ -29,8 +69,9 @@ export function generateDXF(
 
 /**
  * Generate DXF header section
+ * $INSUNITS tells CAD applications how to scale the drawing on import; extents cover the whole image
  */
-function generateDXFHeader(): string[] {
+function generateDXFHeader(extents: { min: Point; max: Point }, scale: DrawingScale): string[] {
   return [
     '0',
     'SECTION',
@@ -45,9 +86,29 @@ function generateDXFHeader(): string[] {
     '5',
     'FFFF',
     '9',
+    '$INSUNITS',
+    '70',
+    INSUNITS[scale.units],
+    '9',
     '$MEASUREMENT',
     '70',
-    '1', // Metric units
+    scale.units === 'in' ? '0' : '1', // Imperial or metric units
+    '9',
+    '$EXTMIN',
+    '10',
+    formatDXFCoordinate(extents.min.x),
+    '20',
+    formatDXFCoordinate(extents.min.y),
+    '30',
+    '0.0',
+    '9',
+    '$EXTMAX',
+    '10',
+    formatDXFCoordinate(extents.max.x),
+    '20',
+    formatDXFCoordinate(extents.max.y),
+    '30',
+    '0.0',
     '0',
     'ENDSEC'
   ];
@@ -56,7 +117,7 @@ function generateDXFHeader(): string[] {
 /**
  * Generate DXF tables section with layers
  */
-function generateDXFTables(): string[] {
+function generateDXFTables(colorLayers: ColorLayer[]): string[] {
   return [
     '0',
     'SECTION',
@@ -75,7 +136,7 @@ function generateDXFTables(): string[] {
     '100',
     'AcDbSymbolTable',
     '70',
-    '2', // Number of layers
+    (2 + colorLayers.length).toString(), // Number of layers
     
     // VW_CLASS_Detail layer
     '0',
@@ -121,6 +182,9 @@ function generateDXFTables(): string[] {
     '370',
     '0', // Default line weight
     
+    // One layer per quantized color (color mode)
+    ...colorLayers.flatMap((layer, i) => generateColorLayerRecord(layer.color, colorLayerName(i), (0x12 + i).toString(16).toUpperCase())),
+    
     '0',
     'ENDTAB',
     '0',
@@ -128,10 +192,45 @@ function generateDXFTables(): string[] {
   ];
 }
 
+/**
+ * Generate a layer table record carrying a true color (group 420)
+ */
+function generateColorLayerRecord(color: string, name: string, handle: string): string[] {
+  return [
+    '0',
+    'LAYER',
+    '5',
+    handle,
+    '330',
+    '2',
+    '100',
+    'AcDbSymbolTableRecord',
+    '100',
+    'AcDbLayerTableRecord',
+    '2',
+    name,
+    '70',
+    '0',
+    '62',
+    '7', // Fallback color for readers without true color
+    '420',
+    toTrueColor(color).toString(), // True color 0xRRGGBB
+    '6',
+    'CONTINUOUS',
+    '370',
+    '0' // Default line weight
+  ];
+}
+
 /**
  * Generate DXF entities section
  */
-function generateDXFEntities(polygons: Polygon[], whiteFill: boolean): string[] {
+function generateDXFEntities(
+  polygons: Polygon[],
+  whiteFill: boolean,
+  polylines: Polyline[],
+  colorLayers: ColorLayer[]
+): string[] {
   const entities: string[] = [
     '0',
     'SECTION',
@@ -141,25 +240,27 @@ function generateDXFEntities(polygons: Polygon[], whiteFill: boolean): string[]
   
   let handleCounter = 100;
   
-  // Generate LWPOLYLINE entities for contours
+  // Generate LWPOLYLINE (or CIRCLE) entities for contours
   for (const polygon of polygons) {
     // Exterior contour
-    const exteriorEntity = generateLWPolyline(
+    const exteriorEntity = generateRingEntity(
       polygon.exterior,
       'VW_CLASS_Detail',
-      (handleCounter++).toString(16).toUpperCase()
+      (handleCounter++).toString(16).toUpperCase(),
+      polygon.curves?.exterior
     );
     entities.push(...exteriorEntity);
     
     // Hole contours
-    for (const hole of polygon.holes) {
-      const holeEntity = generateLWPolyline(
+    polygon.holes.forEach((hole, i) => {
+      const holeEntity = generateRingEntity(
         hole,
         'VW_CLASS_Detail',
-        (handleCounter++).toString(16).toUpperCase()
+        (handleCounter++).toString(16).toUpperCase(),
+        polygon.curves?.holes[i]
       );
       entities.push(...holeEntity);
-    }
+    });
     
     // Generate HATCH entity for fill if enabled
     if (whiteFill) {
@@ -172,15 +273,127 @@ function generateDXFEntities(polygons: Polygon[], whiteFill: boolean): string[]
     }
   }
   
+  // Generate outlines and solid fills per color layer
+  colorLayers.forEach((colorLayer, i) => {
+    const layer = colorLayerName(i);
+    const trueColor = toTrueColor(colorLayer.color);
+    
+    for (const polygon of colorLayer.polygons) {
+      entities.push(...generateRingEntity(polygon.exterior, layer, (handleCounter++).toString(16).toUpperCase(), polygon.curves?.exterior));
+      polygon.holes.forEach((hole, j) => {
+        entities.push(...generateRingEntity(hole, layer, (handleCounter++).toString(16).toUpperCase(), polygon.curves?.holes[j]));
+      });
+      entities.push(...generateHatchEntity(polygon, layer, (handleCounter++).toString(16).toUpperCase(), trueColor));
+    }
+  });
+  
+  // Generate open LWPOLYLINE entities for centerlines, ARC when the whole line is one arc
+  for (const polyline of polylines) {
+    const handle = (handleCounter++).toString(16).toUpperCase();
+    const arc = polyline.closed ? null : asArc(polyline.curve);
+    const lineEntity = arc
+      ? generateArcEntity(polyline.curve!.start, arc, 'VW_CLASS_Detail', handle)
+      : polyline.closed
+        ? generateRingEntity(polyline.points, 'VW_CLASS_Detail', handle, polyline.curve)
+        : generateLWPolyline(polyline.points, 'VW_CLASS_Detail', handle, false, polyline.curve);
+    entities.push(...lineEntity);
+  }
+  
   entities.push('0', 'ENDSEC');
   return entities;
 }
 
 /**
- * Generate LWPOLYLINE entity (closed polyline)
+ * Generate a closed ring as CIRCLE when it was detected as one, LWPOLYLINE otherwise
  */
-function generateLWPolyline(points: Point[], layer: string, handle: string): string[] {
-  if (points.length < 3) return [];
+function generateRingEntity(points: Point[], layer: string, handle: string, curve?: CurvePath | null): string[] {
+  const circle = asCircle(curve);
+  return circle
+    ? generateCircleEntity(circle, layer, handle)
+    : generateLWPolyline(points, layer, handle, true, curve);
+}
+
+/**
+ * Generate CIRCLE entity
+ */
+function generateCircleEntity(circle: ArcSegment, layer: string, handle: string): string[] {
+  return [
+    '0',
+    'CIRCLE',
+    '5',
+    handle,
+    '330',
+    '1F',
+    '100',
+    'AcDbEntity',
+    '8',
+    layer, // Layer name
+    '100',
+    'AcDbCircle',
+    '10',
+    formatDXFCoordinate(circle.center.x), // Center X
+    '20',
+    formatDXFCoordinate(circle.center.y), // Center Y
+    '30',
+    '0.0', // Center Z
+    '40',
+    formatDXFCoordinate(circle.radius) // Radius
+  ];
+}
+
+/**
+ * Generate ARC entity
+ * DXF arcs always run counter-clockwise, so clockwise sweeps swap their end angles
+ */
+function generateArcEntity(start: Point, arc: ArcSegment, layer: string, handle: string): string[] {
+  const startAngle = Math.atan2(start.y - arc.center.y, start.x - arc.center.x);
+  const endAngle = startAngle + arc.sweep;
+  const [from, to] = arc.sweep >= 0 ? [startAngle, endAngle] : [endAngle, startAngle];
+  
+  return [
+    '0',
+    'ARC',
+    '5',
+    handle,
+    '330',
+    '1F',
+    '100',
+    'AcDbEntity',
+    '8',
+    layer, // Layer name
+    '100',
+    'AcDbCircle',
+    '10',
+    formatDXFCoordinate(arc.center.x), // Center X
+    '20',
+    formatDXFCoordinate(arc.center.y), // Center Y
+    '30',
+    '0.0', // Center Z
+    '40',
+    formatDXFCoordinate(arc.radius), // Radius
+    '100',
+    'AcDbArc',
+    '50',
+    formatDXFCoordinate(toDegrees(from)), // Start angle
+    '51',
+    formatDXFCoordinate(toDegrees(to)) // End angle
+  ];
+}
+
+/**
+ * Generate LWPOLYLINE entity (closed by default, open for centerlines)
+ * Fitted curves are written as bulged arc segments so the entity stays a polyline
+ */
+function generateLWPolyline(
+  points: Point[],
+  layer: string,
+  handle: string,
+  closed: boolean = true,
+  curve?: CurvePath | null
+): string[] {
+  if (points.length < (closed ? 3 : 2)) return [];
+  
+  const vertices = curve ? curveToBulgeVertices(curve, closed) : { points, bulges: null };
   
   const entity: string[] = [
     '0',
@@ -196,28 +409,33 @@ function generateLWPolyline(points: Point[], layer: string, handle: string): str
     '100',
     'AcDbPolyline',
     '90',
-    points.length.toString(), // Number of vertices
+    vertices.points.length.toString(), // Number of vertices
     '70',
-    '1' // Closed polyline flag
+    closed ? '1' : '0' // Closed polyline flag
   ];
   
   // Add vertex coordinates
-  for (const point of points) {
+  vertices.points.forEach((point, i) => {
     entity.push(
       '10',
       formatDXFCoordinate(point.x), // X coordinate
       '20',
       formatDXFCoordinate(point.y)  // Y coordinate
     );
-  }
+    
+    if (vertices.bulges && vertices.bulges[i] !== 0) {
+      entity.push('42', formatDXFCoordinate(vertices.bulges[i])); // Bulge to next vertex
+    }
+  });
   
   return entity;
 }
 
 /**
  * Generate HATCH entity with even-odd fill rule
+ * White by default; color layers pass a true color (0xRRGGBB)
  */
-function generateHatchEntity(polygon: Polygon, layer: string, handle: string): string[] {
+function generateHatchEntity(polygon: Polygon, layer: string, handle: string, trueColor?: number): string[] {
   const entity: string[] = [
     '0',
     'HATCH',
@@ -231,6 +449,7 @@ function generateHatchEntity(polygon: Polygon, layer: string, handle: string): s
     layer, // Layer name
     '62',
     '7', // White color
+    ...(trueColor !== undefined ? ['420', trueColor.toString()] : []), // True color overrides group 62
     '100',
     'AcDbHatch',
     '10',
@@ -256,12 +475,12 @@ function generateHatchEntity(polygon: Polygon, layer: string, handle: string): s
   ];
   
   // Exterior boundary path
-  entity.push(...generateBoundaryPath(polygon.exterior, 2)); // Exterior path flag
+  entity.push(...generateBoundaryPath(polygon.exterior, 2, polygon.curves?.exterior)); // Exterior path flag
   
   // Hole boundary paths
-  for (const hole of polygon.holes) {
-    entity.push(...generateBoundaryPath(hole, 16)); // Internal path flag
-  }
+  polygon.holes.forEach((hole, i) => {
+    entity.push(...generateBoundaryPath(hole, 16, polygon.curves?.holes[i])); // Internal path flag
+  });
   
   // Hatch style
   entity.push(
@@ -283,9 +502,11 @@ function generateHatchEntity(polygon: Polygon, layer: string, handle: string): s
 /**
  * Generate boundary path for HATCH entity
  */
-function generateBoundaryPath(points: Point[], pathFlag: number): string[] {
+function generateBoundaryPath(points: Point[], pathFlag: number, curve?: CurvePath | null): string[] {
   if (points.length < 3) return [];
   
+  const vertices = curve ? curveToBulgeVertices(curve, true) : { points, bulges: null };
+  
   const path: string[] = [
     '92',
     pathFlag.toString(), // Boundary path type flag
@@ -294,18 +515,22 @@ function generateBoundaryPath(points: Point[], pathFlag: number): string[] {
     '72',
     '1', // Edge type (line)
     '94',
-    points.length.toString() // Number of vertices
+    vertices.points.length.toString() // Number of vertices
   ];
   
   // Add vertex coordinates
-  for (const point of points) {
+  vertices.points.forEach((point, i) => {
     path.push(
       '10',
       formatDXFCoordinate(point.x), // X coordinate
       '20',
       formatDXFCoordinate(point.y)  // Y coordinate
     );
-  }
+    
+    if (vertices.bulges && vertices.bulges[i] !== 0) {
+      path.push('42', formatDXFCoordinate(vertices.bulges[i])); // Bulge to next vertex
+    }
+  });
   
   path.push(
     '97',
@@ -315,6 +540,154 @@ function generateBoundaryPath(points: Point[], pathFlag: number): string[] {
   return path;
 }
 
+/**
+ * Convert a curve path to polyline vertices with bulge factors
+ * Each cubic is approximated by circular arcs within ARC_TOLERANCE; detected arcs map exactly
+ */
+function curveToBulgeVertices(curve: CurvePath, closed: boolean): { points: Point[]; bulges: number[] } {
+  const points: Point[] = [curve.start];
+  const bulges: number[] = [];
+  let current = curve.start;
+  
+  for (const segment of curve.segments) {
+    if (segment.type === 'cubic') {
+      for (const arc of approximateCubicWithArcs(current, segment.control1, segment.control2, segment.to, 0)) {
+        bulges.push(arc.bulge);
+        points.push(arc.to);
+      }
+    } else if (segment.type === 'arc') {
+      for (const arc of splitArc(current, segment)) {
+        bulges.push(arc.bulge);
+        points.push(arc.to);
+      }
+    } else {
+      bulges.push(0);
+      points.push(segment.to);
+    }
+    current = segment.to;
+  }
+  
+  if (closed) {
+    // The closing vertex coincides with the start; the closed flag draws that segment
+    points.pop();
+  } else {
+    bulges.push(0);
+  }
+  
+  return { points, bulges };
+}
+
+/**
+ * Split an arc into pieces of at most a half circle, the largest sweep a single bulge can express cleanly
+ */
+function splitArc(start: Point, arc: ArcSegment): { to: Point; bulge: number }[] {
+  const pieces = Math.max(1, Math.ceil(Math.abs(arc.sweep) / Math.PI - 1e-9));
+  const startAngle = Math.atan2(start.y - arc.center.y, start.x - arc.center.x);
+  const step = arc.sweep / pieces;
+  const result: { to: Point; bulge: number }[] = [];
+  
+  for (let i = 1; i <= pieces; i++) {
+    const angle = startAngle + step * i;
+    const to = i === pieces
+      ? arc.to
+      : { x: arc.center.x + arc.radius * Math.cos(angle), y: arc.center.y + arc.radius * Math.sin(angle) };
+    result.push({ to, bulge: Math.tan(step / 4) });
+  }
+  
+  return result;
+}
+
+/**
+ * Approximate a cubic Bezier with arcs through its end and mid points, subdividing until within tolerance
+ */
+function approximateCubicWithArcs(
+  p0: Point,
+  p1: Point,
+  p2: Point,
+  p3: Point,
+  depth: number
+): { to: Point; bulge: number }[] {
+  const mid = evaluateCubic(p0, p1, p2, p3, 0.5);
+  const arc = arcThroughPoints(p0, mid, p3);
+  
+  const withinTolerance = [0.25, 0.75].every(t => {
+    const sample = evaluateCubic(p0, p1, p2, p3, t);
+    return arc.center
+      ? Math.abs(Math.hypot(sample.x - arc.center.x, sample.y - arc.center.y) - arc.radius) <= ARC_TOLERANCE
+      : distanceToSegment(sample, p0, p3) <= ARC_TOLERANCE;
+  });
+  
+  if (withinTolerance || depth >= 8) {
+    return [{ to: p3, bulge: arc.bulge }];
+  }
+  
+  // Split with de Casteljau at t = 0.5
+  const p01 = midpoint(p0, p1);
+  const p12 = midpoint(p1, p2);
+  const p23 = midpoint(p2, p3);
+  const p012 = midpoint(p01, p12);
+  const p123 = midpoint(p12, p23);
+  
+  return [
+    ...approximateCubicWithArcs(p0, p01, p012, mid, depth + 1),
+    ...approximateCubicWithArcs(mid, p123, p23, p3, depth + 1),
+  ];
+}
+
+/**
+ * Circular arc from start to end passing through a middle point
+ * Bulge is tan(sweep / 4), positive for counter-clockwise arcs
+ */
+function arcThroughPoints(start: Point, middle: Point, end: Point): { center: Point | null; radius: number; bulge: number } {
+  const ax = start.x - middle.x;
+  const ay = start.y - middle.y;
+  const bx = end.x - middle.x;
+  const by = end.y - middle.y;
+  const cross = (middle.x - start.x) * (end.y - middle.y) - (middle.y - start.y) * (end.x - middle.x);
+  const chord = Math.hypot(end.x - start.x, end.y - start.y);
+  
+  if (Math.abs(cross) < 1e-9 * Math.max(1, chord * chord)) {
+    return { center: null, radius: Infinity, bulge: 0 };
+  }
+  
+  // Inscribed angle at the middle point determines the sweep
+  const angleAtMiddle = Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by)))));
+  const bulge = Math.tan((Math.PI - angleAtMiddle) / 2) * Math.sign(cross);
+  
+  // Circumcenter
+  const d = 2 * (start.x * (middle.y - end.y) + middle.x * (end.y - start.y) + end.x * (start.y - middle.y));
+  const s2 = start.x * start.x + start.y * start.y;
+  const m2 = middle.x * middle.x + middle.y * middle.y;
+  const e2 = end.x * end.x + end.y * end.y;
+  const center = {
+    x: (s2 * (middle.y - end.y) + m2 * (end.y - start.y) + e2 * (start.y - middle.y)) / d,
+    y: (s2 * (end.x - middle.x) + m2 * (start.x - end.x) + e2 * (middle.x - start.x)) / d,
+  };
+  
+  return { center, radius: Math.hypot(start.x - center.x, start.y - center.y), bulge };
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function toTrueColor(hex: string): number {
+  return parseInt(hex.slice(1), 16);
+}
+
+function toDegrees(radians: number): number {
+  const degrees = (radians * 180) / Math.PI;
+  return ((degrees % 360) + 360) % 360;
+}
+
 /**
  * Generate DXF footer section
  */
@@ -446,7 +819,7 @@ export function validateDXFOutput(dxfContent: string): {
   }
   
   // Check for closed polylines
-  const lwpolylineMatches = dxfContent.match(/LWPOLYLINE[\s\S]*?(?=0\s+(?:LWPOLYLINE|HATCH|ENDSEC))/g);
+  const lwpolylineMatches = dxfContent.match(/LWPOLYLINE[\s\S]*?(?=0\s+(?:LWPOLYLINE|HATCH|CIRCLE|ARC|ENDSEC))/g);
   if (lwpolylineMatches) {
     for (const match of lwpolylineMatches) {
       if (!match.includes('70\n1')) {
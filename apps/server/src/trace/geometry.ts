@@ -1,5 +1,6 @@
 import * as martinez from 'martinez-polygon-clipping';
-import type { Point, Polygon } from '../../../../shared/types';
+import type { Point, Polygon, GeometryRepairs, OffsetJoin } from '../../../../shared/types';
+import { nearbyCells, forEachCell } from './grid';
 
 
 /**
@@ -10,14 +11,18 @@ import type { Point, Polygon } from '../../../../shared/types';
 /**
  * Validate and clean up polygon geometry
  * Removes self-intersections, ensures proper winding, and validates topology
+ * A polygon whose repair splits it (a figure-8 outline) comes back as all of its parts, so the
+ * result may hold more polygons than the input; pass `repairs` to count what was changed
  */
-export function validateGeometry(polygons: Polygon[]): Polygon[] {
+export function validateGeometry(polygons: Polygon[], repairs?: GeometryRepairs): Polygon[] {
   const validPolygons: Polygon[] = [];
+  const counts: GeometryRepairs = { repaired: 0, split: 0, dropped: 0 };
   
   for (const polygon of polygons) {
     try {
       // Skip degenerate polygons
       if (polygon.exterior.length < 3) {
+        counts.dropped++;
         continue;
       }
       
@@ -31,6 +36,7 @@ export function validateGeometry(polygons: Polygon[]): Polygon[] {
       
       // Skip if exterior became too small
       if (cleanExterior.length < 3) {
+        counts.dropped++;
         continue;
       }
       
@@ -40,23 +46,40 @@ export function validateGeometry(polygons: Polygon[]): Polygon[] {
         .filter(hole => hole.length >= 3)
         .map(hole => ensureClockwise(hole));
       
-      // Fix self-intersections using polygon clipping
-      const fixedPolygon = fixSelfIntersections({
-        exterior: orientedExterior,
-        holes: orientedHoles,
-      });
+      // Fix self-intersections using polygon clipping; simple polygons are kept as they are
+      const orientedPolygon = { exterior: orientedExterior, holes: orientedHoles };
+      const parts = fixSelfIntersections(orientedPolygon);
       
-      if (fixedPolygon) {
-        validPolygons.push(fixedPolygon);
+      if (!parts) {
+        validPolygons.push(orientedPolygon);
+        continue;
+      }
+      
+      if (parts.length === 0) {
+        counts.dropped++;
+      } else {
+        counts[parts.length === 1 ? 'repaired' : 'split']++;
       }
       
+      // Clipping output has its own winding, restore ours
+      validPolygons.push(...parts.map(part => ({
+        exterior: ensureCounterClockwise(part.exterior),
+        holes: part.holes.map(hole => ensureClockwise(hole)),
+      })));
+      
     } catch (error) {
       console.warn('Failed to validate polygon:', error);
-      // Skip invalid polygon
+      counts.dropped++;
     }
   }
   
-  console.log(`Validated ${validPolygons.length}/${polygons.length} polygons`);
+  if (repairs) {
+    repairs.repaired += counts.repaired;
+    repairs.split += counts.split;
+    repairs.dropped += counts.dropped;
+  }
+  
+  console.log(`Validated ${validPolygons.length} polygons from ${polygons.length}: ${counts.repaired} repaired, ${counts.split} split, ${counts.dropped} dropped`);
   return validPolygons;
 }
 
@@ -75,6 +98,483 @@ export function cleanupGeometry(polygons: Polygon[], minArea: number): Polygon[]
     .filter(polygon => polygon.exterior.length >= 3);
 }
 
+/**
+ * Corner handling for offsetPolygons
+ */
+export interface OffsetOptions {
+  /** Corner shape where the offset outline turns around a convex vertex */
+  join: OffsetJoin;
+  /** Longest miter as a multiple of the distance; longer miters are cut off square (default: 2) */
+  miterLimit?: number;
+  /** Maximum deviation (px) of round joins from the true arc (default: 0.1) */
+  arcTolerance?: number;
+}
+
+/**
+ * Grow (positive distance) or shrink (negative distance) polygons by a distance in pixels:
+ * exteriors move outward and holes inward, so the filled area gains or loses a band of that width
+ * The band is built from a rectangle along every edge and a join at every corner, then added to
+ * or cut from the polygon. Parts thinner than twice a shrinking distance vanish, holes narrower
+ * than twice a growing distance close, and polygons that grow into each other are merged
+ */
+export function offsetPolygons(polygons: Polygon[], distance: number, options: OffsetOptions): Polygon[] {
+  if (distance === 0) return polygons;
+  
+  const joinOptions = {
+    join: options.join,
+    miterLimit: options.miterLimit ?? 2,
+    arcTolerance: options.arcTolerance ?? 0.1,
+  };
+  const openRing = (ring: Point[]) => removeDuplicatePoints(ensureClosedRing(ring).slice(0, -1));
+  
+  const parts: Polygon[] = [];
+  for (const polygon of polygons) {
+    const exterior = openRing(polygon.exterior);
+    if (exterior.length < 3) continue;
+    const holes = polygon.holes.map(openRing).filter(hole => hole.length >= 3);
+    
+    try {
+      const pieces = [exterior, ...holes].flatMap(ring => offsetBand(ring, Math.abs(distance), joinOptions));
+      const band = unionAll(pieces.map(piece => [[piece]]));
+      const shape = [toMartinez({ exterior, holes })];
+      parts.push(...fromMartinez(distance > 0 ? (martinez as any).union(shape, band) : (martinez as any).diff(shape, band)));
+    } catch (error) {
+      console.warn('Failed to offset polygon, keeping it unchanged:', error);
+      parts.push({ exterior, holes });
+    }
+  }
+  
+  // Growing can make polygons overlap
+  const result = (distance > 0 ? mergePolygons(parts) : parts).map(orientClippedPolygon);
+  
+  console.log(`Offset ${polygons.length} polygons by ${distance.toFixed(2)}px (${options.join} joins) into ${result.length}`);
+  return result;
+}
+
+/**
+ * Dissolve touching and overlapping polygons into merged shapes
+ * Polygons that share an edge or overlap are united, and regions they enclose become holes of the
+ * merged shape; polygons touching no other come back as they are
+ */
+export function dissolvePolygons(polygons: Polygon[]): Polygon[] {
+  const originals = new Set(polygons);
+  const result = mergePolygons(polygons).map(polygon => (originals.has(polygon) ? polygon : orientClippedPolygon(polygon)));
+  
+  console.log(`Dissolved ${polygons.length} polygons into ${result.length}`);
+  return result;
+}
+
+/**
+ * Union polygons that overlap into single polygons
+ * Polygons are grouped by overlapping bounds (grown by `tolerance`) first, so each union only
+ * sees polygons that may touch; polygons alone in their group are returned unchanged and merged
+ * ones with open rings
+ */
+export function mergePolygons(polygons: Polygon[], tolerance: number = 0): Polygon[] {
+  const boxes = polygons.map(polygon => ringBounds(polygon.exterior));
+  const order = polygons.map((_, index) => index).sort((a, b) => boxes[a].x0 - boxes[b].x0);
+  const parent = polygons.map((_, index) => index);
+  
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  
+  // Sweep along x: only polygons whose x ranges meet can touch
+  for (let i = 0; i < order.length; i++) {
+    const a = boxes[order[i]];
+    for (let j = i + 1; j < order.length && boxes[order[j]].x0 <= a.x1 + tolerance; j++) {
+      const b = boxes[order[j]];
+      if (b.y0 <= a.y1 + tolerance && b.y1 >= a.y0 - tolerance) {
+        parent[find(order[j])] = find(order[i]);
+      }
+    }
+  }
+  
+  const groups = new Map<number, Polygon[]>();
+  polygons.forEach((polygon, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(polygon);
+  });
+  
+  const merged: Polygon[] = [];
+  for (const group of groups.values()) {
+    if (group.length === 1) {
+      merged.push(group[0]);
+      continue;
+    }
+    
+    try {
+      merged.push(...fromMartinez(unionAll(group.map(polygon => [toMartinez(polygon)]))));
+    } catch (error) {
+      console.warn('Failed to merge polygons, keeping them apart:', error);
+      merged.push(...group);
+    }
+  }
+  
+  return merged;
+}
+
+/**
+ * Polygon as Martinez rings: closed [x, y] arrays, exterior first
+ */
+export function toMartinez(polygon: Polygon): number[][][] {
+  const close = (ring: number[][]) => ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+    ? [...ring, ring[0]]
+    : ring;
+  return [polygon.exterior, ...polygon.holes].map(ring => close(ring.map(point => [point.x, point.y])));
+}
+
+/**
+ * Martinez multipolygon back to polygons with open rings, like traced contours
+ */
+export function fromMartinez(multiPolygon: number[][][][] | null): Polygon[] {
+  const open = (ring: number[][]) => ring.slice(0, -1).map(([x, y]) => ({ x, y }));
+  return (multiPolygon || [])
+    .filter(rings => rings.length > 0 && rings[0].length > 3)
+    .map(([exterior, ...holes]) => ({ exterior: open(exterior), holes: holes.map(open) }));
+}
+
+/**
+ * Bounding box of a ring
+ */
+export function ringBounds(ring: Point[]): { x0: number; y0: number; x1: number; y1: number } {
+  const box = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+  for (const point of ring) {
+    box.x0 = Math.min(box.x0, point.x);
+    box.y0 = Math.min(box.y0, point.y);
+    box.x1 = Math.max(box.x1, point.x);
+    box.y1 = Math.max(box.y1, point.y);
+  }
+  return box;
+}
+
+/**
+ * Whether a point lies inside a ring, open or closed (even-odd ray casting)
+ */
+export function containsPoint(ring: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Snap near-horizontal, near-vertical and near-diagonal edges to exact angles
+ * Angles are measured relative to the dominant orientation of the drawing so rotated scans stay
+ * square; neighbouring edges are re-intersected so rings stay closed
+ */
+export function rectilinearize(polygons: Polygon[], toleranceDegrees: number = 3): Polygon[] {
+  const orientation = detectDominantOrientation(polygons);
+  if (orientation === null) {
+    return polygons;
+  }
+  
+  const tolerance = (toleranceDegrees * Math.PI) / 180;
+  const result = polygons.map(polygon => ({
+    ...polygon,
+    exterior: rectilinearizeRing(polygon.exterior, orientation, tolerance),
+    holes: polygon.holes.map(hole => rectilinearizeRing(hole, orientation, tolerance)),
+  }));
+  
+  console.log(`Rectilinearized ${polygons.length} polygons at ${((orientation * 180) / Math.PI).toFixed(2)}° orientation`);
+  return result;
+}
+
+/**
+ * Find the dominant drawing orientation in [0, 90) degrees, returned in radians
+ * Uses a length-weighted histogram of edge angles folded to a quarter turn
+ */
+export function detectDominantOrientation(polygons: Polygon[]): number | null {
+  const quarter = Math.PI / 2;
+  const bins = new Array<number>(90).fill(0);
+  const edges: { angle: number; length: number }[] = [];
+  
+  for (const polygon of polygons) {
+    for (const ring of [polygon.exterior, ...polygon.holes]) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const dx = ring[i + 1].x - ring[i].x;
+        const dy = ring[i + 1].y - ring[i].y;
+        const length = Math.hypot(dx, dy);
+        if (length === 0) continue;
+        
+        const angle = ((Math.atan2(dy, dx) % quarter) + quarter) % quarter;
+        edges.push({ angle, length });
+        bins[Math.floor((angle / quarter) * 90) % 90] += length;
+      }
+    }
+  }
+  
+  if (edges.length === 0) {
+    return null;
+  }
+  
+  // Smooth circularly so a peak split across two bins is still found
+  let peak = 0;
+  let peakWeight = -1;
+  for (let i = 0; i < 90; i++) {
+    let weight = 0;
+    for (let k = -2; k <= 2; k++) {
+      weight += bins[(i + k + 90) % 90];
+    }
+    if (weight > peakWeight) {
+      peakWeight = weight;
+      peak = i;
+    }
+  }
+  
+  // Refine with the weighted circular mean of edges near the peak (angles x4 wrap every quarter turn)
+  const peakAngle = ((peak + 0.5) / 90) * quarter;
+  let sumX = 0;
+  let sumY = 0;
+  for (const edge of edges) {
+    const difference = Math.abs(edge.angle - peakAngle);
+    if (Math.min(difference, quarter - difference) > (3 * quarter) / 90) continue;
+    sumX += edge.length * Math.cos(edge.angle * 4);
+    sumY += edge.length * Math.sin(edge.angle * 4);
+  }
+  
+  return ((Math.atan2(sumY, sumX) / 4) + quarter) % quarter;
+}
+
+/**
+ * Rectilinearize a single closed ring, falling back to the original if the result is invalid
+ */
+function rectilinearizeRing(points: Point[], orientation: number, tolerance: number): Point[] {
+  const closed = ensureClosedRing(points);
+  const ring = closed.slice(0, -1);
+  const n = ring.length;
+  if (n < 3) return points;
+  
+  // Describe every edge as a line; snapped edges rotate about their midpoint
+  const step = Math.PI / 4;
+  const lines = ring.map((a, i) => {
+    const b = ring[(i + 1) % n];
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    const k = Math.round((angle - orientation) / step);
+    const snapped = Math.abs(angle - orientation - k * step) <= tolerance;
+    const direction = snapped ? orientation + k * step : angle;
+    
+    return {
+      point: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      direction: { x: Math.cos(direction), y: Math.sin(direction) },
+      key: snapped ? ((k % 8) + 8) % 8 : null,
+      length: Math.hypot(b.x - a.x, b.y - a.y),
+      start: i,
+    };
+  });
+  
+  // Start on a direction change so merged runs never wrap the seam
+  const offset = lines.findIndex((line, i) => line.key === null || line.key !== lines[(i - 1 + n) % n].key);
+  if (offset === -1) return points;
+  
+  // Merge consecutive edges snapped to the same direction into one line at their average offset
+  const groups: typeof lines = [];
+  for (let i = 0; i < n; i++) {
+    const line = lines[(i + offset) % n];
+    const previous = groups[groups.length - 1];
+    
+    if (previous && line.key !== null && line.key === previous.key) {
+      const total = previous.length + line.length;
+      previous.point = {
+        x: (previous.point.x * previous.length + line.point.x * line.length) / total,
+        y: (previous.point.y * previous.length + line.point.y * line.length) / total,
+      };
+      previous.length = total;
+    } else {
+      groups.push({ ...line });
+    }
+  }
+  
+  if (groups.length < 3) return points;
+  
+  // Re-intersect neighbouring lines to find the new vertices
+  const vertices = groups.map((line, i) => {
+    const previous = groups[(i - 1 + groups.length) % groups.length];
+    const original = ring[line.start];
+    if (previous.key === null && line.key === null) {
+      return original;
+    }
+    
+    const corner = intersectLines(previous.point, previous.direction, line.point, line.direction);
+    
+    // Nearly parallel neighbours can shoot the corner far away; keep the traced vertex instead
+    const maxShift = Math.max(1, Math.min(previous.length, line.length));
+    if (!corner || Math.hypot(corner.x - original.x, corner.y - original.y) > maxShift) {
+      return original;
+    }
+    return corner;
+  });
+  
+  const result = removeDuplicatePoints(ensureClosedRing(vertices));
+  const originalArea = calculateSignedArea(closed);
+  const resultArea = calculateSignedArea(result);
+  
+  if (
+    result.length < 4 ||
+    Math.sign(resultArea) !== Math.sign(originalArea) ||
+    Math.abs(resultArea) < Math.abs(originalArea) * 0.5 ||
+    Math.abs(resultArea) > Math.abs(originalArea) * 2 ||
+    hasSelfIntersections([result])
+  ) {
+    return points;
+  }
+  
+  return result;
+}
+
+/**
+ * Intersect two lines given by a point and a direction, or null when parallel
+ */
+function intersectLines(p1: Point, d1: Point, p2: Point, d2: Point): Point | null {
+  const denominator = d1.x * d2.y - d1.y * d2.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+  
+  const t = ((p2.x - p1.x) * d2.y - (p2.y - p1.y) * d2.x) / denominator;
+  return { x: p1.x + d1.x * t, y: p1.y + d1.y * t };
+}
+
+/**
+ * Union of Martinez multipolygons in pairwise rounds, which keeps every union small instead of
+ * growing one result polygon by polygon
+ */
+function unionAll(multiPolygons: number[][][][][]): number[][][][] {
+  let layer = multiPolygons;
+  while (layer.length > 1) {
+    const next: number[][][][][] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? (martinez as any).union(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layer = next;
+  }
+  return layer[0] || [];
+}
+
+/**
+ * Band of the given width on both sides of an open ring, as convex Martinez rings: a rectangle
+ * along every edge and a join on the outer side of every corner, where the rectangles leave a gap
+ * Pieces never share an edge (Martinez fails on overlapping collinear edges): straight-through
+ * vertices are dropped so collinear edges get one rectangle, and each join reaches back across
+ * the corner instead of ending on the rectangle sides
+ */
+function offsetBand(ring: Point[], width: number, options: Required<OffsetOptions>): number[][][] {
+  const normalOf = (a: Point, b: Point) => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    return { x: (b.y - a.y) / length, y: (a.x - b.x) / length };
+  };
+  
+  const corners = removeStraightVertices(ring);
+  const count = corners.length;
+  if (count < 2) return [];
+  
+  const normals = corners.map((point, i) => normalOf(point, corners[(i + 1) % count]));
+  const close = (points: Point[]) => [...points, points[0]].map(point => [point.x, point.y]);
+  
+  const pieces: number[][][] = [];
+  for (let i = 0; i < count; i++) {
+    const vertex = corners[i];
+    const next = corners[(i + 1) % count];
+    const n1 = normals[(i + count - 1) % count];
+    const n2 = normals[i];
+    
+    pieces.push(close([
+      { x: vertex.x + n2.x * width, y: vertex.y + n2.y * width },
+      { x: next.x + n2.x * width, y: next.y + n2.y * width },
+      { x: next.x - n2.x * width, y: next.y - n2.y * width },
+      { x: vertex.x - n2.x * width, y: vertex.y - n2.y * width },
+    ]));
+    
+    // The gap opens on the right of a left turn and on the left of a right turn; spikes get a cap
+    const cross = n1.x * n2.y - n1.y * n2.x;
+    const side = Math.abs(cross) < 1e-9 ? 1 : Math.sign(cross);
+    const bisectorLength = Math.hypot(n1.x + n2.x, n1.y + n2.y);
+    const inward = bisectorLength > 1e-9
+      ? { x: (n1.x + n2.x) / bisectorLength, y: (n1.y + n2.y) / bisectorLength }
+      : { x: -n1.y, y: n1.x }; // Spike: reach back along the incoming edge
+    const apex = { x: vertex.x - inward.x * side * width / 2, y: vertex.y - inward.y * side * width / 2 };
+    pieces.push(close([apex, ...joinPoints(vertex, n1, n2, side * width, options)]));
+  }
+  
+  return pieces;
+}
+
+/**
+ * Clipping output as closed rings with our winding, without the vertices clipping leaves along
+ * straight runs where input edges met
+ */
+function orientClippedPolygon(polygon: Polygon): Polygon {
+  return {
+    exterior: ensureCounterClockwise(ensureClosedRing(removeStraightVertices(polygon.exterior))),
+    holes: polygon.holes.map(hole => ensureClockwise(ensureClosedRing(removeStraightVertices(hole)))),
+  };
+}
+
+/**
+ * Drop the vertices of an open ring where it runs straight through
+ */
+function removeStraightVertices(ring: Point[]): Point[] {
+  return ring.filter((vertex, i) => {
+    const previous = ring[(i + ring.length - 1) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const [ax, ay, bx, by] = [vertex.x - previous.x, vertex.y - previous.y, next.x - vertex.x, next.y - vertex.y];
+    const cross = (ax * by - ay * bx) / (Math.hypot(ax, ay) * Math.hypot(bx, by));
+    return Math.abs(cross) >= 1e-9 || ax * bx + ay * by < 0;
+  });
+}
+
+/**
+ * Outline of a join around a corner, from the corner moved `distance` along the incoming edge's
+ * normal to the corner moved along the outgoing edge's normal
+ */
+function joinPoints(vertex: Point, n1: Point, n2: Point, distance: number, options: Required<OffsetOptions>): Point[] {
+  const at = (normal: Point, scale: number = 1) => ({
+    x: vertex.x + normal.x * distance * scale,
+    y: vertex.y + normal.y * distance * scale,
+  });
+  const sign = Math.sign(distance);
+  const cross = n1.x * n2.y - n1.y * n2.x;
+  const dot = n1.x * n2.x + n1.y * n2.y;
+  
+  if (options.join === 'round') {
+    // Arc around the corner, a half turn around the tip of a spike
+    const angle = Math.atan2(Math.abs(cross), dot);
+    const tolerance = Math.min(options.arcTolerance, Math.abs(distance));
+    const steps = Math.max(1, Math.ceil(angle / (2 * Math.acos(1 - tolerance / Math.abs(distance)))));
+    const points: Point[] = [];
+    for (let step = 0; step < steps; step++) {
+      const rotation = (sign * angle * step) / steps;
+      const [cos, sin] = [Math.cos(rotation), Math.sin(rotation)];
+      points.push(at({ x: n1.x * cos - n1.y * sin, y: n1.x * sin + n1.y * cos }));
+    }
+    return [...points, at(n2)];
+  }
+  
+  // Miter point where the moved edges meet, unless it is too far out; otherwise cut the corner
+  // square across the bisector (at the distance for square joins, at the miter limit for miters)
+  if (options.join === 'miter' && 1 + dot > 2 / (options.miterLimit * options.miterLimit)) {
+    return [at(n1), at({ x: (n1.x + n2.x) / (1 + dot), y: (n1.y + n2.y) / (1 + dot) }), at(n2)];
+  }
+  
+  const bisectorLength = Math.hypot(n1.x + n2.x, n1.y + n2.y);
+  const bisector = bisectorLength > 1e-9
+    ? { x: (n1.x + n2.x) / bisectorLength, y: (n1.y + n2.y) / bisectorLength }
+    : { x: -n1.y * sign, y: n1.x * sign }; // Spike: continue past its tip
+  const cut = at(bisector, options.join === 'square' ? 1 : options.miterLimit);
+  const across = { x: -bisector.y, y: bisector.x };
+  const start = intersectLines(at(n1), { x: -n1.y, y: n1.x }, cut, across) ?? at(n1);
+  const end = intersectLines(at(n2), { x: -n2.y, y: n2.x }, cut, across) ?? at(n2);
+  return [at(n1), start, end, at(n2)];
+}
+
 /**
  * Ensure ring is closed (first point equals last point)
  */
@@ -152,14 +652,15 @@ function ensureClockwise(points: Point[]): Point[] {
 
 /**
  * Calculate signed area of polygon (positive = clockwise, negative = counter-clockwise)
+ * Rings may be open or closed; the closing edge of a closed ring adds nothing
  */
 export function calculateSignedArea(points: Point[]): number {
   if (points.length < 3) return 0;
   
   let area = 0;
-  for (let i = 0; i < points.length - 1; i++) {
+  for (let i = 0; i < points.length; i++) {
     const current = points[i];
-    const next = points[i + 1];
+    const next = points[(i + 1) % points.length];
     area += (next.x - current.x) * (next.y + current.y);
   }
   
@@ -175,54 +676,40 @@ function calculatePolygonArea(points: Point[]): number {
 
 /**
  * Fix self-intersections using Martinez polygon clipping
+ * Clipping the polygon to a box around it splits its rings at every crossing and rebuilds them
+ * as simple polygons: a figure-8 comes back as two parts, each with its holes, and a ring
+ * enclosing no area as none. The box stays clear of the polygon so no clip edge overlaps a polygon edge
+ * Returns null when no two edges of the polygon meet (it is kept as it is, without clipping)
  */
-function fixSelfIntersections(polygon: Polygon): Polygon | null {
+function fixSelfIntersections(polygon: Polygon): Polygon[] | null {
+  const rings = [polygon.exterior, ...polygon.holes];
+  if (!hasSelfIntersections(rings)) return null;
+  
   try {
     // Convert to Martinez format: [[[x, y], [x, y], ...]]
-    const exteriorCoords = polygon.exterior.map(p => [p.x, p.y]);
-    const holeCoords = polygon.holes.map(hole => hole.map(p => [p.x, p.y]));
+    const martinezPolygon = rings.map(ring => ring.map(p => [p.x, p.y]));
     
-    // Create polygon in Martinez format
-    const martinezPolygon = [exteriorCoords, ...holeCoords];
-    
-    // Use union operation with empty polygon to fix self-intersections
-    const fixed: any = (martinez as any).union([martinezPolygon], []);
-    
-    if (!fixed || fixed.length === 0) {
-      return null;
-    }
+    const bounds = rings.map(ringBounds).reduce((a, b) => ({
+      x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1),
+    }));
+    const [x0, y0] = [bounds.x0 - 1, bounds.y0 - 1];
+    const [x1, y1] = [bounds.x1 + 1, bounds.y1 + 1];
+    const box = [[[x0, y0], [x1, y0], [x1, y1], [x0, y1], [x0, y0]]];
     
-    // Take the first (largest) result polygon
-    const firstPolygon = fixed[0];
-    if (!firstPolygon || firstPolygon.length === 0) {
-      return null;
-    }
-    
-    // Convert back to our format with complete type safety
-    const rawExterior = firstPolygon[0];
-    const rawHoles = firstPolygon.slice(1);
-    
-    const fixedExterior = Array.isArray(rawExterior) ? rawExterior.map((coord: any) => ({
-      x: typeof coord[0] === 'number' ? coord[0] : 0,
-      y: typeof coord[1] === 'number' ? coord[1] : 0
-    })) : [];
-    
-    const fixedHoles = Array.isArray(rawHoles) ? rawHoles.map((hole: any) => {
-      if (!Array.isArray(hole)) return [];
-      return hole.map((coord: any) => ({
-        x: typeof coord[0] === 'number' ? coord[0] : 0,
-        y: typeof coord[1] === 'number' ? coord[1] : 0
+    const fixed: any = (martinez as any).intersection([martinezPolygon], box);
+    const toRing = (ring: number[][]) => ring.map(([x, y]) => ({ x, y }));
+    const parts: Polygon[] = (fixed || [])
+      .filter((rings: any) => Array.isArray(rings) && rings.length > 0 && calculatePolygonArea(toRing(rings[0])) > 0)
+      .map((rings: number[][][]) => ({
+        exterior: toRing(rings[0]),
+        holes: rings.slice(1).map(toRing).filter(hole => calculatePolygonArea(hole) > 0),
       }));
-    }) : [];
     
-    return {
-      exterior: fixedExterior,
-      holes: fixedHoles,
-    };
+    return parts;
     
   } catch (error) {
     console.warn('Failed to fix self-intersections:', error);
-    return polygon; // Return original if fixing fails
+    return null; // Keep the original if fixing fails
   }
 }
 
@@ -260,7 +747,7 @@ export function isValidPolygon(polygon: Polygon): boolean {
     }
     
     // Check for self-intersections (basic check)
-    if (hasSelfIntersections(polygon.exterior)) {
+    if (hasSelfIntersections([polygon.exterior])) {
       return false;
     }
     
@@ -272,30 +759,64 @@ export function isValidPolygon(polygon: Polygon): boolean {
 }
 
 /**
- * Basic self-intersection check using line segment intersection
+ * Whether any two edges of the rings cross or touch, apart from consecutive edges of a ring
+ * meeting at their shared vertex (unless they fold back over each other); rings may be open or closed
+ * Edges are bucketed in a uniform grid so that only edges in nearby cells are compared
  */
-function hasSelfIntersections(points: Point[]): boolean {
-  if (points.length < 4) return false;
+function hasSelfIntersections(rings: Point[][]): boolean {
+  const edges: { ring: number; index: number; a: Point; b: Point }[] = [];
+  const edgeCounts = rings.map((ring, ringIndex) => {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    const count = ring.length > 1 && first.x === last.x && first.y === last.y ? ring.length - 1 : ring.length;
+    for (let i = 0; i < count; i++) {
+      edges.push({ ring: ringIndex, index: i, a: ring[i], b: ring[(i + 1) % count] });
+    }
+    return count;
+  });
+  if (edges.length < 2) return false;
+  
+  // Cells about one edge long keep the edges per cell few
+  const totalLength = edges.reduce((total, { a, b }) => total + Math.hypot(b.x - a.x, b.y - a.y), 0);
+  const cellSize = Math.max(totalLength / edges.length, 0.001);
+  const grid = new Map<number, number[]>();
   
-  // Check each edge against all non-adjacent edges
-  for (let i = 0; i < points.length - 1; i++) {
-    const edge1 = [points[i], points[i + 1]];
+  for (let e = 0; e < edges.length; e++) {
+    const edge = edges[e];
+    const candidates = new Set<number>();
+    for (const key of nearbyCells(edge.a, edge.b, cellSize)) {
+      for (const other of grid.get(key) || []) candidates.add(other);
+    }
     
-    for (let j = i + 2; j < points.length - 1; j++) {
-      // Skip adjacent edges and last-to-first edge
-      if (j === points.length - 2 && i === 0) continue;
-      
-      const edge2 = [points[j], points[j + 1]];
-      
-      if (lineSegmentsIntersect(edge1[0], edge1[1], edge2[0], edge2[1])) {
+    for (const other of candidates) {
+      const earlier = edges[other];
+      const count = edgeCounts[edge.ring];
+      if (earlier.ring === edge.ring && (earlier.index + 1) % count === edge.index) {
+        if (foldsBack(earlier.a, earlier.b, edge.b)) return true;
+      } else if (earlier.ring === edge.ring && (edge.index + 1) % count === earlier.index) {
+        if (foldsBack(edge.a, edge.b, earlier.b)) return true;
+      } else if (lineSegmentsIntersect(edge.a, edge.b, earlier.a, earlier.b)) {
         return true;
       }
     }
+    
+    forEachCell(edge.a, edge.b, cellSize, key => {
+      const entries = grid.get(key);
+      if (entries) entries.push(e);
+      else grid.set(key, [e]);
+    });
   }
   
   return false;
 }
 
+/**
+ * Whether the edge b-c turns straight back along the edge a-b
+ */
+function foldsBack(a: Point, b: Point, c: Point): boolean {
+  return direction(a, b, c) === 0 && (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y) < 0;
+}
+
 /**
  * Check if two line segments intersect
  */
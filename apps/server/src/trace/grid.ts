@@ -0,0 +1,72 @@
+import type { Point } from '../../../../shared/types';
+
+/**
+ * Uniform grid over segments, for finding the segments near another without comparing all pairs
+ * Segments are added to every cell they pass through; a query takes the cells around a segment,
+ * so two segments that meet always share a cell of the query
+ */
+
+// Cell keys pack both cell coordinates into one small integer (fast map keys): 16384 cells per
+// axis, the first CELL_MARGIN of them left of and above the image
+const CELL_ROW = 16384;
+const CELL_MARGIN = 1024;
+
+export function cellKey(point: Point, cellSize: number): number {
+  return (Math.floor(point.x / cellSize) + CELL_MARGIN) * CELL_ROW + Math.floor(point.y / cellSize) + CELL_MARGIN;
+}
+
+/**
+ * Keys of the cells a segment passes through and their neighbours
+ * Short segments take the block of cells around their bounds, long ones follow the segment
+ */
+export function nearbyCells(a: Point, b: Point, cellSize: number): Iterable<number> {
+  const x0 = Math.floor(Math.min(a.x, b.x) / cellSize) - 1;
+  const y0 = Math.floor(Math.min(a.y, b.y) / cellSize) - 1;
+  const x1 = Math.floor(Math.max(a.x, b.x) / cellSize) + 1;
+  const y1 = Math.floor(Math.max(a.y, b.y) / cellSize) + 1;
+  if ((x1 - x0 + 1) * (y1 - y0 + 1) <= 16) {
+    const keys: number[] = [];
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) keys.push((cx + CELL_MARGIN) * CELL_ROW + cy + CELL_MARGIN);
+    }
+    return keys;
+  }
+
+  const keys = new Set<number>();
+  forEachCell(a, b, cellSize, key => {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) keys.add(key + dx * CELL_ROW + dy);
+    }
+  });
+  return keys;
+}
+
+/**
+ * Visit the cells a segment passes through (grid traversal)
+ */
+export function forEachCell(a: Point, b: Point, cellSize: number, visit: (key: number) => void): void {
+  let cx = Math.floor(a.x / cellSize);
+  let cy = Math.floor(a.y / cellSize);
+  const endX = Math.floor(b.x / cellSize);
+  const endY = Math.floor(b.y / cellSize);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const stepX = Math.sign(dx);
+  const stepY = Math.sign(dy);
+  const deltaX = dx !== 0 ? cellSize / Math.abs(dx) : Infinity;
+  const deltaY = dy !== 0 ? cellSize / Math.abs(dy) : Infinity;
+  let nextX = dx !== 0 ? ((stepX > 0 ? (cx + 1) * cellSize - a.x : a.x - cx * cellSize) / Math.abs(dx)) : Infinity;
+  let nextY = dy !== 0 ? ((stepY > 0 ? (cy + 1) * cellSize - a.y : a.y - cy * cellSize) / Math.abs(dy)) : Infinity;
+
+  visit((cx + CELL_MARGIN) * CELL_ROW + cy + CELL_MARGIN);
+  for (let steps = Math.abs(endX - cx) + Math.abs(endY - cy); steps > 0; steps--) {
+    if (nextX < nextY) {
+      cx += stepX;
+      nextX += deltaX;
+    } else {
+      cy += stepY;
+      nextY += deltaY;
+    }
+    visit((cx + CELL_MARGIN) * CELL_ROW + cy + CELL_MARGIN);
+  }
+}
@@ -1,16 +1,91 @@
 import { PNG } from 'pngjs';
-import { extractContours, simplifyContours } from './contour';
-import { validateGeometry, cleanupGeometry } from './geometry';
+import { extractContours, simplifyContours, simplifyPolylines } from './contour';
+import { StageCache, hashContent, stageKey, imageSize, pathsSize } from './cache';
+import { validateGeometry, rectilinearize, cleanupGeometry, offsetPolygons, dissolvePolygons } from './geometry';
 import { processWithHED } from './hed';
-import { preprocessRaster, binarizeImage, removeSpeckles } from './raster';
+import { applyAlpha, toGrayscale, gaussianBlur, computeThreshold, summarizeThreshold, binarizeImage, removeSpeckles, luminanceHistogram, otsuFromHistogram } from './raster';
+import { traceIsolines, ISOLINE_BLUR } from './isolines';
+import { resolveTileSize, tileOverlap, planTiles, imageRows, tileRegions, clipToCore, stitchPolygons } from './tiles';
+import { readPngHeader, readPngRows } from './png';
+import { skeletonize, traceSkeleton } from './skeleton';
+import { fitPolygonCurves, fitPolylineCurves, countCurveSegments } from './curves';
+import { smoothContours, smoothingReach } from './smoothing';
+import { simplifyPreservingTopology, simplifyVisvalingam, simplifyPolylinesVisvalingam, limitNodes } from './simplify';
+import { detectPolygonPrimitives, detectPolylinePrimitives, countPrimitives } from './primitives';
+import { quantizeColors, createClusterMask, toHexColor, parseHexColor } from './color';
 import { generateSVG } from './svg';
 import { generateDXF } from './dxf';
-import type { TraceRequest, TraceResponse, ImageData, Polygon, ProcessingOptions } from '../../../../shared/types';
+import { readPngDpi, resolveDrawingScale } from './units';
+import type { Contour } from './contour';
+import type { AlphaOptions } from './raster';
+import type { SmoothingOptions } from './smoothing';
+import type { TraceRequest, TraceResponse, TraceProgress, TraceStage, ImageData, Point, Polygon, Polyline, ColorLayer, GeometryRepairs, ProcessingOptions, SimplifyMethod } from '../../../../shared/types';
+
+/**
+ * Called when the pipeline enters a stage
+ */
+export type ProgressCallback = (progress: TraceProgress) => void;
+
+export interface TraceHooks {
+  /** Stage/progress events */
+  onProgress?: ProgressCallback;
+  /** Aborts the trace between stages and inside the long raster/contour loops */
+  signal?: AbortSignal;
+  /** Intermediate results cache (default: the shared stageCache; null disables caching) */
+  cache?: StageCache | null;
+}
+
+type StageReporter = (stage: TraceStage, percent: number, contourCount?: number) => Promise<void>;
+
+/**
+ * Returns the cached result of a stage or computes and caches it, recording cache hits
+ */
+type StageMemo = <T>(stage: TraceStage, key: string, compute: () => T | Promise<T>, sizeOf: (value: T) => number) => Promise<T>;
+
+/**
+ * Intermediate results of the traces run on this thread; every trace worker loads its own cache,
+ * each bounded by TRACE_CACHE_MB (default 256)
+ */
+export const stageCache = new StageCache({
+  maxBytes: (parseInt(process.env.TRACE_CACHE_MB || '') || 256) * 1024 * 1024,
+});
+
+/**
+ * A decoded PNG that can be traced repeatedly with different parameters
+ */
+export interface DecodedImage {
+  /** Content hash of the PNG, the root of every stage cache key */
+  hash: string;
+  imageData: ImageData;
+  /** Resolution from the pHYs chunk */
+  dpi: number | null;
+}
+
+/**
+ * Decode a PNG and read its physical resolution
+ */
+export function decodePng(buffer: Buffer, hash: string = hashContent(buffer)): DecodedImage {
+  const png = PNG.sync.read(buffer);
+  return {
+    hash,
+    imageData: {
+      width: png.width,
+      height: png.height,
+      data: new Uint8Array(png.data),
+    },
+    dpi: readPngDpi(buffer),
+  };
+}
 
 /**
  * Main image tracing function - implements the AI-assisted Tier-2 pipeline
+ * Accepts an uploaded PNG or an image decoded earlier with decodePng()
+ * Every stage result is cached under its input's key plus the parameters the stage reads,
+ * so changing an export-only flag such as whiteFill re-runs nothing but the export
  */
-export async function traceImage(buffer: Buffer, request: TraceRequest): Promise<TraceResponse> {
+export async function traceImage(input: Buffer | DecodedImage, request: TraceRequest, hooks: TraceHooks = {}): Promise<TraceResponse> {
+  const { onProgress, signal } = hooks;
+  const cache = hooks.cache === undefined ? stageCache : hooks.cache;
   const startTime = Date.now();
   let timings = {
     preprocessing: 0,
@@ -18,111 +93,571 @@ export async function traceImage(buffer: Buffer, request: TraceRequest): Promise
     vectorization: 0,
     export: 0,
     total: 0,
+    cacheHits: [] as TraceStage[],
+  };
+
+  // Report the stage, then yield so status, event and disconnect handlers run between CPU-bound stages
+  const reportProgress: StageReporter = async (stage, percent, contourCount) => {
+    signal?.throwIfAborted();
+    if (!onProgress && !signal) return;
+    onProgress?.({ stage, percent: Math.round(percent), contourCount });
+    await new Promise(resolve => setImmediate(resolve));
+    signal?.throwIfAborted();
+  };
+
+  const memo: StageMemo = async (stage, key, compute, sizeOf) => {
+    if (!cache) return compute();
+    const { value, hit } = await cache.memoize(key, compute, sizeOf);
+    if (hit) timings.cacheHits.push(stage);
+    return value;
+  };
+
+  // Raster stages run on demand, so a cached vectorization result skips them entirely
+  // Only the outermost running stage is timed, as inner stages run inside it
+  let rasterDepth = 0;
+  let rasterStart = 0;
+  const rasterStage = <T>(compute: () => Promise<T>): (() => Promise<T>) => {
+    let result: Promise<T> | undefined;
+    return () => result ??= (async () => {
+      if (rasterDepth++ === 0) rasterStart = Date.now();
+      try {
+        return await compute();
+      } finally {
+        if (--rasterDepth === 0) timings.preprocessing += Date.now() - rasterStart;
+      }
+    })();
   };
 
   try {
-    // 1. Load and parse PNG image
-    const preprocessStart = Date.now();
-    const png = PNG.sync.read(buffer);
-    const imageData: ImageData = {
-      width: png.width,
-      height: png.height,
-      data: new Uint8Array(png.data),
-    };
+    // 1. Load and parse PNG image (stored images arrive decoded)
+    // Only the header is read up front: tiled traces stream the rows and never decode the whole image
+    await reportProgress('decoding', 0);
+    const header = Buffer.isBuffer(input) ? readPngHeader(input) : null;
+    const hash = Buffer.isBuffer(input) ? hashContent(input) : input.hash;
+    const { width, height } = header || (input as DecodedImage).imageData;
+    const decodedImage = rasterStage(async () => Buffer.isBuffer(input)
+      ? memo('decoding', hash, () => decodePng(input, hash), image => imageSize(image.imageData))
+      : input);
+
+    // Physical resolution for real-world export units (request override wins over pHYs)
+    const dpi = request.dpi || (Buffer.isBuffer(input) ? readPngDpi(input) : input.dpi);
+    const drawingScale = resolveDrawingScale(dpi, request.units, request.drawingScale);
+    
+    console.log(`Loaded PNG: ${width}x${height}${dpi ? ` at ${Math.round(dpi)} DPI` : ''}`);
     
-    console.log(`Loaded PNG: ${imageData.width}x${imageData.height}`);
+    const options = calculateProcessingOptions(request);
+
+    // Resolve transparency (composite, cutoff or alpha mask) before any color is read
+    const alphaKey = stageKey(hash, 'alpha', [request.alphaMode || 'composite', request.alphaBackground, request.alphaCutoff]);
+    const alphaImage = rasterStage(async () => applyAlpha((await decodedImage()).imageData, alphaOptions(request)));
 
-    // 2. Optional AI preprocessing
-    let processedImage = imageData;
-    if (request.useAI) {
+    // Very large outline traces run tile by tile so working memory stays bounded
+    const tileable = !request.colorMode && request.mode !== 'centerline';
+    const tileSize = tileable ? resolveTileSize(width, height, request.tileSize) : 0;
+    if (request.tileSize && !tileable) {
+      console.log('Tiled processing applies to outline mode only, tracing the whole image');
+    }
+    
+    // Sub-pixel contours need the grayscale image, which color layers and skeletons do not have
+    const subpixel = request.contourMethod === 'marching-squares' && !request.colorMode && request.mode !== 'centerline';
+    if (request.contourMethod === 'marching-squares' && !subpixel) {
+      console.log('Marching squares applies to monochrome outlines only, following bitmap borders');
+    }
+    if (tileSize && request.useAI) {
+      console.warn('AI preprocessing needs the whole image and is skipped in tiled mode');
+    }
+
+    // 2. Optional AI preprocessing (edge maps carry no color, so color mode skips it)
+    const useAI = !!request.useAI && !request.colorMode && !tileSize;
+    const sourceKey = useAI ? stageKey(alphaKey, 'ai') : alphaKey;
+    const sourceImage = !useAI ? alphaImage : rasterStage(() => memo('ai', sourceKey, async () => {
+      const imageData = await alphaImage();
+      await reportProgress('ai', 5);
       try {
         const aiStart = Date.now();
-        processedImage = await processWithHED(imageData);
+        const edges = await processWithHED(imageData);
         timings.aiProcessing = Date.now() - aiStart;
         console.log(`AI preprocessing completed in ${timings.aiProcessing}ms`);
+        return edges;
       } catch (error) {
         console.warn('AI preprocessing failed, falling back to deterministic pipeline:', error);
-        processedImage = imageData;
+        return imageData;
       }
-    }
+    }, imageSize));
 
     // 3. Deterministic raster processing
-    const options = calculateProcessingOptions(request);
-    
-    // Preprocess raster (blur, threshold, morphology)
-    processedImage = preprocessRaster(processedImage, {
-      threshold: options.threshold,
+    // Quantize colors in color mode; each color is masked and despeckled separately
+    const quantizeKey = stageKey(sourceKey, 'quantize', [request.colorCount]);
+    const quantizedImage = rasterStage(() => memo('quantizing', quantizeKey, async () => {
+      const imageData = await sourceImage();
+      await reportProgress('quantizing', 20);
+      const quantized = quantizeColors(imageData, request.colorCount);
+      console.log(`Quantized to ${quantized.palette.length} colors: ${quantized.palette.map(toHexColor).join(', ')}`);
+      return quantized;
+    }, quantized => quantized.labels.byteLength));
+
+    // Choose the threshold (fixed, Otsu or adaptive) on the grayscale image, then binarize
+    // The threshold summary is cached on its own for the metrics of later cache hits
+    const binaryKey = stageKey(sourceKey, 'threshold', [
+      request.thresholdMode || 'fixed',
+      options.threshold,
+      request.adaptiveMethod,
+      request.adaptiveWindow,
+    ]);
+    const thresholdKey = stageKey(binaryKey, 'summary');
+    let thresholdSummary: number | undefined;
+    const grayscaleImage = rasterStage(async () => toGrayscale(await sourceImage()));
+    const thresholdValue = rasterStage(async () => {
+      const grayscale = await grayscaleImage();
+      await reportProgress('thresholding', 20);
+      const threshold = computeThreshold(grayscale, {
+        mode: request.thresholdMode || 'fixed',
+        value: options.threshold,
+        method: request.adaptiveMethod,
+        windowSize: request.adaptiveWindow,
+      });
+      thresholdSummary = summarizeThreshold(threshold);
+      cache?.set(thresholdKey, thresholdSummary, 8);
+      console.log(`Threshold (${request.thresholdMode || 'fixed'}): ${thresholdSummary}`);
+      return threshold;
     });
+    const binaryImage = rasterStage(() => memo('thresholding', binaryKey, async () => {
+      // Binarize the cached grayscale image into a one-byte-per-pixel bitmap
+      const threshold = await thresholdValue();
+      return binarizeImage(await grayscaleImage(), threshold);
+    }, imageSize));
     
-    // Binarize with threshold
-    processedImage = binarizeImage(processedImage, options.threshold);
-    
+    // Marching squares reads the slightly blurred grayscale instead of the bitmap
+    const blurredImage = rasterStage(async () => gaussianBlur(await grayscaleImage(), ISOLINE_BLUR));
+
     // Remove speckles
-    processedImage = removeSpeckles(processedImage, options.areaMin);
-    
-    timings.preprocessing = Date.now() - preprocessStart;
+    const despeckleKey = stageKey(binaryKey, 'despeckle', [options.areaMin]);
+    const despeckledImage = rasterStage(() => memo('despeckling', despeckleKey, async () => {
+      const imageData = await binaryImage();
+      await reportProgress('despeckling', 30);
+      return removeSpeckles(imageData, options.areaMin, signal);
+    }, imageSize));
 
     // 4. Vectorization
     const vectorStart = Date.now();
+    const preprocessingBefore = timings.preprocessing;
+    let cleanPolygons: Polygon[] = [];
+    let colorLayers: ColorLayer[] = [];
+    let polylines: Polyline[] = [];
+    let palette: string[] | undefined;
+    let repairs: GeometryRepairs | undefined;
     
-    // Extract contours using Moore neighborhood tracing
-    const contours = extractContours(processedImage);
-    console.log(`Extracted ${contours.length} raw contours`);
+    // Parameters read by the outline stages (smoothing, simplification, snapping, cleanup)
+    const outlineParams = [smoothingOptions(request, options) ?? 'none', options.epsilon, request.simplifyMethod || 'douglas-peucker', !!request.orthogonalSnap, request.snapTolerance ?? 3, options.areaMin];
+
+    if (request.colorMode) {
+      // Trace every color except the background onto its own layer
+      ({ colorLayers, palette, repairs } = await memo('contouring', stageKey(quantizeKey, 'layers', outlineParams), async () => {
+        const quantized = await quantizedImage();
+        const layers: ColorLayer[] = [];
+        const layerRepairs = noRepairs();
+        let contourCount = 0;
+        for (let cluster = 0; cluster < quantized.palette.length; cluster++) {
+          if (cluster === quantized.background) continue;
+          
+          await reportProgress('contouring', 30 + (45 * cluster) / quantized.palette.length, contourCount);
+          const mask = removeSpeckles(createClusterMask(quantized, width, height, cluster), options.areaMin, signal);
+          const polygons = outlinePolygons(extractContours(mask, signal), options, request, layerRepairs);
+          contourCount += polygons.length;
+          if (polygons.length > 0) {
+            layers.push({ color: toHexColor(quantized.palette[cluster]), polygons });
+          }
+        }
+        console.log(`Vectorization completed: ${layers.length} color layers`);
+        return { colorLayers: layers, palette: quantized.palette.map(toHexColor), repairs: layerRepairs };
+      }, result => pathsSize(polygonRings(allPolygons([], result.colorLayers)))));
+    } else if (request.mode === 'centerline') {
+      // Thin strokes to their skeleton and walk it into open polylines
+      const centerlines = await memo('contouring', stageKey(despeckleKey, 'skeleton'), async () => {
+        const imageData = await despeckledImage();
+        await reportProgress('contouring', 40);
+        return traceSkeleton(skeletonize(imageData), Math.sqrt(options.areaMin));
+      }, lines => pathsSize(lines.map(line => line.points)));
+      await reportProgress('simplifying', 65, centerlines.length);
+      if (request.simplifyMethod === 'topology-preserving') {
+        console.log('Topology-preserving simplification applies to closed outlines only, simplifying centerlines with Douglas-Peucker');
+      }
+      if (request.smoothing && request.smoothing !== 'none') {
+        console.log('Smoothing applies to traced outlines only, leaving centerlines unsmoothed');
+      }
+      polylines = request.simplifyMethod === 'visvalingam'
+        ? simplifyPolylinesVisvalingam(centerlines, options.epsilon)
+        : simplifyPolylines(centerlines, options.epsilon);
+      console.log(`Vectorization completed: ${polylines.length} centerlines`);
+    } else if (tileSize) {
+      // Threshold, despeckle and trace every tile, then stitch polygons across the seams
+      ({ polygons: cleanPolygons, repairs } = await memo('validating', stageKey(binaryKey, 'tiles', [tileSize, subpixel, ...outlineParams]), async () => {
+        // Interlaced PNGs spread each row over seven passes, so only they are decoded whole first
+        if (header?.interlaced) console.log('Interlaced PNG, decoding the whole image before tiling');
+        const image = header && !header.interlaced ? null : (await decodedImage()).imageData;
+        const rows = () => image ? imageRows(image) : readPngRows(input as Buffer);
+        const tiled = await traceTiles(rows, width, height, tileSize, subpixel, options, request, reportProgress, signal);
+        timings.preprocessing += tiled.rasterTime;
+        thresholdSummary = tiled.threshold;
+        cache?.set(thresholdKey, thresholdSummary, 8);
+        console.log(`Threshold (${request.thresholdMode || 'fixed'}): ${thresholdSummary}`);
+        return { polygons: tiled.polygons, repairs: tiled.repairs };
+      }, result => pathsSize(polygonRings(result.polygons))));
+      console.log(`Vectorization completed: ${cleanPolygons.length} final polygons`);
+    } else {
+      // Extract contours by Suzuki-Abe border following, or sub-pixel iso-contours by marching squares,
+      // then simplify, validate and clean them up
+      // Marching squares skips despeckling: polygons below the minimum area are dropped in cleanup
+      const contoursKey = subpixel ? stageKey(binaryKey, 'isolines') : stageKey(despeckleKey, 'contours');
+      ({ polygons: cleanPolygons, repairs } = await memo('validating', stageKey(contoursKey, 'outlines', outlineParams), async () => {
+        const contours = await memo('contouring', contoursKey, async () => {
+          let extracted: Contour[];
+          if (subpixel) {
+            const imageData = await blurredImage();
+            const threshold = await thresholdValue();
+            await reportProgress('contouring', 40);
+            extracted = traceIsolines(imageData, threshold, signal);
+          } else {
+            const imageData = await despeckledImage();
+            await reportProgress('contouring', 40);
+            extracted = extractContours(imageData, signal);
+          }
+          console.log(`Extracted ${extracted.length} raw contours`);
+          return extracted;
+        }, extracted => pathsSize(extracted.flatMap(contour => [contour.points, ...contour.holes])));
+
+        await reportProgress('simplifying', 55, contours.length);
+        const outlineRepairs = noRepairs();
+        const polygons = outlinePolygons(contours, options, request, outlineRepairs);
+        await reportProgress('validating', 65, polygons.length);
+        return { polygons, repairs: outlineRepairs };
+      }, result => pathsSize(polygonRings(result.polygons))));
+      console.log(`Vectorization completed: ${cleanPolygons.length} final polygons`);
+    }
+
+    if (timings.cacheHits.length > 0) {
+      console.log(`Stage cache hits: ${timings.cacheHits.join(', ')}`);
+    }
     
-    // Simplify contours with Douglas-Peucker
-    const simplifiedContours = simplifyContours(contours, options.epsilon);
-    console.log(`Simplified to ${simplifiedContours.length} contours with epsilon ${options.epsilon}`);
+    // Apply a polygon stage to the monochrome polygons and to every color layer
+    const mapPolygons = (stage: (polygons: Polygon[]) => Polygon[]) => {
+      cleanPolygons = stage(cleanPolygons);
+      colorLayers = colorLayers.map(layer => ({ ...layer, polygons: stage(layer.polygons) }));
+    };
     
-    // Convert to polygons
-    const polygons: Polygon[] = simplifiedContours.map(contour => ({
-      exterior: contour.points,
-      holes: contour.holes,
-    }));
+    // Optional offset (kerf compensation), given in export units; primitives and curves are fitted to the offset outline
+    if (request.offset) {
+      if (request.mode === 'centerline') {
+        console.log('Offset applies to filled outlines only, leaving centerlines as traced');
+      } else {
+        const distance = request.offset / drawingScale.unitsPerPixel;
+        mapPolygons(polygons => offsetPolygons(polygons, distance, { join: request.offsetJoin || 'miter' }));
+      }
+    }
     
-    // Validate and clean geometry
-    const validatedPolygons = validateGeometry(polygons);
-    const cleanPolygons = cleanupGeometry(validatedPolygons, options.areaMin);
+    // Optional dissolve, after the offset that may have made polygons touch
+    let mergeCount: number | undefined;
+    if (request.dissolve) {
+      if (request.mode === 'centerline') {
+        console.log('Dissolve applies to filled outlines only, leaving centerlines as traced');
+      } else {
+        const polygonCount = allPolygons(cleanPolygons, colorLayers).length;
+        mapPolygons(dissolvePolygons);
+        mergeCount = polygonCount - allPolygons(cleanPolygons, colorLayers).length;
+      }
+    }
     
-    timings.vectorization = Date.now() - vectorStart;
-    console.log(`Vectorization completed: ${cleanPolygons.length} final polygons`);
+    // Optional node budget across the whole drawing, after the stages that change outlines;
+    // removing vertices can make rings cross, so the result is validated again
+    let maxDeviation: number | undefined;
+    if (request.maxNodes) {
+      const budget = limitNodes([cleanPolygons, ...colorLayers.map(layer => layer.polygons)], polylines, request.maxNodes);
+      cleanPolygons = budget.groups[0];
+      colorLayers = colorLayers.map((layer, index) => ({ ...layer, polygons: budget.groups[index + 1] }));
+      polylines = budget.polylines;
+      maxDeviation = budget.maxDeviation;
+      if (request.mode !== 'centerline') {
+        const budgetRepairs = noRepairs();
+        mapPolygons(polygons => validateGeometry(polygons, budgetRepairs));
+        repairs = repairs && {
+          repaired: repairs.repaired + budgetRepairs.repaired,
+          split: repairs.split + budgetRepairs.split,
+          dropped: repairs.dropped + budgetRepairs.dropped,
+        };
+      }
+    }
+    
+    if (request.detectPrimitives || request.curveFitting) {
+      await reportProgress('fitting', 75, allPolygons(cleanPolygons, colorLayers).length + polylines.length);
+    }
+    
+    // Optional circle/arc recognition, ahead of curve fitting so primitives take precedence
+    if (request.detectPrimitives) {
+      const primitiveOptions = {
+        tolerance: request.primitiveTolerance ?? Math.max(1, options.epsilon),
+        minArcAngle: 30,
+      };
+      mapPolygons(polygons => detectPolygonPrimitives(polygons, primitiveOptions));
+      polylines = detectPolylinePrimitives(polylines, primitiveOptions);
+      console.log(`Primitive detection found ${countPrimitives(allPolygons(cleanPolygons, colorLayers), polylines)} circles and arcs`);
+    }
+    
+    // Optional Bezier curve fitting (rings keep their points for fills and metrics)
+    if (request.curveFitting) {
+      const curveOptions = {
+        tolerance: Math.max(1, options.epsilon),
+        cornerAngle: request.cornerThreshold ?? 60,
+      };
+      mapPolygons(polygons => fitPolygonCurves(polygons, curveOptions));
+      polylines = fitPolylineCurves(polylines, curveOptions);
+      console.log(`Curve fitting produced ${countCurveSegments(allPolygons(cleanPolygons, colorLayers), polylines)} cubic segments`);
+    }
+    
+    timings.vectorization = Date.now() - vectorStart - (timings.preprocessing - preprocessingBefore);
 
     // 5. Export generation
+    await reportProgress('exporting', 90, allPolygons(cleanPolygons, colorLayers).length + polylines.length);
     const exportStart = Date.now();
     
     // Generate SVG
-    const svg = generateSVG(cleanPolygons, imageData.width, imageData.height, request.whiteFill);
+    const svg = generateSVG(cleanPolygons, width, height, request.whiteFill, { polylines, colorLayers, scale: drawingScale });
     
     // Generate DXF  
-    const dxf = generateDXF(cleanPolygons, imageData.width, imageData.height, request.whiteFill);
+    const dxf = generateDXF(cleanPolygons, width, height, request.whiteFill, {
+      polylines,
+      colorLayers,
+      scale: drawingScale,
+      origin: request.origin,
+      originPoint: request.originPoint,
+    });
     const dxfBase64 = Buffer.from(dxf, 'utf8').toString('base64');
     
     timings.export = Date.now() - exportStart;
     timings.total = Date.now() - startTime;
 
     // Calculate metrics
-    const nodeCount = cleanPolygons.reduce((total, poly) => {
+    const tracedPolygons = allPolygons(cleanPolygons, colorLayers);
+    const nodeCount = tracedPolygons.reduce((total, poly) => {
       return total + poly.exterior.length + poly.holes.reduce((holeTotal, hole) => holeTotal + hole.length, 0);
-    }, 0);
+    }, 0) + polylines.reduce((total, line) => total + line.points.length, 0);
 
     const response: TraceResponse = {
       svg,
       dxf: dxfBase64,
       metrics: {
         nodeCount,
-        polygonCount: cleanPolygons.length,
+        polygonCount: tracedPolygons.length,
+        polylineCount: polylines.length,
+        curveCount: countCurveSegments(tracedPolygons, polylines),
+        primitiveCount: countPrimitives(tracedPolygons, polylines),
         simplification: options.epsilon,
+        threshold: request.colorMode ? undefined : thresholdSummary ?? cache?.get<number>(thresholdKey),
+        repairs,
+        mergeCount,
+        maxDeviation,
+        dpi: dpi || undefined,
+        units: drawingScale.units,
         timings,
       },
+      palette,
     };
 
     return response;
 
   } catch (error) {
-    console.error('Trace processing failed:', error);
+    if (signal?.aborted) {
+      console.log('Trace aborted');
+    } else {
+      console.error('Trace processing failed:', error);
+    }
     throw error;
   }
 }
 
+/**
+ * Turn closed contours into clean polygons: smoothing, simplification, validation and cleanup
+ */
+function outlinePolygons(traced: Contour[], options: ProcessingOptions, request: TraceRequest, repairs: GeometryRepairs): Polygon[] {
+  const smoothing = smoothingOptions(request, options);
+  const contours = smoothing ? smoothContours(traced, smoothing) : traced;
+  
+  // Simplify contours and convert to polygons
+  const method = request.simplifyMethod || 'douglas-peucker';
+  const polygons = simplifyPolygons(contours.map(contour => ({ exterior: contour.points, holes: contour.holes })), options.epsilon, method);
+  console.log(`Simplified to ${polygons.length} contours with epsilon ${options.epsilon} (${method})`);
+  
+  return finishPolygons(validateGeometry(polygons, repairs), options, request);
+}
+
+/**
+ * Optionally square up validated polygons, then clean up geometry
+ */
+function finishPolygons(polygons: Polygon[], options: ProcessingOptions, request: TraceRequest): Polygon[] {
+  let validatedPolygons = polygons;
+  if (request.orthogonalSnap) {
+    validatedPolygons = rectilinearize(validatedPolygons, request.snapTolerance ?? 3);
+  }
+  return cleanupGeometry(validatedPolygons, options.areaMin);
+}
+
+/**
+ * Simplification of polygon rings, ring by ring with Douglas-Peucker or Visvalingam-Whyatt, or all together preserving topology
+ * Topology-preserving simplification also keeps clear of the obstacle polygons, simplified earlier
+ */
+function simplifyPolygons(polygons: Polygon[], epsilon: number, method: SimplifyMethod, obstacles: Polygon[] = []): Polygon[] {
+  if (method === 'topology-preserving') return simplifyPreservingTopology(polygons, epsilon, obstacles);
+  if (method === 'visvalingam') return simplifyVisvalingam(polygons, epsilon);
+  const contours = polygons.map(polygon => ({ points: polygon.exterior, holes: polygon.holes, isHole: false, parent: -1 }));
+  return simplifyContours(contours, epsilon).map(contour => ({ exterior: contour.points, holes: contour.holes }));
+}
+
+/**
+ * Outline tracing tile by tile (see tiles.ts)
+ * The RGBA rows are read top to bottom into a band of grayscale rows, once more beforehand for Otsu's threshold;
+ * polygons inside a tile core are simplified right away, pieces cut by seams once stitched
+ */
+async function traceTiles(
+  rows: () => AsyncIterable<Uint8Array>,
+  width: number,
+  height: number,
+  tileSize: number,
+  subpixel: boolean,
+  options: ProcessingOptions,
+  request: TraceRequest,
+  reportProgress: StageReporter,
+  signal?: AbortSignal
+): Promise<{ polygons: Polygon[]; threshold: number; rasterTime: number; repairs: GeometryRepairs }> {
+  const thresholdMode = request.thresholdMode || 'fixed';
+  const simplifyMethod = request.simplifyMethod || 'douglas-peucker';
+  const smoothing = smoothingOptions(request, options);
+  const overlap = tileOverlap(
+    tileSize,
+    options.areaMin,
+    thresholdMode === 'adaptive' ? request.adaptiveWindow || 25 : undefined,
+    smoothing && smoothingReach(smoothing)
+  );
+  const tiles = planTiles(width, height, tileSize, overlap);
+  console.log(`Tracing ${tiles.length} tiles of ${tileSize}px with ${overlap}px overlap`);
+
+  // Transparency is resolved row by row, exactly as applyAlpha would on the whole image
+  const alpha = alphaOptions(request);
+  const opaqueRow = (row: Uint8Array) => applyAlpha({ width, height: 1, data: row }, alpha);
+  async function* grayscaleRows() {
+    for await (const row of rows()) {
+      signal?.throwIfAborted();
+      yield toGrayscale(opaqueRow(row)).data;
+    }
+  }
+  
+  // Otsu's threshold comes from the histogram of the whole image, accumulated row by row
+  let rasterStart = Date.now();
+  let rasterTime = 0;
+  let otsu: number | undefined;
+  if (thresholdMode === 'otsu') {
+    const histogram = new Array<number>(256).fill(0);
+    for await (const row of rows()) {
+      signal?.throwIfAborted();
+      luminanceHistogram(opaqueRow(row), histogram);
+    }
+    otsu = otsuFromHistogram(histogram);
+    rasterTime += Date.now() - rasterStart;
+  }
+  
+  const innerPolygons: Polygon[] = [];
+  const seamPieces: Polygon[] = [];
+  const repairs = noRepairs();
+  let thresholdSum = 0;
+  let index = 0;
+  await reportProgress('contouring', 30, 0);
+  rasterStart = Date.now();
+  for await (const [tile, grayscale] of tileRegions(grayscaleRows(), width, tiles)) {
+    const threshold = otsu ?? computeThreshold(grayscale, {
+      mode: thresholdMode,
+      value: options.threshold,
+      method: request.adaptiveMethod,
+      windowSize: request.adaptiveWindow,
+    });
+    thresholdSum += summarizeThreshold(threshold) * (tile.core.x1 - tile.core.x0) * (tile.core.y1 - tile.core.y0);
+    
+    let contours: Contour[];
+    if (subpixel) {
+      const blurred = gaussianBlur(grayscale, ISOLINE_BLUR);
+      rasterTime += Date.now() - rasterStart;
+      contours = traceIsolines(blurred, threshold, signal);
+    } else {
+      // Components touching the region border may continue in the next tile, so they are never despeckled here
+      const binary = binarizeImage(grayscale, threshold);
+      const despeckled = removeSpeckles(binary, options.areaMin, signal, { keepEdges: true });
+      rasterTime += Date.now() - rasterStart;
+      contours = extractContours(despeckled, signal);
+    }
+    if (smoothing) contours = smoothContours(contours, smoothing);
+    const clipped = clipToCore(contours.map(contour => ({ exterior: contour.points, holes: contour.holes })), tile);
+    innerPolygons.push(...validateGeometry(simplifyPolygons(clipped.inner, options.epsilon, simplifyMethod), repairs));
+    seamPieces.push(...clipped.seam);
+
+    await reportProgress('contouring', 30 + (30 * ++index) / tiles.length, innerPolygons.length + seamPieces.length);
+    rasterStart = Date.now();
+  }
+  
+  await reportProgress('simplifying', 60, innerPolygons.length + seamPieces.length);
+  const stitched = stitchPolygons(seamPieces);
+  console.log(`Stitched ${seamPieces.length} seam pieces into ${stitched.length} polygons`);
+  
+  await reportProgress('validating', 65, innerPolygons.length + stitched.length);
+  const polygons = finishPolygons([...innerPolygons, ...validateGeometry(simplifyPolygons(stitched, options.epsilon, simplifyMethod, innerPolygons), repairs)], options, request);
+  
+  return { polygons, threshold: Math.round(thresholdSum / (width * height)), rasterTime, repairs };
+}
+
+/**
+ * Repair counts before any polygon was validated
+ */
+function noRepairs(): GeometryRepairs {
+  return { repaired: 0, split: 0, dropped: 0 };
+}
+
+/**
+ * Transparency handling of a request
+ */
+function alphaOptions(request: TraceRequest): AlphaOptions {
+  return {
+    mode: request.alphaMode || 'composite',
+    background: request.alphaBackground ? parseHexColor(request.alphaBackground) : undefined,
+    cutoff: request.alphaCutoff,
+  };
+}
+
+/**
+ * Contour smoothing of a request, or undefined when off
+ * Strength defaults from fidelity: a Gaussian sigma of the simplification epsilon, or 1-3 Chaikin iterations
+ * Corners are found like in curve fitting
+ */
+function smoothingOptions(request: TraceRequest, options: ProcessingOptions): SmoothingOptions | undefined {
+  if (!request.smoothing || request.smoothing === 'none') return undefined;
+  const strength = request.smoothingStrength ?? (request.smoothing === 'gaussian' ? options.epsilon : Math.max(1, Math.round(options.epsilon * 1.5)));
+  return {
+    method: request.smoothing,
+    strength,
+    cornerAngle: request.cornerThreshold ?? 60,
+    cornerRadius: 2 * Math.max(1, options.epsilon),
+  };
+}
+
+/**
+ * Exterior and hole rings of polygons
+ */
+function polygonRings(polygons: Polygon[]): Point[][] {
+  return polygons.flatMap(polygon => [polygon.exterior, ...polygon.holes]);
+}
+
+/**
+ * All traced polygons, monochrome and per color layer
+ */
+function allPolygons(polygons: Polygon[], colorLayers: ColorLayer[]): Polygon[] {
+  return [...polygons, ...colorLayers.flatMap(layer => layer.polygons)];
+}
+
 /**
  * Calculate processing options from fidelity and other parameters
  */
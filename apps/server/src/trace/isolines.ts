@@ -0,0 +1,175 @@
+import type { ImageData, Point } from '../../../../shared/types';
+import type { Contour } from './contour';
+import { calculateSignedArea, ringBounds, containsPoint } from './geometry';
+
+/**
+ * Sub-pixel contour extraction with marching squares
+ * Iso-contours are traced on the (blurred) grayscale image at the binarization threshold, with
+ * every vertex interpolated along the grid edge it crosses, so anti-aliased edges come out smooth
+ * instead of as pixel staircases
+ */
+
+/** Gaussian radius (px) applied to the grayscale before iso-contours are traced */
+export const ISOLINE_BLUR = 1.5;
+
+// Cell edges in clockwise order (y down): top, right, bottom, left; each runs between two corners
+// Corners: 0 = top-left, 1 = top-right, 2 = bottom-right, 3 = bottom-left
+const EDGE_CORNERS = [[0, 1], [1, 2], [2, 3], [3, 0]];
+
+/**
+ * Trace iso-contours of a grayscale image where the luminance crosses the threshold
+ * Accepts a per-pixel threshold map from adaptive mode, like binarizeImage
+ * Pixels darker than the threshold are foreground; outside the image counts as background,
+ * so contours touching the border run through the border pixel centers like traced borders do
+ * Returns contours with their holes; islands inside holes are contours of their own whose
+ * `parent` points at the enclosing contour. The optional signal is checked once per row
+ */
+export function traceIsolines(imageData: ImageData, threshold: number | Float32Array, signal?: AbortSignal): Contour[] {
+  const { width, height, data } = imageData;
+
+  // Field on a grid padded by one sample on every side: negative = foreground
+  // The level sits half a gray level below the threshold, between the lightest foreground and
+  // darkest background value, so whole-number samples never fall exactly on it
+  const stride = width + 2;
+  const rows = height + 2;
+  const field = new Float32Array(stride * rows).fill(Infinity);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+      const pixelThreshold = typeof threshold === 'number' ? threshold : threshold[i];
+      field[(y + 1) * stride + x + 1] = luminance - pixelThreshold + 0.5;
+    }
+  }
+
+  // Every crossing is a grid edge: horizontal edges from each sample to its right neighbor first,
+  // then vertical edges to the neighbor below. Segments keep the foreground on their left, so each
+  // crossing is entered from one cell and left into the other, and next[] links them into rings
+  const verticalBase = stride * rows;
+  const next = new Int32Array(verticalBase * 2).fill(-1);
+  const cellEdges = [0, 0, 0, 0];
+
+  for (let y = 0; y < rows - 1; y++) {
+    signal?.throwIfAborted();
+    for (let x = 0; x < stride - 1; x++) {
+      const corner = y * stride + x;
+      const values = [field[corner], field[corner + 1], field[corner + stride + 1], field[corner + stride]];
+      const inside = (values[0] < 0 ? 1 : 0) | (values[1] < 0 ? 2 : 0) | (values[2] < 0 ? 4 : 0) | (values[3] < 0 ? 8 : 0);
+      if (inside === 0 || inside === 15) continue;
+
+      cellEdges[0] = corner;
+      cellEdges[1] = verticalBase + corner + 1;
+      cellEdges[2] = corner + stride;
+      cellEdges[3] = verticalBase + corner;
+
+      // Saddle: the diagonal foreground corners connect through the cell when its center is foreground
+      const connected = (inside === 5 || inside === 10) && values[0] + values[1] + values[2] + values[3] < 0;
+
+      // Going clockwise, foreground starts after an entry edge and ends at an exit edge
+      const isEntry = (e: number) => !(inside & (1 << EDGE_CORNERS[e][0])) && !!(inside & (1 << EDGE_CORNERS[e][1]));
+      const isExit = (e: number) => !!(inside & (1 << EDGE_CORNERS[e][0])) && !(inside & (1 << EDGE_CORNERS[e][1]));
+      for (let e = 0; e < 4; e++) {
+        if (!isEntry(e)) continue;
+        for (let step = 1; step < 4; step++) {
+          const exit = connected ? (e + 4 - step) % 4 : (e + step) % 4;
+          if (isExit(exit)) {
+            next[cellEdges[e]] = cellEdges[exit];
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // Crossing position, interpolated from the foreground sample (outside samples are never foreground)
+  const crossing = (edge: number): Point => {
+    const vertical = edge >= verticalBase;
+    const a = vertical ? edge - verticalBase : edge;
+    const b = vertical ? a + stride : a + 1;
+    const [inner, outer] = field[a] < 0 ? [a, b] : [b, a];
+    const t = field[inner] / (field[inner] - field[outer]);
+    const x = (inner % stride) + ((outer % stride) - (inner % stride)) * t;
+    const y = Math.floor(inner / stride) + (Math.floor(outer / stride) - Math.floor(inner / stride)) * t;
+    return { x: x - 1, y: y - 1 };
+  };
+
+  // Link crossings into closed rings
+  const rings: Point[][] = [];
+  for (let start = 0; start < next.length; start++) {
+    if (next[start] === -1) continue;
+
+    const ring: Point[] = [];
+    let edge = start;
+    while (next[edge] !== -1) {
+      const point = crossing(edge);
+      const last = ring[ring.length - 1];
+      if (!last || last.x !== point.x || last.y !== point.y) ring.push(point);
+
+      const following = next[edge];
+      next[edge] = -1;
+      edge = following;
+    }
+
+    // Border pixels can put consecutive crossings on the same pixel center
+    if (ring.length > 1 && ring[0].x === ring[ring.length - 1].x && ring[0].y === ring[ring.length - 1].y) ring.pop();
+    if (ring.length >= 3) rings.push(ring);
+  }
+
+  return nestRings(rings);
+}
+
+/**
+ * Group rings into contours: counterclockwise rings (y down) bound foreground, clockwise rings
+ * are holes. Rings never cross, so a ring's enclosing ring is the smallest one containing its
+ * first point; a hole belongs to the smallest outer ring around it, an island to the smallest hole
+ */
+function nestRings(rings: Point[][]): Contour[] {
+  // Positive for counterclockwise rings in image coordinates (y down)
+  const areas = rings.map(ring => calculateSignedArea(ring));
+  const bounds = rings.map(ringBounds);
+  const outers = rings.map((_, index) => index).filter(index => areas[index] > 0);
+  const holes = rings.map((_, index) => index).filter(index => areas[index] < 0);
+
+  // Candidates by increasing size, so the first ring containing a point is the innermost
+  outers.sort((a, b) => areas[a] - areas[b]);
+  holes.sort((a, b) => areas[b] - areas[a]);
+
+  const enclosing = (index: number, candidates: number[]) => {
+    const { x, y } = rings[index][0];
+    const size = Math.abs(areas[index]);
+    return candidates.find(candidate => {
+      const box = bounds[candidate];
+      return Math.abs(areas[candidate]) > size
+        && x > box.x0 && x < box.x1 && y > box.y0 && y < box.y1
+        && containsPoint(rings[candidate], { x, y });
+    }) ?? -1;
+  };
+
+  const contourOf = new Map<number, number>();
+  const contours: Contour[] = [];
+  rings.forEach((ring, index) => {
+    if (areas[index] > 0) {
+      contourOf.set(index, contours.length);
+      contours.push({ points: ring, holes: [], isHole: false, parent: -1 });
+    }
+  });
+
+  // Outer ring around each hole, needed to resolve island parents
+  const holeOwner = new Map<number, number>();
+  for (const hole of holes) {
+    const owner = enclosing(hole, outers);
+    if (owner === -1) continue;
+    holeOwner.set(hole, owner);
+    contours[contourOf.get(owner)!].holes.push(rings[hole]);
+  }
+
+  for (const outer of outers) {
+    const hole = enclosing(outer, holes);
+    if (hole !== -1 && holeOwner.has(hole)) {
+      contours[contourOf.get(outer)!].parent = contourOf.get(holeOwner.get(hole)!)!;
+    }
+  }
+
+  console.log(`Traced ${contours.length} sub-pixel contours`);
+  return contours;
+}
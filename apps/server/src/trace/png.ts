@@ -0,0 +1,215 @@
+import { Readable } from 'stream';
+import { createInflate } from 'zlib';
+
+/**
+ * Row-by-row PNG decoding for tiled processing
+ * The image data is inflated as a stream and unfiltered one scanline at a time, so decoding holds
+ * two scanlines instead of the whole image. Rows come out as RGBA exactly as pngjs decodes them:
+ * samples scaled to 8 bits, palettes expanded, the tRNS color fully transparent
+ * Interlaced images spread every row over seven passes and cannot be read this way
+ */
+
+export interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Samples per pixel by color type: gray, RGB, palette index, gray + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Read the image size and pixel format from the IHDR chunk
+ */
+export function readPngHeader(buffer: Buffer): PngHeader {
+  if (buffer.length < 29 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Invalid file signature');
+  }
+  if (buffer.toString('ascii', 12, 16) !== 'IHDR') {
+    throw new Error('Missing IHDR chunk');
+  }
+
+  const header = {
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    bitDepth: buffer[24],
+    colorType: buffer[25],
+    interlaced: buffer[28] === 1,
+  };
+  if (![1, 2, 4, 8, 16].includes(header.bitDepth)) throw new Error(`Unsupported bit depth ${header.bitDepth}`);
+  if (!(header.colorType in CHANNELS)) throw new Error('Unsupported color type');
+  return header;
+}
+
+/**
+ * Decode a non-interlaced PNG one RGBA row at a time, top to bottom
+ * The yielded row is reused for the next one: copy what has to be kept
+ */
+export async function* readPngRows(buffer: Buffer): AsyncGenerator<Uint8Array> {
+  const header = readPngHeader(buffer);
+  if (header.interlaced) throw new Error('Interlaced PNGs cannot be decoded row by row');
+
+  const { width, height, bitDepth, colorType } = header;
+  const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+  const filterStep = Math.max(1, bitsPerPixel >> 3);
+  const lineBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const { palette, transparent, data } = readChunks(buffer, colorType);
+
+  let line = new Uint8Array(lineBytes);
+  let previous = new Uint8Array(lineBytes);
+  let filter = -1;
+  let filled = 0;
+  let y = 0;
+  const row = new Uint8Array(width * 4);
+
+  for await (const chunk of Readable.from(data).pipe(createInflate()) as AsyncIterable<Buffer>) {
+    for (let offset = 0; offset < chunk.length && y < height;) {
+      if (filter === -1) {
+        filter = chunk[offset++];
+        continue;
+      }
+
+      const count = Math.min(lineBytes - filled, chunk.length - offset);
+      line.set(chunk.subarray(offset, offset + count), filled);
+      filled += count;
+      offset += count;
+      if (filled < lineBytes) continue;
+
+      unfilter(filter, line, previous, filterStep);
+      expandRow(line, row, header, palette, transparent);
+      yield row;
+
+      [line, previous] = [previous, line];
+      filter = -1;
+      filled = 0;
+      y++;
+    }
+  }
+
+  if (y < height) throw new Error('Ran out of data');
+}
+
+// Helper functions
+
+/**
+ * Collect the palette (RGBA entries), the transparent color and the compressed image data
+ */
+function readChunks(buffer: Buffer, colorType: number): { palette: Uint8Array | null; transparent: number[] | null; data: Buffer[] } {
+  let palette: Uint8Array | null = null;
+  let transparent: number[] | null = null;
+  const data: Buffer[] = [];
+
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const content = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'PLTE') {
+      palette = new Uint8Array(Math.floor(length / 3) * 4);
+      for (let i = 0; i < palette.length / 4; i++) {
+        palette.set([content[i * 3], content[i * 3 + 1], content[i * 3 + 2], 255], i * 4);
+      }
+    } else if (type === 'tRNS') {
+      if (colorType === 3 && palette) {
+        for (let i = 0; i < Math.min(length, palette.length / 4); i++) palette[i * 4 + 3] = content[i];
+      } else if (colorType === 0) {
+        transparent = [content.readUInt16BE(0)];
+      } else if (colorType === 2) {
+        transparent = [content.readUInt16BE(0), content.readUInt16BE(2), content.readUInt16BE(4)];
+      }
+    } else if (type === 'IDAT') {
+      data.push(content);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  if (colorType === 3 && !palette) throw new Error('Palette image without PLTE chunk');
+  return { palette, transparent, data };
+}
+
+/**
+ * Undo the scanline filter in place against the previous (already unfiltered) line
+ */
+function unfilter(filter: number, line: Uint8Array, previous: Uint8Array, step: number): void {
+  switch (filter) {
+    case 0:
+      return;
+    case 1:
+      for (let i = step; i < line.length; i++) line[i] += line[i - step];
+      return;
+    case 2:
+      for (let i = 0; i < line.length; i++) line[i] += previous[i];
+      return;
+    case 3:
+      for (let i = 0; i < line.length; i++) line[i] += ((i >= step ? line[i - step] : 0) + previous[i]) >> 1;
+      return;
+    case 4:
+      for (let i = 0; i < line.length; i++) {
+        const left = i >= step ? line[i - step] : 0;
+        const upLeft = i >= step ? previous[i - step] : 0;
+        line[i] += paeth(left, previous[i], upLeft);
+      }
+      return;
+    default:
+      throw new Error(`Unrecognised filter type ${filter}`);
+  }
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Expand an unfiltered scanline into RGBA
+ */
+function expandRow(line: Uint8Array, row: Uint8Array, header: PngHeader, palette: Uint8Array | null, transparent: number[] | null): void {
+  const { width, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const max = 2 ** bitDepth - 1;
+  const sample = (index: number): number => {
+    if (bitDepth === 8) return line[index];
+    if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+    const bit = index * bitDepth;
+    return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & max;
+  };
+  const scale = (value: number) => (bitDepth === 8 ? value : Math.floor((value * 255) / max + 0.5));
+
+  for (let x = 0; x < width; x++) {
+    const pixel = x * 4;
+
+    if (colorType === 3) {
+      const entry = sample(x) * 4;
+      if (entry >= palette!.length) throw new Error(`Palette index ${entry / 4} out of range`);
+      row.set(palette!.subarray(entry, entry + 4), pixel);
+      continue;
+    }
+
+    const first = x * channels;
+    const gray = colorType === 0 || colorType === 4;
+    const r = sample(first);
+    const g = gray ? r : sample(first + 1);
+    const b = gray ? r : sample(first + 2);
+    const a = colorType === 4 ? sample(first + 1) : colorType === 6 ? sample(first + 3) : max;
+
+    if (transparent && r === transparent[0] && (gray || (g === transparent[1] && b === transparent[2]))) {
+      row.fill(0, pixel, pixel + 4);
+      continue;
+    }
+    row[pixel] = scale(r);
+    row[pixel + 1] = scale(g);
+    row[pixel + 2] = scale(b);
+    row[pixel + 3] = scale(a);
+  }
+}
@@ -0,0 +1,323 @@
+import type { Point, Polygon, Polyline, CurvePath, PathSegment, ArcSegment } from '../../../../shared/types';
+
+/**
+ * Circle and arc primitive detection
+ * Recognizes runs of simplified vertices that lie on a circle so exporters can write
+ * native CIRCLE/ARC entities that CAD users can snap to
+ */
+
+export interface PrimitiveOptions {
+  /** Maximum distance between a vertex and the fitted circle */
+  tolerance: number;
+  /** Minimum sweep (degrees) for a run of vertices to become an arc */
+  minArcAngle: number;
+}
+
+interface CircleFit {
+  center: Point;
+  radius: number;
+}
+
+// Fewest vertices accepted for a full circle and for a partial arc
+const MIN_CIRCLE_POINTS = 5;
+const MIN_ARC_POINTS = 4;
+
+const FULL_CIRCLE = Math.PI * 2;
+
+/**
+ * Detect circles and arcs on every ring of every polygon
+ * Rings without primitives keep `curves` unset so later curve fitting can still handle them
+ */
+export function detectPolygonPrimitives(polygons: Polygon[], options: PrimitiveOptions): Polygon[] {
+  return polygons.map(polygon => {
+    const exterior = detectPrimitivePath(polygon.exterior, true, options);
+    const holes = polygon.holes.map(hole => detectPrimitivePath(hole, true, options));
+
+    if (!exterior && holes.every(hole => hole === null)) {
+      return polygon;
+    }
+
+    return { ...polygon, curves: { exterior, holes } };
+  });
+}
+
+/**
+ * Detect circles and arcs along centerline polylines
+ */
+export function detectPolylinePrimitives(polylines: Polyline[], options: PrimitiveOptions): Polyline[] {
+  return polylines.map(polyline => {
+    const curve = detectPrimitivePath(polyline.points, polyline.closed, options);
+    return curve ? { ...polyline, curve } : polyline;
+  });
+}
+
+/**
+ * Describe a ring or line with arc and line segments
+ * Returns null when no circle or arc was recognized
+ */
+export function detectPrimitivePath(points: Point[], closed: boolean, options: PrimitiveOptions): CurvePath | null {
+  const ring = closed ? stripClosingPoint(points) : points;
+
+  if (closed) {
+    const circle = detectCircle(ring, options.tolerance);
+    if (circle) return circle;
+  }
+
+  if (ring.length < MIN_ARC_POINTS) return null;
+
+  // Closed rings start at their sharpest vertex so that an arc is unlikely to wrap the seam
+  const rotated = closed ? rotateToSharpestVertex(ring) : ring;
+  const sequence = closed ? [...rotated, rotated[0]] : ring;
+  const minSweep = (options.minArcAngle * Math.PI) / 180;
+  const segments: PathSegment[] = [];
+  let found = false;
+  let i = 0;
+
+  while (i < sequence.length - 1) {
+    const arc = findArc(sequence, i, options.tolerance, minSweep);
+
+    if (!arc) {
+      segments.push({ type: 'line', to: sequence[i + 1] });
+      i++;
+      continue;
+    }
+
+    segments.push(arcBetween(sequence[i], sequence[arc.last], arc.circle, Math.sign(arc.sweep)));
+    found = true;
+    i = arc.last;
+  }
+
+  return found ? { start: sequence[0], segments } : null;
+}
+
+/**
+ * Least-squares (Kasa) circle fit
+ * Returns null for collinear or degenerate input
+ */
+export function fitCircle(points: Point[]): CircleFit | null {
+  const n = points.length;
+  if (n < 3) return null;
+
+  // Center the data for numerical stability
+  const mean = points.reduce((sum, p) => ({ x: sum.x + p.x / n, y: sum.y + p.y / n }), { x: 0, y: 0 });
+
+  let suu = 0, svv = 0, suv = 0, suuu = 0, svvv = 0, suvv = 0, svuu = 0;
+  for (const point of points) {
+    const u = point.x - mean.x;
+    const v = point.y - mean.y;
+    suu += u * u;
+    svv += v * v;
+    suv += u * v;
+    suuu += u * u * u;
+    svvv += v * v * v;
+    suvv += u * v * v;
+    svuu += v * u * u;
+  }
+
+  const det = suu * svv - suv * suv;
+  if (Math.abs(det) < 1e-9 * Math.max(1, (suu + svv) * (suu + svv))) return null;
+
+  const bu = (suuu + suvv) / 2;
+  const bv = (svvv + svuu) / 2;
+  const uc = (bu * svv - bv * suv) / det;
+  const vc = (bv * suu - bu * suv) / det;
+
+  return {
+    center: { x: mean.x + uc, y: mean.y + vc },
+    radius: Math.sqrt(uc * uc + vc * vc + (suu + svv) / n),
+  };
+}
+
+/**
+ * Return the segment when a path is a single full circle
+ */
+export function asCircle(curve: CurvePath | null | undefined): ArcSegment | null {
+  if (!curve || curve.segments.length !== 1) return null;
+  const segment = curve.segments[0];
+  return segment.type === 'arc' && Math.abs(segment.sweep) >= FULL_CIRCLE - 1e-6 ? segment : null;
+}
+
+/**
+ * Return the segment when a path is a single partial arc
+ */
+export function asArc(curve: CurvePath | null | undefined): ArcSegment | null {
+  if (!curve || curve.segments.length !== 1) return null;
+  const segment = curve.segments[0];
+  return segment.type === 'arc' && Math.abs(segment.sweep) < FULL_CIRCLE - 1e-6 ? segment : null;
+}
+
+/**
+ * Count circle and arc segments across polygons and polylines (for metrics)
+ */
+export function countPrimitives(polygons: Polygon[], polylines: Polyline[] = []): number {
+  const countPath = (path: CurvePath | null | undefined) =>
+    path ? path.segments.filter(segment => segment.type === 'arc').length : 0;
+
+  return polygons.reduce((total, polygon) => {
+    if (!polygon.curves) return total;
+    return total + countPath(polygon.curves.exterior) +
+      polygon.curves.holes.reduce((holeTotal, hole) => holeTotal + countPath(hole), 0);
+  }, 0) + polylines.reduce((total, polyline) => total + countPath(polyline.curve), 0);
+}
+
+// Helper functions
+
+/**
+ * Recognize a closed ring whose vertices all lie on one circle
+ */
+function detectCircle(ring: Point[], tolerance: number): CurvePath | null {
+  if (ring.length < MIN_CIRCLE_POINTS) return null;
+
+  const circle = fitCircle(ring);
+  if (!circle || !fitsCircle(ring, circle, tolerance, true)) return null;
+
+  const sweep = totalSweep([...ring, ring[0]], circle.center);
+  if (sweep === null || Math.abs(Math.abs(sweep) - FULL_CIRCLE) > 1e-6) return null;
+
+  const angle = Math.atan2(ring[0].y - circle.center.y, ring[0].x - circle.center.x);
+  const start = {
+    x: circle.center.x + circle.radius * Math.cos(angle),
+    y: circle.center.y + circle.radius * Math.sin(angle),
+  };
+
+  return {
+    start,
+    segments: [{ type: 'arc', center: circle.center, radius: circle.radius, sweep: Math.sign(sweep) * FULL_CIRCLE, to: start }],
+  };
+}
+
+/**
+ * Extend an arc from `first` as far as the vertices stay on a circle
+ * Returns the longest accepted arc, or null
+ */
+function findArc(
+  points: Point[],
+  first: number,
+  tolerance: number,
+  minSweep: number
+): { last: number; circle: CircleFit; sweep: number } | null {
+  let best: { last: number; circle: CircleFit; sweep: number } | null = null;
+
+  for (let last = first + MIN_ARC_POINTS - 1; last < points.length; last++) {
+    const run = points.slice(first, last + 1);
+    const circle = fitCircle(run);
+    if (!circle || !fitsCircle(run, circle, tolerance, false)) break;
+
+    const sweep = totalSweep(run, circle.center);
+    if (sweep === null) break;
+
+    // Near-straight runs fit huge circles; require a visible sagitta
+    const sagitta = circle.radius * (1 - Math.cos(Math.min(Math.abs(sweep), Math.PI) / 2));
+    if (Math.abs(sweep) >= minSweep && sagitta > tolerance) {
+      best = { last, circle, sweep };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check vertices and chord midpoints against a circle
+ * Simplified circles keep chords within tolerance; polygons with long flat edges do not
+ */
+function fitsCircle(points: Point[], circle: CircleFit, tolerance: number, closed: boolean): boolean {
+  const deviation = (point: Point) =>
+    Math.abs(Math.hypot(point.x - circle.center.x, point.y - circle.center.y) - circle.radius);
+
+  if (points.some(point => deviation(point) > tolerance)) return false;
+
+  const count = closed ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (deviation({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }) > tolerance * 2) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Signed angle swept around a center, or null when the direction reverses
+ */
+function totalSweep(points: Point[], center: Point): number | null {
+  let sweep = 0;
+  let direction = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const step = angleBetween(points[i - 1], points[i], center);
+    if (step === 0) continue;
+    if (direction !== 0 && Math.sign(step) !== direction) return null;
+    direction = Math.sign(step);
+    sweep += step;
+  }
+
+  return sweep;
+}
+
+/**
+ * Build an arc segment that passes exactly through both endpoints
+ * The fitted center is moved onto the chord bisector so the arc joins its neighbors
+ */
+function arcBetween(start: Point, end: Point, circle: CircleFit, direction: number): ArcSegment {
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  const chord = Math.hypot(end.x - start.x, end.y - start.y);
+  const normal = { x: -(end.y - start.y) / chord, y: (end.x - start.x) / chord };
+  const offset = (circle.center.x - mid.x) * normal.x + (circle.center.y - mid.y) * normal.y;
+  const center = { x: mid.x + normal.x * offset, y: mid.y + normal.y * offset };
+
+  // Arcs beyond a half circle go the long way round
+  let sweep = angleBetween(start, end, center);
+  if (Math.sign(sweep) !== direction) {
+    sweep += direction * FULL_CIRCLE;
+  }
+
+  return {
+    type: 'arc',
+    center,
+    radius: Math.hypot(start.x - center.x, start.y - center.y),
+    sweep,
+    to: end,
+  };
+}
+
+function angleBetween(from: Point, to: Point, center: Point): number {
+  const a = Math.atan2(from.y - center.y, from.x - center.x);
+  const b = Math.atan2(to.y - center.y, to.x - center.x);
+  let step = b - a;
+  if (step > Math.PI) step -= FULL_CIRCLE;
+  if (step < -Math.PI) step += FULL_CIRCLE;
+  return step;
+}
+
+function rotateToSharpestVertex(ring: Point[]): Point[] {
+  const n = ring.length;
+  let sharpest = 0;
+  let sharpestAngle = -1;
+
+  for (let i = 0; i < n; i++) {
+    const previous = ring[(i - 1 + n) % n];
+    const next = ring[(i + 1) % n];
+    const ax = ring[i].x - previous.x;
+    const ay = ring[i].y - previous.y;
+    const bx = next.x - ring[i].x;
+    const by = next.y - ring[i].y;
+    const angle = Math.abs(Math.atan2(ax * by - ay * bx, ax * bx + ay * by));
+
+    if (angle > sharpestAngle) {
+      sharpestAngle = angle;
+      sharpest = i;
+    }
+  }
+
+  return [...ring.slice(sharpest), ...ring.slice(0, sharpest)];
+}
+
+function stripClosingPoint(points: Point[]): Point[] {
+  if (points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.abs(first.x - last.x) < 0.001 && Math.abs(first.y - last.y) < 0.001) {
+    return points.slice(0, -1);
+  }
+  return points;
+}
@@ -1,10 +1,80 @@
-import type { ImageData } from '../../../../shared/types';
+import type { ImageData, Bitmap, ThresholdMode, AdaptiveMethod, AlphaMode } from '../../../../shared/types';
+
+export interface AlphaOptions {
+  /** How transparent pixels are handled */
+  mode: AlphaMode;
+  /** Background color as [r, g, b] */
+  background?: [number, number, number];
+  /** Alpha below which pixels are background in cutoff mode */
+  cutoff?: number;
+}
+
+export interface ThresholdOptions {
+  /** How the threshold is chosen */
+  mode: ThresholdMode;
+  /** Global threshold for fixed mode */
+  value?: number;
+  /** Local statistic used in adaptive mode */
+  method?: AdaptiveMethod;
+  /** Side length (px) of the local window in adaptive mode */
+  windowSize?: number;
+  /** Sensitivity factor; defaults to 0.2 for Sauvola and -0.2 for Niblack */
+  k?: number;
+}
+
+// Dynamic range of the standard deviation in Sauvola's formula (8-bit images)
+const SAUVOLA_RANGE = 128;
 
 /**
  * Raster processing utilities for deterministic image preprocessing
  * All operations are fully deterministic and reproducible
  */
 
+/**
+ * Resolve transparency into an opaque image
+ * Transparent PNGs often hide black RGB under alpha 0, which would otherwise trace as solid black
+ */
+export function applyAlpha(imageData: ImageData, options: AlphaOptions): ImageData {
+  const { width, height, data } = imageData;
+  const [backgroundR, backgroundG, backgroundB] = options.background || [255, 255, 255];
+  const cutoff = options.cutoff ?? 128;
+  const opaqueData = new Uint8Array(width * height * 4);
+  
+  for (let i = 0; i < width * height; i++) {
+    const pixelIndex = i * 4;
+    const alpha = data[pixelIndex + 3];
+    let r = data[pixelIndex];
+    let g = data[pixelIndex + 1];
+    let b = data[pixelIndex + 2];
+    
+    if (options.mode === 'mask') {
+      // Opaque pixels become dark foreground; partial alpha maps to gray for thresholding
+      r = g = b = 255 - alpha;
+    } else if (options.mode === 'cutoff') {
+      if (alpha < cutoff) {
+        r = backgroundR;
+        g = backgroundG;
+        b = backgroundB;
+      }
+    } else if (alpha < 255) {
+      r = Math.round((r * alpha + backgroundR * (255 - alpha)) / 255);
+      g = Math.round((g * alpha + backgroundG * (255 - alpha)) / 255);
+      b = Math.round((b * alpha + backgroundB * (255 - alpha)) / 255);
+    }
+    
+    opaqueData[pixelIndex] = r;
+    opaqueData[pixelIndex + 1] = g;
+    opaqueData[pixelIndex + 2] = b;
+    opaqueData[pixelIndex + 3] = 255;
+  }
+  
+  return {
+    width,
+    height,
+    data: opaqueData,
+  };
+}
+
 /**
  * Convert RGBA image to grayscale using luminance formula
  */
@@ -107,11 +177,12 @@ export function gaussianBlur(imageData: ImageData, radius: number = 1): ImageDat
 
 /**
  * Binarize image using threshold
- * Converts to pure black/white based on luminance
+ * Splits pixels by luminance into a one-byte-per-pixel bitmap (1 = foreground, darker than the threshold);
+ * accepts a per-pixel threshold map from adaptive mode
  */
-export function binarizeImage(imageData: ImageData, threshold: number = 128): ImageData {
+export function binarizeImage(imageData: ImageData, threshold: number | Float32Array = 128): Bitmap {
   const { width, height, data } = imageData;
-  const binaryData = new Uint8Array(width * height * 4);
+  const binaryData = new Uint8Array(width * height);
   
   for (let i = 0; i < width * height; i++) {
     const pixelIndex = i * 4;
@@ -123,12 +194,8 @@ export function binarizeImage(imageData: ImageData, threshold: number = 128): Im
     const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
     
     // Apply threshold
-    const binaryValue = luminance >= threshold ? 255 : 0;
-    
-    binaryData[pixelIndex] = binaryValue;     // R
-    binaryData[pixelIndex + 1] = binaryValue; // G
-    binaryData[pixelIndex + 2] = binaryValue; // B
-    binaryData[pixelIndex + 3] = 255;         // A (fully opaque)
+    const pixelThreshold = typeof threshold === 'number' ? threshold : threshold[i];
+    binaryData[i] = luminance >= pixelThreshold ? 0 : 1;
   }
   
   return {
@@ -138,12 +205,164 @@ export function binarizeImage(imageData: ImageData, threshold: number = 128): Im
   };
 }
 
+/**
+ * Resolve the binarization threshold for an image
+ * Returns a single value for fixed and Otsu modes, a per-pixel map for adaptive mode
+ */
+export function computeThreshold(imageData: ImageData, options: ThresholdOptions): number | Float32Array {
+  switch (options.mode) {
+    case 'otsu':
+      return otsuThreshold(imageData);
+    case 'adaptive':
+      return adaptiveThreshold(imageData, options.method || 'sauvola', options.windowSize || 25, options.k);
+    default:
+      return options.value ?? 128;
+  }
+}
+
+/**
+ * Otsu's method: the global threshold that maximizes between-class variance of the luminance histogram
+ */
+export function otsuThreshold(imageData: ImageData): number {
+  return otsuFromHistogram(luminanceHistogram(imageData));
+}
+
+/**
+ * Count pixels per luminance value (0-255)
+ * Pass an existing histogram to accumulate several images, e.g. the tiles of a large scan
+ */
+export function luminanceHistogram(imageData: ImageData, histogram: number[] = new Array<number>(256).fill(0)): number[] {
+  const { width, height, data } = imageData;
+  const total = width * height;
+  
+  for (let i = 0; i < total; i++) {
+    const pixelIndex = i * 4;
+    histogram[luminanceAt(data, pixelIndex)]++;
+  }
+  
+  return histogram;
+}
+
+/**
+ * Otsu's threshold of a luminance histogram
+ */
+export function otsuFromHistogram(histogram: number[]): number {
+  let total = 0;
+  let sumAll = 0;
+  for (let value = 0; value < 256; value++) {
+    total += histogram[value];
+    sumAll += value * histogram[value];
+  }
+  
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let bestFirst = 127;
+  let bestLast = 127;
+  
+  for (let value = 0; value < 256; value++) {
+    weightBackground += histogram[value];
+    if (weightBackground === 0) continue;
+    
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    
+    sumBackground += value * histogram[value];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestFirst = bestLast = value;
+    } else if (variance === bestVariance) {
+      bestLast = value; // Empty histogram gaps tie; split in the middle of the gap
+    }
+  }
+  
+  // Pixels at or below the split value become foreground
+  return Math.round((bestFirst + bestLast) / 2) + 1;
+}
+
+/**
+ * Local thresholds from the mean and standard deviation of a window around every pixel
+ * - sauvola: T = m * (1 + k * (s / R - 1)), robust on clean paper with shadows
+ * - niblack: T = m + k * s, more sensitive to faint strokes but noisier on empty areas
+ * Window sums come from integral images, so cost is independent of the window size
+ */
+export function adaptiveThreshold(
+  imageData: ImageData,
+  method: AdaptiveMethod = 'sauvola',
+  windowSize: number = 25,
+  k: number = method === 'sauvola' ? 0.2 : -0.2
+): Float32Array {
+  const { width, height, data } = imageData;
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  const integralSquared = new Float64Array(stride * (height + 1));
+  
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSumSquared = 0;
+    for (let x = 0; x < width; x++) {
+      const value = luminanceAt(data, (y * width + x) * 4);
+      rowSum += value;
+      rowSumSquared += value * value;
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+      integralSquared[(y + 1) * stride + x + 1] = integralSquared[y * stride + x + 1] + rowSumSquared;
+    }
+  }
+  
+  const half = Math.floor(windowSize / 2);
+  const thresholds = new Float32Array(width * height);
+  
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const sumSquared = integralSquared[y1 * stride + x1] - integralSquared[y0 * stride + x1] -
+        integralSquared[y1 * stride + x0] + integralSquared[y0 * stride + x0];
+      
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, sumSquared / count - mean * mean));
+      
+      const threshold = method === 'sauvola'
+        ? mean * (1 + k * (deviation / SAUVOLA_RANGE - 1))
+        : mean + k * deviation;
+      
+      // Keep solid black areas black and solid white areas white
+      thresholds[y * width + x] = Math.max(1, Math.min(255, threshold));
+    }
+  }
+  
+  return thresholds;
+}
+
+/**
+ * Summarize a threshold for reporting (mean of the map in adaptive mode)
+ */
+export function summarizeThreshold(threshold: number | Float32Array): number {
+  if (typeof threshold === 'number') return threshold;
+  
+  let sum = 0;
+  for (let i = 0; i < threshold.length; i++) {
+    sum += threshold[i];
+  }
+  return threshold.length > 0 ? Math.round(sum / threshold.length) : 128;
+}
+
 /**
  * Apply morphological operations for cleanup
  * Performs closing (dilation + erosion) to fill small gaps
  */
-export function morphologyCleanup(imageData: ImageData, iterations: number = 1): ImageData {
-  let result = imageData;
+export function morphologyCleanup(bitmap: Bitmap, iterations: number = 1): Bitmap {
+  let result = bitmap;
   
   // Apply closing operation (dilation followed by erosion)
   for (let i = 0; i < iterations; i++) {
@@ -156,27 +375,29 @@ export function morphologyCleanup(imageData: ImageData, iterations: number = 1):
 
 /**
  * Remove small speckles/noise based on connected component area
+ * The optional signal is checked once per row
+ * With keepEdges, components touching the image border are kept whatever their size: in a tile
+ * of a larger image they may continue beyond it
  */
-export function removeSpeckles(imageData: ImageData, minArea: number): ImageData {
-  const { width, height, data } = imageData;
-  const visited = new Array(width * height).fill(false);
+export function removeSpeckles(bitmap: Bitmap, minArea: number, signal?: AbortSignal, options: { keepEdges?: boolean } = {}): Bitmap {
+  const { width, height, data } = bitmap;
+  const visited = new Uint8Array(width * height);
+  const component = new Int32Array(width * height);
   const cleanedData = new Uint8Array(data);
   
   // Find and remove small connected components
   for (let y = 0; y < height; y++) {
+    signal?.throwIfAborted();
     for (let x = 0; x < width; x++) {
       const index = y * width + x;
-      const pixelIndex = index * 4;
       
-      if (!visited[index] && data[pixelIndex] === 0) { // Black pixel (foreground)
-        const component = floodFill(imageData, x, y, visited);
+      if (!visited[index] && data[index]) { // Foreground pixel
+        const size = floodFill(bitmap, index, visited, component);
         
-        if (component.length < minArea) {
-          // Remove small component by setting to white
-          for (const pixelIdx of component) {
-            cleanedData[pixelIdx * 4] = 255;     // R
-            cleanedData[pixelIdx * 4 + 1] = 255; // G
-            cleanedData[pixelIdx * 4 + 2] = 255; // B
+        if (size < minArea && !(options.keepEdges && touchesBorder(component, size, width, height))) {
+          // Remove small component by clearing it to background
+          for (let i = 0; i < size; i++) {
+            cleanedData[component[i]] = 0;
           }
         }
       }
@@ -190,28 +411,12 @@ export function removeSpeckles(imageData: ImageData, minArea: number): ImageData
   };
 }
 
-/**
- * Preprocess raster image with standard pipeline
- */
-export function preprocessRaster(imageData: ImageData, options: { blur?: number; threshold?: number } = {}): ImageData {
-  let processed = imageData;
-  
-  // Convert to grayscale
-  processed = toGrayscale(processed);
-  
-  // Apply slight blur to reduce noise
-  if (options.blur && options.blur > 0) {
-    processed = gaussianBlur(processed, options.blur);
-  }
-  
-  // Binarize
-  processed = binarizeImage(processed, options.threshold || 128);
-  
-  return processed;
-}
-
 // Helper functions
 
+function luminanceAt(data: Uint8Array, pixelIndex: number): number {
+  return Math.round(0.299 * data[pixelIndex] + 0.587 * data[pixelIndex + 1] + 0.114 * data[pixelIndex + 2]);
+}
+
 function generateGaussianKernel(radius: number): number[] {
   const size = Math.ceil(radius * 2) * 2 + 1; // Ensure odd size
   const kernel = new Array(size);
@@ -235,9 +440,9 @@ function generateGaussianKernel(radius: number): number[] {
   return kernel;
 }
 
-function morphologyDilation(imageData: ImageData): ImageData {
-  const { width, height, data } = imageData;
-  const dilatedData = new Uint8Array(width * height * 4);
+function morphologyDilation(bitmap: Bitmap): Bitmap {
+  const { width, height, data } = bitmap;
+  const dilatedData = new Uint8Array(width * height);
   
   // 3x3 structuring element
   const kernel = [
@@ -248,7 +453,7 @@ function morphologyDilation(imageData: ImageData): ImageData {
   
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      let minValue = 255;
+      let maxValue = 0;
       
       // Check all kernel positions
       for (const [dy, dx] of kernel) {
@@ -256,25 +461,20 @@ function morphologyDilation(imageData: ImageData): ImageData {
         const nx = x + dx;
         
         if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
-          const sampleIndex = (ny * width + nx) * 4;
-          minValue = Math.min(minValue, data[sampleIndex]);
+          maxValue = Math.max(maxValue, data[ny * width + nx]);
         }
       }
       
-      const pixelIndex = (y * width + x) * 4;
-      dilatedData[pixelIndex] = minValue;
-      dilatedData[pixelIndex + 1] = minValue;
-      dilatedData[pixelIndex + 2] = minValue;
-      dilatedData[pixelIndex + 3] = 255;
+      dilatedData[y * width + x] = maxValue;
     }
   }
   
   return { width, height, data: dilatedData };
 }
 
-function morphologyErosion(imageData: ImageData): ImageData {
-  const { width, height, data } = imageData;
-  const erodedData = new Uint8Array(width * height * 4);
+function morphologyErosion(bitmap: Bitmap): Bitmap {
+  const { width, height, data } = bitmap;
+  const erodedData = new Uint8Array(width * height);
   
   // 3x3 structuring element
   const kernel = [
@@ -285,7 +485,7 @@ function morphologyErosion(imageData: ImageData): ImageData {
   
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      let maxValue = 0;
+      let minValue = 1;
       
       // Check all kernel positions
       for (const [dy, dx] of kernel) {
@@ -293,46 +493,61 @@ function morphologyErosion(imageData: ImageData): ImageData {
         const nx = x + dx;
         
         if (ny >= 0 && ny < height && nx >= 0 && nx < width) {
-          const sampleIndex = (ny * width + nx) * 4;
-          maxValue = Math.max(maxValue, data[sampleIndex]);
+          minValue = Math.min(minValue, data[ny * width + nx]);
         }
       }
       
-      const pixelIndex = (y * width + x) * 4;
-      erodedData[pixelIndex] = maxValue;
-      erodedData[pixelIndex + 1] = maxValue;
-      erodedData[pixelIndex + 2] = maxValue;
-      erodedData[pixelIndex + 3] = 255;
+      erodedData[y * width + x] = minValue;
     }
   }
   
   return { width, height, data: erodedData };
 }
 
-function floodFill(imageData: ImageData, startX: number, startY: number, visited: boolean[]): number[] {
-  const { width, height, data } = imageData;
-  const component: number[] = [];
-  const stack: [number, number][] = [[startX, startY]];
+function touchesBorder(component: Int32Array, size: number, width: number, height: number): boolean {
+  for (let i = 0; i < size; i++) {
+    const x = component[i] % width;
+    const y = Math.floor(component[i] / width);
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) return true;
+  }
+  return false;
+}
+
+/**
+ * Collect the 4-connected foreground component of `start` into `component`, returning its size
+ * Pixels are marked when queued, so each enters the queue once and the queue doubles as the result
+ */
+function floodFill(bitmap: Bitmap, start: number, visited: Uint8Array, component: Int32Array): number {
+  const { width, height, data } = bitmap;
+  let head = 0;
+  let size = 0;
+  
+  visited[start] = 1;
+  component[size++] = start;
   
-  while (stack.length > 0) {
-    const [x, y] = stack.pop()!;
-    const index = y * width + x;
+  while (head < size) {
+    const index = component[head++];
+    const x = index % width;
+    const y = (index - x) / width;
     
-    if (x < 0 || x >= width || y < 0 || y >= height || visited[index]) {
-      continue;
+    // Add 4-connected neighbors
+    if (x + 1 < width && !visited[index + 1] && data[index + 1]) {
+      visited[index + 1] = 1;
+      component[size++] = index + 1;
     }
-    
-    const pixelIndex = index * 4;
-    if (data[pixelIndex] !== 0) { // Not black (foreground)
-      continue;
+    if (x > 0 && !visited[index - 1] && data[index - 1]) {
+      visited[index - 1] = 1;
+      component[size++] = index - 1;
+    }
+    if (y + 1 < height && !visited[index + width] && data[index + width]) {
+      visited[index + width] = 1;
+      component[size++] = index + width;
+    }
+    if (y > 0 && !visited[index - width] && data[index - width]) {
+      visited[index - width] = 1;
+      component[size++] = index - width;
     }
-    
-    visited[index] = true;
-    component.push(index);
-    
-    // Add 4-connected neighbors
-    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
   }
   
-  return component;
-}
\ No newline at end of file
+  return size;
+}
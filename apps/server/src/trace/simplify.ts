@@ -0,0 +1,478 @@
+import type { Point, Polygon, Polyline } from '../../../../shared/types';
+import { containsPoint } from './geometry';
+import { cellKey, nearbyCells, forEachCell } from './grid';
+
+/**
+ * Simplification beyond ring-by-ring Douglas-Peucker (see contour.ts)
+ * - Topology-preserving: every ring is simplified with Douglas-Peucker first; simplified edges that
+ *   cross another edge (of the same ring, a hole or a neighbouring polygon) or pass another ring's
+ *   vertex over to its other side then get their farthest original vertex back, pass after pass,
+ *   until none does. Original edges never conflict, so the refinement ends at the latest with the
+ *   traced rings
+ * - Visvalingam-Whyatt: vertices are removed smallest first by the area of the triangle they form
+ *   with their neighbours, either down to an area threshold or, for a node budget, globally across
+ *   all polygons and polylines until the budget is met
+ */
+
+/**
+ * One ring being simplified: its original points and the indices of the points kept so far
+ */
+interface SimplifiedRing {
+  points: Point[];
+  /** Indices into points, increasing */
+  kept: number[];
+  /** Obstacle rings keep every point and are never refined */
+  fixed: boolean;
+}
+
+/**
+ * Simplified edge between two kept points; `end` may run past the last point (wrapping to the first)
+ */
+interface Edge {
+  ring: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Simplify the rings of all polygons together, keeping every point within `epsilon` (px) of the
+ * simplified ring like Douglas-Peucker, without creating crossings between any two rings or
+ * changing which side of a ring the others lie on
+ * `obstacles` are polygons simplified earlier that the result must not cross; they are not changed
+ */
+export function simplifyPreservingTopology(polygons: Polygon[], epsilon: number, obstacles: Polygon[] = []): Polygon[] {
+  const sqEpsilon = epsilon * epsilon;
+  const rings: SimplifiedRing[] = [];
+  const layout = polygons.map(polygon => [polygon.exterior, ...polygon.holes].map(ring => {
+    const points = openRing(ring);
+    rings.push({ points, kept: initialKept(points, sqEpsilon), fixed: false });
+    return rings.length - 1;
+  }));
+  for (const obstacle of obstacles) {
+    for (const ring of [obstacle.exterior, ...obstacle.holes]) {
+      const points = openRing(ring);
+      rings.push({ points, kept: points.map((_, index) => index), fixed: true });
+    }
+  }
+
+  const cellSize = Math.max(4, 2 * epsilon);
+  let passes = 0;
+  let restored = 0;
+  while (true) {
+    passes++;
+    const grid = buildGrid(rings, cellSize);
+    const additions = rings.map(() => [] as number[]);
+
+    rings.forEach((ring, index) => {
+      if (ring.fixed || ring.kept.length < 3) return;
+      const count = ring.points.length;
+      ring.kept.forEach((start, k) => {
+        const end = k + 1 < ring.kept.length ? ring.kept[k + 1] : ring.kept[0] + count;
+        if (end - start > 1 && hasConflict(rings, grid, { ring: index, start, end })) {
+          additions[index].push(...refineEdge(ring.points, start, end, sqEpsilon));
+        }
+      });
+    });
+
+    const added = additions.reduce((total, indices) => total + indices.length, 0);
+    if (added === 0) break;
+    restored += added;
+    additions.forEach((indices, index) => {
+      if (indices.length > 0) {
+        rings[index].kept = [...new Set([...rings[index].kept, ...indices])].sort((a, b) => a - b);
+      }
+    });
+  }
+
+  console.log(`Topology-preserving simplification restored ${restored} vertices in ${passes} passes`);
+  return layout.map(([exterior, ...holes]) => ({
+    exterior: keptPoints(rings[exterior]),
+    holes: holes.map(hole => keptPoints(rings[hole])),
+  }));
+}
+
+/**
+ * Nodes left after limitNodes, per polygon group (monochrome polygons, color layers) and polylines
+ */
+export interface NodeBudgetResult {
+  groups: Polygon[][];
+  polylines: Polyline[];
+  /** Nodes left, counted like the trace metrics (closed rings repeat their first point) */
+  nodeCount: number;
+  /** Farthest a removed vertex lies from the simplified outline or line (px) */
+  maxDeviation: number;
+}
+
+/**
+ * Visvalingam-Whyatt simplification of polygon rings: vertices whose triangle with their
+ * neighbours is smaller than epsilon² (px²) are removed; rings keep at least 3 vertices
+ */
+export function simplifyVisvalingam(polygons: Polygon[], epsilon: number): Polygon[] {
+  const chains = polygonChains(polygons);
+  const areaMin = epsilon * epsilon;
+  eliminate(chains, area => area < areaMin);
+  return rebuildPolygons(polygons, chains);
+}
+
+/**
+ * Visvalingam-Whyatt simplification of polylines; endpoints are always kept so that lines still
+ * meet at junctions
+ */
+export function simplifyPolylinesVisvalingam(polylines: Polyline[], epsilon: number): Polyline[] {
+  const chains = polylines.map(polyline => createChain(polyline.points, false));
+  const areaMin = epsilon * epsilon;
+  eliminate(chains, area => area < areaMin);
+  return polylines.map((polyline, index) => ({ ...polyline, points: keptChainPoints(chains[index]) }));
+}
+
+/**
+ * Remove the least significant vertices (smallest Visvalingam area) across all polygons and
+ * polylines together until at most `maxNodes` remain
+ * Rings keep at least 3 vertices and polylines their endpoints, so a budget below that is missed
+ */
+export function limitNodes(groups: Polygon[][], polylines: Polyline[], maxNodes: number): NodeBudgetResult {
+  const groupChains = groups.map(polygonChains);
+  const lineChains = polylines.map(polyline => createChain(polyline.points, false));
+  const chains = [...groupChains.flat(), ...lineChains];
+
+  const initialCount = chains.reduce((total, chain) => total + chain.points.length + (chain.repeatsFirst ? 1 : 0), 0);
+  const removed = eliminate(chains, (_, removedCount) => initialCount - removedCount > maxNodes);
+  const nodeCount = initialCount - removed;
+  const maxDeviation = chains.reduce((deviation, chain) => Math.max(deviation, chainDeviation(chain)), 0);
+
+  if (nodeCount > maxNodes) {
+    console.warn(`Node budget of ${maxNodes} not reached: every ring and line is already at its minimum`);
+  }
+  console.log(`Node budget: removed ${removed} of ${initialCount} nodes, max deviation ${maxDeviation.toFixed(2)}px`);
+  return {
+    groups: groups.map((polygons, index) => rebuildPolygons(polygons, groupChains[index])),
+    polylines: polylines.map((polyline, index) => ({ ...polyline, points: keptChainPoints(lineChains[index]) })),
+    nodeCount,
+    maxDeviation,
+  };
+}
+
+// Helper functions
+
+function openRing(ring: Point[]): Point[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first.x === last.x && first.y === last.y ? ring.slice(0, -1) : ring;
+}
+
+function keptPoints(ring: SimplifiedRing): Point[] {
+  return ring.kept.map(index => ring.points[index]);
+}
+
+/**
+ * Douglas-Peucker on a closed ring, anchored at its first point and the point farthest from it
+ */
+function initialKept(points: Point[], sqEpsilon: number): number[] {
+  if (points.length <= 3) return points.map((_, index) => index);
+
+  let far = 0;
+  let farDistance = -1;
+  points.forEach((point, index) => {
+    const distance = (point.x - points[0].x) ** 2 + (point.y - points[0].y) ** 2;
+    if (distance > farDistance) {
+      far = index;
+      farDistance = distance;
+    }
+  });
+
+  const kept = [0, far, ...douglasPeucker(points, 0, far, sqEpsilon), ...douglasPeucker(points, far, points.length, sqEpsilon)];
+  return [...new Set(kept)].sort((a, b) => a - b);
+}
+
+/**
+ * Indices (modulo the ring length) Douglas-Peucker keeps strictly between two kept points
+ */
+function douglasPeucker(points: Point[], start: number, end: number, sqEpsilon: number): number[] {
+  const kept: number[] = [];
+  const stack = [[start, end]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const [index, sqDistance] = farthestPoint(points, first, last);
+    if (index !== -1 && sqDistance > sqEpsilon) {
+      kept.push(index % points.length);
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Split a conflicting edge at its farthest original point, then simplify both halves again
+ */
+function refineEdge(points: Point[], start: number, end: number, sqEpsilon: number): number[] {
+  const [index] = farthestPoint(points, start, end);
+  return [index % points.length, ...douglasPeucker(points, start, index, sqEpsilon), ...douglasPeucker(points, index, end, sqEpsilon)];
+}
+
+/**
+ * Point between two indices (exclusive) farthest from the segment joining them, with its squared distance
+ */
+function farthestPoint(points: Point[], start: number, end: number): [number, number] {
+  const count = points.length;
+  const a = points[start % count];
+  const b = points[end % count];
+  let index = -1;
+  let sqDistance = -1;
+  for (let i = start + 1; i < end; i++) {
+    const distance = sqSegmentDistance(points[i % count], a, b);
+    if (distance > sqDistance) {
+      index = i;
+      sqDistance = distance;
+    }
+  }
+  return [index, sqDistance];
+}
+
+function sqSegmentDistance(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const sqLength = dx * dx + dy * dy;
+  const t = sqLength > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / sqLength)) : 0;
+  return (point.x - a.x - t * dx) ** 2 + (point.y - a.y - t * dy) ** 2;
+}
+
+/**
+ * Uniform grid of the current edges and kept points, keyed by cell
+ */
+interface Grid {
+  cellSize: number;
+  edges: Map<number, Edge[]>;
+  vertices: Map<number, { ring: number; index: number }[]>;
+}
+
+function buildGrid(rings: SimplifiedRing[], cellSize: number): Grid {
+  const grid: Grid = { cellSize, edges: new Map(), vertices: new Map() };
+  const add = <T>(cells: Map<number, T[]>, key: number, value: T) => {
+    const entries = cells.get(key);
+    if (entries) entries.push(value);
+    else cells.set(key, [value]);
+  };
+
+  rings.forEach((ring, index) => {
+    if (ring.kept.length < 3) return; // Collapsed rings are dropped during validation
+    const count = ring.points.length;
+    ring.kept.forEach((start, k) => {
+      const end = k + 1 < ring.kept.length ? ring.kept[k + 1] : ring.kept[0] + count;
+      const edge = { ring: index, start, end };
+      forEachCell(ring.points[start], ring.points[end % count], cellSize, key => add(grid.edges, key, edge));
+      add(grid.vertices, cellKey(ring.points[start], cellSize), { ring: index, index: start });
+    });
+  });
+
+  return grid;
+}
+
+/**
+ * Whether a simplified edge crosses another edge, or the area between it and the original points
+ * it replaces holds a kept point of any ring (which would end up on the wrong side of the edge)
+ * That area lies within epsilon of the edge, which the cells around the edge cover
+ */
+function hasConflict(rings: SimplifiedRing[], grid: Grid, edge: Edge): boolean {
+  const { points } = rings[edge.ring];
+  const count = points.length;
+  const a = points[edge.start];
+  const b = points[edge.end % count];
+  const isEndpoint = (ring: number, index: number) =>
+    ring === edge.ring && (index % count === edge.start || index % count === edge.end % count);
+
+  const cells = nearbyCells(a, b, grid.cellSize);
+
+  for (const key of cells) {
+    for (const other of grid.edges.get(key) || []) {
+      if (isEndpoint(other.ring, other.start) || isEndpoint(other.ring, other.end)) continue;
+      const otherPoints = rings[other.ring].points;
+      if (segmentsCross(a, b, otherPoints[other.start], otherPoints[other.end % otherPoints.length])) return true;
+    }
+  }
+
+  const chain: Point[] = [];
+  const box = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+  for (let i = edge.start; i <= edge.end; i++) {
+    const point = points[i % count];
+    chain.push(point);
+    box.x0 = Math.min(box.x0, point.x);
+    box.y0 = Math.min(box.y0, point.y);
+    box.x1 = Math.max(box.x1, point.x);
+    box.y1 = Math.max(box.y1, point.y);
+  }
+  for (const key of cells) {
+    for (const vertex of grid.vertices.get(key) || []) {
+      const point = rings[vertex.ring].points[vertex.index];
+      if (point.x <= box.x0 || point.x >= box.x1 || point.y <= box.y0 || point.y >= box.y1) continue;
+      if (!isEndpoint(vertex.ring, vertex.index) && containsPoint(chain, point)) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Proper crossing of two segments; touching and collinear overlaps do not count
+ */
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const orient = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return orient(a, b, c) * orient(a, b, d) < 0 && orient(c, d, a) * orient(c, d, b) < 0;
+}
+
+/**
+ * Ring or line for Visvalingam-Whyatt elimination
+ */
+interface Chain {
+  /** Points without a repeated first point */
+  points: Point[];
+  /** Closed rings keep at least 3 vertices; open lines keep their endpoints */
+  closed: boolean;
+  /** Whether the source ring repeated its first point at the end (restored when rebuilt) */
+  repeatsFirst: boolean;
+  /** 1 for points still kept */
+  kept: Uint8Array;
+}
+
+function createChain(points: Point[], closed: boolean): Chain {
+  const open = closed ? openRing(points) : points;
+  return { points: open, closed, repeatsFirst: open.length < points.length, kept: new Uint8Array(open.length).fill(1) };
+}
+
+function polygonChains(polygons: Polygon[]): Chain[] {
+  return polygons.flatMap(polygon => [polygon.exterior, ...polygon.holes].map(ring => createChain(ring, true)));
+}
+
+function rebuildPolygons(polygons: Polygon[], chains: Chain[]): Polygon[] {
+  let next = 0;
+  return polygons.map(polygon => ({
+    ...polygon,
+    exterior: keptChainPoints(chains[next++]),
+    holes: polygon.holes.map(() => keptChainPoints(chains[next++])),
+  }));
+}
+
+function keptChainPoints(chain: Chain): Point[] {
+  const points = chain.points.filter((_, index) => chain.kept[index]);
+  return chain.repeatsFirst && points.length > 0 ? [...points, points[0]] : points;
+}
+
+/**
+ * Visvalingam-Whyatt elimination across all chains at once: the vertex with the smallest effective
+ * area goes first, for as long as `proceed` allows (given that area and the count removed so far)
+ * A neighbour's new area never drops below the area just removed, so areas only grow
+ * Returns the number of vertices removed
+ */
+function eliminate(chains: Chain[], proceed: (area: number, removed: number) => boolean): number {
+  const heap = new VertexHeap();
+  const states = chains.map((chain, index) => {
+    const count = chain.points.length;
+    const previous = new Int32Array(count);
+    const next = new Int32Array(count);
+    for (let i = 0; i < count; i++) {
+      previous[i] = i > 0 ? i - 1 : chain.closed ? count - 1 : -1;
+      next[i] = i < count - 1 ? i + 1 : chain.closed ? 0 : -1;
+    }
+    const state = { previous, next, areas: new Float64Array(count), remaining: count, minimum: chain.closed ? 3 : 2 };
+    if (count > state.minimum) {
+      for (let i = 0; i < count; i++) {
+        if (previous[i] === -1 || next[i] === -1) continue;
+        state.areas[i] = triangleArea(chain.points[previous[i]], chain.points[i], chain.points[next[i]]);
+        heap.push({ area: state.areas[i], chain: index, index: i });
+      }
+    }
+    return state;
+  });
+
+  let removed = 0;
+  while (heap.size > 0) {
+    const entry = heap.pop();
+    const chain = chains[entry.chain];
+    const state = states[entry.chain];
+    if (!chain.kept[entry.index] || entry.area !== state.areas[entry.index]) continue; // Stale entry
+    if (state.remaining <= state.minimum) continue;
+    if (!proceed(entry.area, removed)) break;
+
+    chain.kept[entry.index] = 0;
+    state.remaining--;
+    removed++;
+    const previous = state.previous[entry.index];
+    const next = state.next[entry.index];
+    state.next[previous] = next;
+    state.previous[next] = previous;
+
+    for (const neighbour of [previous, next]) {
+      const before = state.previous[neighbour];
+      const after = state.next[neighbour];
+      if (before === -1 || after === -1) continue;
+      const area = Math.max(entry.area, triangleArea(chain.points[before], chain.points[neighbour], chain.points[after]));
+      state.areas[neighbour] = area;
+      heap.push({ area, chain: entry.chain, index: neighbour });
+    }
+  }
+
+  return removed;
+}
+
+function triangleArea(a: Point, b: Point, c: Point): number {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+}
+
+/**
+ * Farthest distance of a removed point from the kept edge that replaced it
+ */
+function chainDeviation(chain: Chain): number {
+  const kept = chain.points.map((_, index) => index).filter(index => chain.kept[index]);
+  const count = chain.points.length;
+  let sqDeviation = 0;
+  kept.forEach((start, k) => {
+    if (k === kept.length - 1 && !chain.closed) return;
+    const end = k + 1 < kept.length ? kept[k + 1] : kept[0] + count;
+    const [, sqDistance] = farthestPoint(chain.points, start, end);
+    sqDeviation = Math.max(sqDeviation, sqDistance);
+  });
+  return Math.sqrt(sqDeviation);
+}
+
+/**
+ * Binary min-heap of vertices by area; entries made stale by later updates are left in place
+ * and skipped when popped
+ */
+class VertexHeap {
+  private entries: { area: number; chain: number; index: number }[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push(entry: { area: number; chain: number; index: number }): void {
+    const entries = this.entries;
+    entries.push(entry);
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (entries[parent].area <= entry.area) break;
+      entries[i] = entries[parent];
+      i = parent;
+    }
+    entries[i] = entry;
+  }
+
+  pop(): { area: number; chain: number; index: number } {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop()!;
+    if (entries.length > 0) {
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        if (left >= entries.length) break;
+        const child = left + 1 < entries.length && entries[left + 1].area < entries[left].area ? left + 1 : left;
+        if (entries[child].area >= last.area) break;
+        entries[i] = entries[child];
+        i = child;
+      }
+      entries[i] = last;
+    }
+    return top;
+  }
+}
@@ -0,0 +1,402 @@
+import type { Bitmap, Point, Polyline } from '../../../../shared/types';
+
+/**
+ * Centerline (skeleton) tracing utilities
+ * Thins binary line art to 1-pixel strokes and walks them into polylines
+ */
+
+// 8-connected neighbor offsets in clockwise order starting north (P2..P9)
+const NEIGHBORS = [
+  [0, -1],  // N
+  [1, -1],  // NE
+  [1, 0],   // E
+  [1, 1],   // SE
+  [0, 1],   // S
+  [-1, 1],  // SW
+  [-1, 0],  // W
+  [-1, -1]  // NW
+];
+
+/**
+ * Thin a binary bitmap to a 1-pixel wide skeleton using Zhang-Suen thinning
+ * Foreground pixels are reduced to their medial lines
+ */
+export function skeletonize(bitmap: Bitmap): Bitmap {
+  const { width, height } = bitmap;
+  const mask = new Uint8Array(bitmap.data);
+
+  thinMask(mask, width, height);
+  removeStaircasePixels(mask, width, height);
+
+  return {
+    width,
+    height,
+    data: mask,
+  };
+}
+
+/**
+ * Walk a skeleton bitmap into polylines
+ * Lines run between endpoints and junctions; isolated loops become closed polylines
+ */
+export function traceSkeleton(skeleton: Bitmap, minLength: number = 3): Polyline[] {
+  const { width, height, data: mask } = skeleton;
+
+  const degree = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        degree[y * width + x] = countNeighbors(mask, width, height, x, y);
+      }
+    }
+  }
+
+  const isNode = (index: number) => degree[index] !== 2;
+  const visited = new Uint8Array(width * height);
+  const polylines: Polyline[] = [];
+
+  // 1. Open lines starting from endpoints and junctions
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!mask[index] || !isNode(index) || degree[index] === 0) continue;
+
+      for (const neighbor of neighborIndices(mask, width, height, x, y)) {
+        if (isNode(neighbor)) {
+          // Direct node-to-node link: only meaningful for endpoint spurs, emit once
+          if (neighbor > index && (degree[index] === 1 || degree[neighbor] === 1)) {
+            polylines.push({
+              points: [indexToPoint(index, width), indexToPoint(neighbor, width)],
+              closed: false,
+            });
+          }
+          continue;
+        }
+
+        if (visited[neighbor]) continue;
+
+        const path = walkBranch(mask, degree, visited, width, height, index, neighbor);
+        polylines.push({ points: path.map(i => indexToPoint(i, width)), closed: false });
+      }
+    }
+  }
+
+  // 2. Remaining unvisited pixels belong to closed loops without any node
+  for (let index = 0; index < width * height; index++) {
+    if (!mask[index] || visited[index] || isNode(index)) continue;
+
+    const loop = walkLoop(mask, visited, width, height, index);
+    if (loop.length >= 3) {
+      polylines.push({ points: loop.map(i => indexToPoint(i, width)), closed: true });
+    }
+  }
+
+  // 3. Prune short spurs that end in a free endpoint (thinning artifacts)
+  const pruned = polylines.filter(polyline => {
+    if (polyline.closed) return true;
+    const first = polyline.points[0];
+    const last = polyline.points[polyline.points.length - 1];
+    const hasFreeEnd = degreeAt(degree, width, first) === 1 || degreeAt(degree, width, last) === 1;
+    const isIsolated = degreeAt(degree, width, first) === 1 && degreeAt(degree, width, last) === 1;
+    return isIsolated || !hasFreeEnd || polylineLength(polyline.points) >= minLength;
+  });
+
+  // 4. Rejoin lines that were only split by a pruned spur
+  const merged = mergeAtJunctions(pruned, width);
+
+  // 5. Make branches meet at the center of their junction instead of its edge pixels
+  snapToJunctionCenters(merged, mask, degree, width, height);
+
+  console.log(`Traced ${merged.length} centerlines (${polylines.length - pruned.length} spurs pruned)`);
+  return merged;
+}
+
+/**
+ * Calculate the length of an open point sequence
+ */
+export function polylineLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Join open polylines whose ends meet at a junction shared by exactly two lines
+ */
+function mergeAtJunctions(polylines: Polyline[], width: number): Polyline[] {
+  const result = polylines.map(polyline => ({ ...polyline, points: [...polyline.points] }));
+  const alive = result.map(() => true);
+  const endKey = (point: Point) => point.y * width + point.x;
+
+  // Index open polyline ends by pixel
+  const ends = new Map<number, number[]>();
+  result.forEach((polyline, i) => {
+    if (polyline.closed) return;
+    for (const point of [polyline.points[0], polyline.points[polyline.points.length - 1]]) {
+      const key = endKey(point);
+      ends.set(key, [...(ends.get(key) || []), i]);
+    }
+  });
+
+  for (const [key, list] of ends) {
+    if (list.length !== 2 || list[0] === list[1]) continue;
+
+    const [a, b] = list;
+
+    // Orient both so that they meet at `key`: a ends there, b starts there
+    const lineA = endKey(result[a].points[result[a].points.length - 1]) === key
+      ? result[a].points
+      : [...result[a].points].reverse();
+    const lineB = endKey(result[b].points[0]) === key
+      ? result[b].points
+      : [...result[b].points].reverse();
+
+    result[a] = { points: [...lineA, ...lineB.slice(1)], closed: false };
+    alive[b] = false;
+
+    // The far end of b now belongs to a
+    const farKey = endKey(lineB[lineB.length - 1]);
+    ends.set(farKey, (ends.get(farKey) || []).map(i => (i === b ? a : i)));
+    ends.set(key, []);
+
+    // A line that met itself became a loop
+    const merged = result[a].points;
+    if (endKey(merged[0]) === endKey(merged[merged.length - 1])) {
+      result[a] = { points: merged.slice(0, -1), closed: true };
+      ends.set(farKey, []);
+    }
+  }
+
+  return result.filter((_, i) => alive[i]);
+}
+
+/**
+ * Move polyline ends that stop on a junction pixel to the centroid of the junction cluster
+ * Thinning leaves junctions a few pixels wide, so neighboring branches would otherwise stop short
+ */
+function snapToJunctionCenters(
+  polylines: Polyline[],
+  mask: Uint8Array,
+  degree: Uint8Array,
+  width: number,
+  height: number
+): void {
+  const clusterOf = new Int32Array(width * height).fill(-1);
+  const centers: Point[] = [];
+
+  const isJunction = (index: number) => mask[index] === 1 && degree[index] >= 3;
+
+  for (let index = 0; index < width * height; index++) {
+    if (!isJunction(index) || clusterOf[index] >= 0) continue;
+
+    // Flood the connected junction pixels into one cluster
+    const cluster = centers.length;
+    const stack = [index];
+    let sumX = 0, sumY = 0, count = 0;
+    clusterOf[index] = cluster;
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const x = current % width;
+      const y = Math.floor(current / width);
+      sumX += x;
+      sumY += y;
+      count++;
+
+      for (const neighbor of neighborIndices(mask, width, height, x, y)) {
+        if (isJunction(neighbor) && clusterOf[neighbor] < 0) {
+          clusterOf[neighbor] = cluster;
+          stack.push(neighbor);
+        }
+      }
+    }
+
+    centers.push({ x: sumX / count, y: sumY / count });
+  }
+
+  for (const polyline of polylines) {
+    if (polyline.closed) continue;
+
+    const points = polyline.points;
+    for (const end of [0, points.length - 1]) {
+      const cluster = clusterOf[points[end].y * width + points[end].x];
+      if (cluster >= 0) {
+        points[end] = { ...centers[cluster] };
+      }
+    }
+  }
+}
+
+/**
+ * Zhang-Suen thinning, applied in place on a 0/1 mask
+ */
+function thinMask(mask: Uint8Array, width: number, height: number): void {
+  const toRemove: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    for (let pass = 0; pass < 2; pass++) {
+      toRemove.length = 0;
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const index = y * width + x;
+          if (!mask[index]) continue;
+
+          const p = NEIGHBORS.map(([dx, dy]) => sample(mask, width, height, x + dx, y + dy));
+          const [p2, p3, p4, p5, p6, p7, p8, p9] = p;
+
+          // B(P): number of foreground neighbors
+          const b = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+          if (b < 2 || b > 6) continue;
+
+          // A(P): number of 0->1 transitions in the ordered sequence P2..P9,P2
+          let a = 0;
+          for (let i = 0; i < 8; i++) {
+            if (p[i] === 0 && p[(i + 1) % 8] === 1) a++;
+          }
+          if (a !== 1) continue;
+
+          if (pass === 0) {
+            if (p2 * p4 * p6 !== 0 || p4 * p6 * p8 !== 0) continue;
+          } else {
+            if (p2 * p4 * p8 !== 0 || p2 * p6 * p8 !== 0) continue;
+          }
+
+          toRemove.push(index);
+        }
+      }
+
+      for (const index of toRemove) {
+        mask[index] = 0;
+      }
+      if (toRemove.length > 0) changed = true;
+    }
+  }
+}
+
+/**
+ * Remove redundant corner pixels left by thinning on diagonal strokes
+ * A pixel joining two 4-neighbors that are already diagonally connected is dropped
+ */
+function removeStaircasePixels(mask: Uint8Array, width: number, height: number): void {
+  // [first, second, ...must be empty] as indices into NEIGHBORS
+  const patterns = [
+    [0, 2, 4, 5, 6], // N + E, with S, SW, W empty
+    [2, 4, 6, 7, 0], // E + S, with W, NW, N empty
+    [4, 6, 0, 1, 2], // S + W, with N, NE, E empty
+    [6, 0, 2, 3, 4], // W + N, with E, SE, S empty
+  ];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+
+      const p = NEIGHBORS.map(([dx, dy]) => sample(mask, width, height, x + dx, y + dy));
+
+      for (const [a, b, ...empty] of patterns) {
+        if (p[a] && p[b] && empty.every(i => !p[i])) {
+          mask[y * width + x] = 0;
+          break;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Follow a branch from a node through degree-2 pixels until the next node
+ */
+function walkBranch(
+  mask: Uint8Array,
+  degree: Uint8Array,
+  visited: Uint8Array,
+  width: number,
+  height: number,
+  start: number,
+  first: number
+): number[] {
+  const path = [start, first];
+  visited[first] = 1;
+
+  let previous = start;
+  let current = first;
+
+  while (degree[current] === 2) {
+    const next = neighborIndices(mask, width, height, current % width, Math.floor(current / width))
+      .find(neighbor => neighbor !== previous && neighbor !== start && (!visited[neighbor] || degree[neighbor] !== 2))
+      ?? neighborIndices(mask, width, height, current % width, Math.floor(current / width))
+        .find(neighbor => neighbor === start && path.length > 2);
+
+    if (next === undefined) break;
+
+    path.push(next);
+    if (degree[next] !== 2) break;
+
+    visited[next] = 1;
+    previous = current;
+    current = next;
+  }
+
+  return path;
+}
+
+/**
+ * Follow a closed loop of degree-2 pixels back to its start
+ */
+function walkLoop(mask: Uint8Array, visited: Uint8Array, width: number, height: number, start: number): number[] {
+  const loop: number[] = [];
+  let current: number | undefined = start;
+
+  while (current !== undefined && !visited[current]) {
+    visited[current] = 1;
+    loop.push(current);
+    current = neighborIndices(mask, width, height, current % width, Math.floor(current / width))
+      .find(neighbor => !visited[neighbor]);
+  }
+
+  return loop;
+}
+
+/**
+ * List foreground neighbor indices, 4-connected neighbors first
+ * Preferring orthogonal steps keeps walks from cutting diagonal corners
+ */
+function neighborIndices(mask: Uint8Array, width: number, height: number, x: number, y: number): number[] {
+  const result: number[] = [];
+  const order = [0, 2, 4, 6, 1, 3, 5, 7];
+
+  for (const i of order) {
+    const [dx, dy] = NEIGHBORS[i];
+    if (sample(mask, width, height, x + dx, y + dy)) {
+      result.push((y + dy) * width + (x + dx));
+    }
+  }
+
+  return result;
+}
+
+function countNeighbors(mask: Uint8Array, width: number, height: number, x: number, y: number): number {
+  let count = 0;
+  for (const [dx, dy] of NEIGHBORS) {
+    count += sample(mask, width, height, x + dx, y + dy);
+  }
+  return count;
+}
+
+function sample(mask: Uint8Array, width: number, height: number, x: number, y: number): number {
+  if (x < 0 || x >= width || y < 0 || y >= height) return 0;
+  return mask[y * width + x];
+}
+
+function degreeAt(degree: Uint8Array, width: number, point: Point): number {
+  return degree[point.y * width + point.x];
+}
+
+function indexToPoint(index: number, width: number): Point {
+  return { x: index % width, y: Math.floor(index / width) };
+}
@@ -0,0 +1,151 @@
+import type { Point, SmoothingMethod } from '../../../../shared/types';
+import type { Contour } from './contour';
+import { detectCorners } from './curves';
+
+/**
+ * Contour smoothing between extraction and simplification
+ * Pixel jitter survives Douglas-Peucker as tiny zigzags; smoothing the traced rings first removes it
+ * - gaussian: every vertex moves to the Gaussian-weighted mean of its neighbours along the ring
+ * - chaikin: corner cutting, each vertex replaced by two points a quarter along its edges
+ * Sharp corners (as found for curve fitting) stay where they are: Gaussian windows stop at them,
+ * mirrored so straight edges stay straight right up to the corner, and Chaikin does not cut them
+ */
+
+export interface SmoothingOptions {
+  method: Exclude<SmoothingMethod, 'none'>;
+  /** Gaussian sigma (px along the ring) or number of Chaikin iterations (1-5) */
+  strength: number;
+  /** Turning angle (degrees) above which a vertex is kept as a sharp corner */
+  cornerAngle: number;
+  /** Distance (px) over which turning angles are measured, so jitter is not taken for corners */
+  cornerRadius: number;
+}
+
+/** Chaikin iterations allowed; each one doubles the number of vertices */
+export const MAX_CHAIKIN_ITERATIONS = 5;
+
+/**
+ * Smooth the rings of traced contours (exteriors and holes), keeping sharp corners
+ */
+export function smoothContours(contours: Contour[], options: SmoothingOptions): Contour[] {
+  const smooth = (ring: Point[]) => options.method === 'gaussian' ? gaussianRing(ring, options) : chaikinRing(ring, options);
+  const smoothed = contours.map(contour => ({
+    ...contour,
+    points: smooth(contour.points),
+    holes: contour.holes.map(smooth),
+  }));
+
+  console.log(`Smoothed ${contours.length} contours (${options.method}, strength ${options.strength})`);
+  return smoothed;
+}
+
+/**
+ * Farthest (px) a ring point can be from the traced points that decide where it goes: the
+ * smoothing window (traced vertices are at most √2 px apart) plus the corner measuring distance
+ * Tiles overlap by at least this much so that smoothing matches across seams
+ */
+export function smoothingReach(options: SmoothingOptions): number {
+  const window = options.method === 'gaussian' ? Math.ceil(3 * options.strength) : chaikinIterations(options);
+  return Math.ceil(window * Math.SQRT2 + options.cornerRadius);
+}
+
+// Helper functions
+
+function gaussianRing(ring: Point[], options: SmoothingOptions): Point[] {
+  const n = ring.length;
+  if (n < 4) return ring;
+
+  const corners = detectCorners(ring, true, options.cornerAngle, options.cornerRadius);
+  const radius = Math.min(Math.ceil(3 * options.strength), Math.floor((n - 1) / 2));
+  if (radius < 1) return ring;
+  const weights = Array.from({ length: radius + 1 }, (_, k) => Math.exp(-(k * k) / (2 * options.strength * options.strength)));
+
+  // Without corners the window wraps around the ring
+  if (corners.length === 0) {
+    return ring.map((_, i) => {
+      let x = 0;
+      let y = 0;
+      let total = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const point = ring[(i + k + n) % n];
+        const weight = weights[Math.abs(k)];
+        x += weight * point.x;
+        y += weight * point.y;
+        total += weight;
+      }
+      return { x: x / total, y: y / total };
+    });
+  }
+
+  // Otherwise every corner-to-corner run is smoothed on its own, extended past both corners by
+  // point reflection through the corner (2c - p) so the smoothed run still ends on the corner
+  const smoothed = ring.slice();
+  corners.forEach((start, c) => {
+    const end = c + 1 < corners.length ? corners[c + 1] : corners[0] + n;
+    const run = Array.from({ length: end - start + 1 }, (_, k) => ring[(start + k) % n]);
+    const last = run.length - 1;
+    const at = (k: number): Point => {
+      if (k < 0) {
+        const mirrored = run[Math.min(-k, last)];
+        return { x: 2 * run[0].x - mirrored.x, y: 2 * run[0].y - mirrored.y };
+      }
+      if (k > last) {
+        const mirrored = run[Math.max(2 * last - k, 0)];
+        return { x: 2 * run[last].x - mirrored.x, y: 2 * run[last].y - mirrored.y };
+      }
+      return run[k];
+    };
+
+    for (let i = 1; i < last; i++) {
+      let x = 0;
+      let y = 0;
+      let total = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const point = at(i + k);
+        const weight = weights[Math.abs(k)];
+        x += weight * point.x;
+        y += weight * point.y;
+        total += weight;
+      }
+      smoothed[(start + i) % n] = { x: x / total, y: y / total };
+    }
+  });
+
+  return smoothed;
+}
+
+function chaikinRing(ring: Point[], options: SmoothingOptions): Point[] {
+  if (ring.length < 3) return ring;
+
+  const corners = new Set(detectCorners(ring, true, options.cornerAngle, options.cornerRadius));
+  let points = ring;
+  let fixed = ring.map((_, i) => corners.has(i));
+
+  for (let iteration = 0; iteration < chaikinIterations(options); iteration++) {
+    const n = points.length;
+    const nextPoints: Point[] = [];
+    const nextFixed: boolean[] = [];
+    points.forEach((point, i) => {
+      if (fixed[i]) {
+        nextPoints.push(point);
+        nextFixed.push(true);
+        return;
+      }
+      const previous = points[(i - 1 + n) % n];
+      const next = points[(i + 1) % n];
+      nextPoints.push(
+        { x: 0.75 * point.x + 0.25 * previous.x, y: 0.75 * point.y + 0.25 * previous.y },
+        { x: 0.75 * point.x + 0.25 * next.x, y: 0.75 * point.y + 0.25 * next.y }
+      );
+      nextFixed.push(false, false);
+    });
+    points = nextPoints;
+    fixed = nextFixed;
+  }
+
+  return points;
+}
+
+function chaikinIterations(options: SmoothingOptions): number {
+  return Math.min(MAX_CHAIKIN_ITERATIONS, Math.max(1, Math.round(options.strength)));
+}
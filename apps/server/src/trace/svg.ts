@@ -1,4 +1,22 @@
-import type { Polygon, Point } from '../../../../shared/types';
+import { asCircle } from './primitives';
+import { colorLayerName } from './color';
+import { scaleTransform, transformPolygons, transformPolylines, transformColorLayers } from './transform';
+import type { DrawingScale } from './units';
+import type { Polygon, Polyline, Point, CurvePath, ArcSegment, ColorLayer } from '../../../../shared/types';
+
+export interface SVGExportOptions {
+  /** Open/closed centerlines, drawn as strokes only */
+  polylines?: Polyline[];
+  /** Color mode layers, each filled with its own color */
+  colorLayers?: ColorLayer[];
+  /** Real-world units; coordinates are scaled and width/height carry the unit (default: pixels) */
+  scale?: DrawingScale;
+}
+
+/**
+ * A drawable element: path data, or a native circle for detected circle primitives
+ */
+type SVGShape = { type: 'path'; d: string } | { type: 'circle'; circle: ArcSegment };
 
 /**
  * Generate SVG output with VectorWorks-compatible classes
@@ -8,30 +26,48 @@ export function generateSVG(
   polygons: Polygon[],
   width: number,
   height: number,
-  whiteFill: boolean = false
+  whiteFill: boolean = false,
+  options: SVGExportOptions = {}
 ): string {
-  const svgPaths: string[] = [];
+  const { units, unitsPerPixel }: DrawingScale = options.scale || { units: 'px', unitsPerPixel: 1 };
+  const transform = scaleTransform(unitsPerPixel); // SVG keeps the image's y-down orientation
+  const scaledWidth = formatCoordinate(width * unitsPerPixel);
+  const scaledHeight = formatCoordinate(height * unitsPerPixel);
+  const unitSuffix = units === 'px' ? '' : units;
+  const svgPaths: SVGShape[] = [];
   
   // Generate path data for each polygon
-  for (const polygon of polygons) {
-    const pathData = generatePathData(polygon);
-    if (pathData) {
-      svgPaths.push(pathData);
+  for (const polygon of transformPolygons(polygons, transform)) {
+    const shape = generatePolygonShape(polygon);
+    if (shape) {
+      svgPaths.push(shape);
+    }
+  }
+  
+  // Centerlines have no interior, so they only go to the detail layer
+  const linePaths: SVGShape[] = [];
+  for (const polyline of transformPolylines(options.polylines || [], transform)) {
+    const circle = polyline.closed ? asCircle(polyline.curve) : null;
+    const pathData = circle ? null : generatePolylinePathData(polyline);
+    if (circle) {
+      linePaths.push({ type: 'circle', circle });
+    } else if (pathData) {
+      linePaths.push({ type: 'path', d: pathData });
     }
   }
   
   // Build SVG content
   const svgContent = `<?xml version="1.0" encoding="UTF-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" 
-     width="${width}" 
-     height="${height}" 
-     viewBox="0 0 ${width} ${height}">
+     width="${scaledWidth}${unitSuffix}" 
+     height="${scaledHeight}${unitSuffix}" 
+     viewBox="0 0 ${scaledWidth} ${scaledHeight}">
   <defs>
     <style>
       .VW_CLASS_Detail {
         fill: none;
         stroke: black;
-        stroke-width: 1;
+        stroke-width: ${formatCoordinate(unitsPerPixel)};
         stroke-linejoin: round;
         stroke-linecap: round;
       }
@@ -45,16 +81,32 @@ export function generateSVG(
   <!-- White fill layer (if enabled) -->
   ${whiteFill ? generateFillLayer(svgPaths) : ''}
   
+  <!-- Color layers (color mode) -->
+  ${generateColorLayers(transformColorLayers(options.colorLayers || [], transform))}
+  
   <!-- Detail/contour layer -->
-  ${generateDetailLayer(svgPaths)}
+  ${generateDetailLayer([...svgPaths, ...linePaths])}
 </svg>`;
 
   return svgContent;
 }
 
+/**
+ * Generate the shape for a polygon: a <circle> for hole-free circle primitives, a path otherwise
+ */
+function generatePolygonShape(polygon: Polygon): SVGShape | null {
+  const circle = polygon.holes.length === 0 ? asCircle(polygon.curves?.exterior) : null;
+  if (circle) {
+    return { type: 'circle', circle };
+  }
+  
+  const pathData = generatePathData(polygon);
+  return pathData ? { type: 'path', d: pathData } : null;
+}
+
 /**
  * Generate SVG path data for a polygon with holes
- * Uses move-to and line-to commands for precise control
+ * Uses move-to and line-to commands for precise control, cubic and arc commands for fitted curves
  */
 function generatePathData(polygon: Polygon): string | null {
   if (polygon.exterior.length < 3) {
@@ -64,39 +116,125 @@ function generatePathData(polygon: Polygon): string | null {
   const pathCommands: string[] = [];
   
   // Exterior ring
-  const exterior = polygon.exterior;
-  pathCommands.push(`M ${formatCoordinate(exterior[0].x)} ${formatCoordinate(exterior[0].y)}`);
+  pathCommands.push(...generateRingCommands(polygon.exterior, polygon.curves?.exterior ?? null));
   
-  for (let i = 1; i < exterior.length; i++) {
-    pathCommands.push(`L ${formatCoordinate(exterior[i].x)} ${formatCoordinate(exterior[i].y)}`);
+  // Hole rings
+  polygon.holes.forEach((hole, i) => {
+    if (hole.length < 3) return;
+    pathCommands.push(...generateRingCommands(hole, polygon.curves?.holes[i] ?? null));
+  });
+  
+  return pathCommands.join(' ');
+}
+
+/**
+ * Generate closed ring commands, preferring the curve representation when available
+ */
+function generateRingCommands(ring: Point[], curve: CurvePath | null): string[] {
+  if (curve) {
+    return [...generateCurveCommands(curve), 'Z'];
   }
   
-  pathCommands.push('Z'); // Close exterior path
+  const pathCommands: string[] = [];
+  pathCommands.push(`M ${formatCoordinate(ring[0].x)} ${formatCoordinate(ring[0].y)}`);
   
-  // Hole rings
-  for (const hole of polygon.holes) {
-    if (hole.length < 3) continue;
-    
-    pathCommands.push(`M ${formatCoordinate(hole[0].x)} ${formatCoordinate(hole[0].y)}`);
-    
-    for (let i = 1; i < hole.length; i++) {
-      pathCommands.push(`L ${formatCoordinate(hole[i].x)} ${formatCoordinate(hole[i].y)}`);
+  for (let i = 1; i < ring.length; i++) {
+    pathCommands.push(`L ${formatCoordinate(ring[i].x)} ${formatCoordinate(ring[i].y)}`);
+  }
+  
+  pathCommands.push('Z'); // Close ring path
+  return pathCommands;
+}
+
+/**
+ * Generate move-to, line-to, cubic and arc commands for a curve path
+ */
+function generateCurveCommands(curve: CurvePath): string[] {
+  const pathCommands: string[] = [`M ${formatPoint(curve.start)}`];
+  let current = curve.start;
+  
+  for (const segment of curve.segments) {
+    if (segment.type === 'cubic') {
+      pathCommands.push(`C ${formatPoint(segment.control1)} ${formatPoint(segment.control2)} ${formatPoint(segment.to)}`);
+    } else if (segment.type === 'arc') {
+      pathCommands.push(...generateArcCommands(current, segment));
+    } else {
+      pathCommands.push(`L ${formatPoint(segment.to)}`);
     }
-    
-    pathCommands.push('Z'); // Close hole path
+    current = segment.to;
+  }
+  
+  return pathCommands;
+}
+
+/**
+ * Generate elliptical-arc commands for a circular arc
+ * A full circle has coincident endpoints, which SVG cannot draw, so it is split at the opposite point
+ */
+function generateArcCommands(start: Point, arc: ArcSegment): string[] {
+  const radius = formatCoordinate(arc.radius);
+  const sweepFlag = arc.sweep > 0 ? 1 : 0; // Positive angles run clockwise in SVG's y-down space
+  
+  if (Math.abs(arc.sweep) >= Math.PI * 2 - 1e-6) {
+    const opposite = { x: 2 * arc.center.x - start.x, y: 2 * arc.center.y - start.y };
+    return [
+      `A ${radius} ${radius} 0 0 ${sweepFlag} ${formatPoint(opposite)}`,
+      `A ${radius} ${radius} 0 0 ${sweepFlag} ${formatPoint(arc.to)}`,
+    ];
+  }
+  
+  const largeArc = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+  return [`A ${radius} ${radius} 0 ${largeArc} ${sweepFlag} ${formatPoint(arc.to)}`];
+}
+
+/**
+ * Generate SVG path data for a polyline
+ * Open polylines are left unclosed so CAD imports them as single lines
+ */
+function generatePolylinePathData(polyline: Polyline): string | null {
+  const points = polyline.points;
+  if (points.length < 2) {
+    return null;
+  }
+  
+  if (polyline.curve) {
+    const curveCommands = generateCurveCommands(polyline.curve);
+    return [...curveCommands, ...(polyline.closed ? ['Z'] : [])].join(' ');
+  }
+  
+  const pathCommands: string[] = [];
+  pathCommands.push(`M ${formatCoordinate(points[0].x)} ${formatCoordinate(points[0].y)}`);
+  
+  for (let i = 1; i < points.length; i++) {
+    pathCommands.push(`L ${formatCoordinate(points[i].x)} ${formatCoordinate(points[i].y)}`);
+  }
+  
+  if (polyline.closed) {
+    pathCommands.push('Z');
   }
   
   return pathCommands.join(' ');
 }
 
+/**
+ * Render a shape element with the given attributes
+ */
+function renderShape(shape: SVGShape, attributes: string): string {
+  if (shape.type === 'circle') {
+    const { center, radius } = shape.circle;
+    return `<circle ${attributes} cx="${formatCoordinate(center.x)}" cy="${formatCoordinate(center.y)}" r="${formatCoordinate(radius)}" />`;
+  }
+  return `<path ${attributes} d="${shape.d}" />`;
+}
+
 /**
  * Generate fill layer with white fill and even-odd rule
  */
-function generateFillLayer(pathData: string[]): string {
-  if (pathData.length === 0) return '';
+function generateFillLayer(shapes: SVGShape[]): string {
+  if (shapes.length === 0) return '';
   
-  const fillPaths = pathData.map(path => 
-    `    <path class="VW_CLASS_Fill" fill-rule="evenodd" d="${path}" />`
+  const fillPaths = shapes.map(shape => 
+    `    ${renderShape(shape, 'class="VW_CLASS_Fill" fill-rule="evenodd"')}`
   ).join('\n');
   
   return `  <!-- Fill layer -->
@@ -106,14 +244,31 @@ ${fillPaths}
 `;
 }
 
+/**
+ * Generate one group per quantized color, filled with that color
+ */
+function generateColorLayers(colorLayers: ColorLayer[]): string {
+  return colorLayers.map((layer, i) => {
+    const colorPaths = layer.polygons
+      .map(polygon => generatePolygonShape(polygon))
+      .filter((shape): shape is SVGShape => shape !== null)
+      .map(shape => `    ${renderShape(shape, 'fill-rule="evenodd"')}`)
+      .join('\n');
+    
+    return `  <g id="${colorLayerName(i)}" fill="${layer.color}" stroke="none">
+${colorPaths}
+  </g>`;
+  }).join('\n');
+}
+
 /**
  * Generate detail layer with black strokes
  */
-function generateDetailLayer(pathData: string[]): string {
-  if (pathData.length === 0) return '';
+function generateDetailLayer(shapes: SVGShape[]): string {
+  if (shapes.length === 0) return '';
   
-  const detailPaths = pathData.map(path => 
-    `    <path class="VW_CLASS_Detail" d="${path}" />`
+  const detailPaths = shapes.map(shape => 
+    `    ${renderShape(shape, 'class="VW_CLASS_Detail"')}`
   ).join('\n');
   
   return `  <!-- Detail layer -->
@@ -130,6 +285,10 @@ function formatCoordinate(value: number): string {
   return Number(value.toFixed(3)).toString();
 }
 
+function formatPoint(point: Point): string {
+  return `${formatCoordinate(point.x)} ${formatCoordinate(point.y)}`;
+}
+
 /**
  * Generate optimized SVG for CAD applications
  * Includes metadata and proper scaling information
@@ -152,15 +311,15 @@ export function generateOptimizedSVG(
   const scaledHeight = height * scale;
   
   // Scale polygons if needed
-  const scaledPolygons = scale !== 1 ? scalePolygons(polygons, scale) : polygons;
+  const scaledPolygons = transformPolygons(polygons, scaleTransform(scale));
   
-  const svgPaths: string[] = [];
+  const svgPaths: SVGShape[] = [];
   
   // Generate path data for each polygon
   for (const polygon of scaledPolygons) {
-    const pathData = generatePathData(polygon);
-    if (pathData) {
-      svgPaths.push(pathData);
+    const shape = generatePolygonShape(polygon);
+    if (shape) {
+      svgPaths.push(shape);
     }
   }
   
@@ -214,24 +373,6 @@ export function generateOptimizedSVG(
   return svgContent;
 }
 
-/**
- * Scale polygons by a factor
- */
-function scalePolygons(polygons: Polygon[], scale: number): Polygon[] {
-  return polygons.map(polygon => ({
-    exterior: polygon.exterior.map(point => ({
-      x: point.x * scale,
-      y: point.y * scale,
-    })),
-    holes: polygon.holes.map(hole =>
-      hole.map(point => ({
-        x: point.x * scale,
-        y: point.y * scale,
-      }))
-    ),
-  }));
-}
-
 /**
  * Escape XML special characters
  */
@@ -265,18 +406,18 @@ export function generateStyledSVG(
     backgroundColor = 'transparent',
   } = style;
   
-  const svgPaths: string[] = [];
+  const svgPaths: SVGShape[] = [];
   
   // Generate path data for each polygon
   for (const polygon of polygons) {
-    const pathData = generatePathData(polygon);
-    if (pathData) {
-      svgPaths.push(pathData);
+    const shape = generatePolygonShape(polygon);
+    if (shape) {
+      svgPaths.push(shape);
     }
   }
   
-  const paths = svgPaths.map(path => 
-    `    <path fill="${fillColor}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill-rule="evenodd" d="${path}" />`
+  const paths = svgPaths.map(shape => 
+    `    ${renderShape(shape, `fill="${fillColor}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill-rule="evenodd"`)}`
   ).join('\n');
   
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -0,0 +1,406 @@
+import { mergePolygons, ringBounds, containsPoint, calculateSignedArea } from './geometry';
+import type { ImageData, Point, Polygon } from '../../../../shared/types';
+
+/**
+ * Tiled processing for very large scans
+ * The raster is cut into tiles with overlapping margins and every tile is traced on its own.
+ * Polygons are clipped to the tile core; pieces cut by a seam are merged back by polygon union.
+ * The image is read once, top to bottom, into a band of grayscale rows (1 byte per pixel) that holds
+ * one row of tile regions; the raster and contour stages only ever hold one tile. Beyond the band,
+ * memory grows with the image only through the compressed PNG and the traced polygons
+ */
+
+/**
+ * Pixel rectangle, half-open: x0 <= x < x1, y0 <= y < y1
+ */
+export interface Rect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface Tile {
+  /** Pixels this tile is responsible for; cores partition the image */
+  core: Rect;
+  /** Core plus the overlap margin, clamped to the image; the raster stages run on this */
+  region: Rect;
+}
+
+/**
+ * Polygons of one tile after clipping to its core, in image coordinates
+ */
+export interface ClippedPolygons {
+  /** Polygons entirely inside the core, final apart from simplification */
+  inner: Polygon[];
+  /** Pieces cut by the core boundary, to be stitched with the neighbouring tiles */
+  seam: Polygon[];
+}
+
+/** Images above this many pixels are tiled unless the request disables it */
+export const AUTO_TILE_PIXELS = 4096 * 4096;
+
+/** Tile edge used for automatic tiling (px) */
+export const DEFAULT_TILE_SIZE = 2048;
+
+// Overlap beyond what the raster stages strictly need (px)
+const TILE_MARGIN = 16;
+
+// Coordinates closer than this belong to the same seam
+const SEAM_TOLERANCE = 0.5;
+
+/**
+ * Tile edge for an image, or 0 to trace it whole
+ * An explicit size of 0 disables tiling; without one, images above AUTO_TILE_PIXELS are tiled
+ */
+export function resolveTileSize(width: number, height: number, tileSize?: number): number {
+  if (tileSize === 0) return 0;
+
+  const size = tileSize ?? (width * height > AUTO_TILE_PIXELS ? DEFAULT_TILE_SIZE : 0);
+  return size > 0 && (width > size || height > size) ? size : 0;
+}
+
+/**
+ * Overlap that makes every core pixel come out as if the whole image were processed:
+ * adaptive thresholds see their full window, contour smoothing sees every point within its reach,
+ * and a component cut by the region border that reaches the core spans more pixels than the
+ * speckle limit (so keeping it is right)
+ * Capped at half a tile; very large speckle limits then apply approximately near seams
+ */
+export function tileOverlap(tileSize: number, areaMin: number, adaptiveWindow?: number, smoothingReach?: number): number {
+  const windowMargin = adaptiveWindow ? Math.ceil(adaptiveWindow / 2) + TILE_MARGIN : 0;
+  const smoothingMargin = smoothingReach ? smoothingReach + TILE_MARGIN : 0;
+  return Math.min(Math.ceil(tileSize / 2), Math.max(TILE_MARGIN, Math.ceil(areaMin), windowMargin, smoothingMargin));
+}
+
+/**
+ * Cut an image into tiles of `tileSize` pixels, each with an `overlap` margin on every inner side
+ */
+export function planTiles(width: number, height: number, tileSize: number, overlap: number): Tile[] {
+  const tiles: Tile[] = [];
+
+  for (let y0 = 0; y0 < height; y0 += tileSize) {
+    for (let x0 = 0; x0 < width; x0 += tileSize) {
+      const core = { x0, y0, x1: Math.min(width, x0 + tileSize), y1: Math.min(height, y0 + tileSize) };
+      tiles.push({
+        core,
+        region: {
+          x0: Math.max(0, core.x0 - overlap),
+          y0: Math.max(0, core.y0 - overlap),
+          x1: Math.min(width, core.x1 + overlap),
+          y1: Math.min(height, core.y1 + overlap),
+        },
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Copy a rectangle out of an RGBA image
+ */
+export function cropImage(imageData: ImageData, rect: Rect): ImageData {
+  const width = rect.x1 - rect.x0;
+  const height = rect.y1 - rect.y0;
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const start = ((rect.y0 + y) * imageData.width + rect.x0) * 4;
+    data.set(imageData.data.subarray(start, start + width * 4), y * width * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Rows of a decoded RGBA image, top to bottom, as views into its pixels
+ */
+export async function* imageRows(imageData: ImageData): AsyncGenerator<Uint8Array> {
+  const rowBytes = imageData.width * 4;
+  for (let y = 0; y < imageData.height; y++) {
+    yield imageData.data.subarray(y * rowBytes, (y + 1) * rowBytes);
+  }
+}
+
+/**
+ * Read grayscale RGBA rows once, top to bottom, and hand out every tile with its region as a grayscale image
+ * Rows are kept at one byte per pixel only while a region still needs them, so the band never exceeds
+ * tileSize + 2 * overlap rows. Tiles must come in planTiles order
+ */
+export async function* tileRegions(rows: AsyncIterable<Uint8Array>, width: number, tiles: Tile[]): AsyncGenerator<[Tile, ImageData]> {
+  const iterator = rows[Symbol.asyncIterator]();
+  const band: Uint8Array[] = [];
+  let bandStart = 0;
+
+  try {
+    for (const tile of tiles) {
+      const { x0, y0, x1, y1 } = tile.region;
+
+      // Drop the rows above this region, then read down to its bottom
+      const dropped = Math.min(band.length, y0 - bandStart);
+      band.splice(0, dropped);
+      bandStart += dropped;
+      while (bandStart + band.length < y1) {
+        const { value, done } = await iterator.next();
+        if (done) throw new Error('Image ended before its last tile');
+        const gray = new Uint8Array(width);
+        for (let x = 0; x < width; x++) gray[x] = value[x * 4];
+        band.push(gray);
+      }
+
+      const regionWidth = x1 - x0;
+      const data = new Uint8Array(regionWidth * (y1 - y0) * 4);
+      for (let y = y0; y < y1; y++) {
+        const row = band[y - bandStart];
+        for (let x = x0; x < x1; x++) {
+          const pixelIndex = ((y - y0) * regionWidth + x - x0) * 4;
+          data[pixelIndex] = data[pixelIndex + 1] = data[pixelIndex + 2] = row[x];
+          data[pixelIndex + 3] = 255;
+        }
+      }
+      yield [tile, { width: regionWidth, height: y1 - y0, data }];
+    }
+  } finally {
+    // Stop the reader early too, so an aborted trace closes its PNG stream
+    await iterator.return?.();
+  }
+}
+
+/**
+ * Move polygons traced in a tile's region to image coordinates and clip them to the tile core
+ * Contours run through pixel centers, so the core is clipped half a pixel outside its pixels;
+ * neighbouring tiles then cut a shape along the same line. Polygons outside the core are dropped,
+ * they belong to the neighbour whose core holds them
+ * The clip is exact: pieces only gain vertices on the core edges and stay within their polygon's bounds
+ */
+export function clipToCore(polygons: Polygon[], tile: Tile): ClippedPolygons {
+  const { core, region } = tile;
+  const bounds = { x0: core.x0 - 0.5, y0: core.y0 - 0.5, x1: core.x1 - 0.5, y1: core.y1 - 0.5 };
+  const inner: Polygon[] = [];
+  const seam: Polygon[] = [];
+
+  for (const polygon of polygons) {
+    const translated = translatePolygon(polygon, region.x0, region.y0);
+    const box = ringBounds(translated.exterior);
+
+    if (box.x0 > bounds.x0 && box.y0 > bounds.y0 && box.x1 < bounds.x1 && box.y1 < bounds.y1) {
+      inner.push(translated);
+    } else if (box.x0 < bounds.x1 && box.y0 < bounds.y1 && box.x1 > bounds.x0 && box.y1 > bounds.y0) {
+      seam.push(...clipPolygon(translated, bounds));
+    }
+  }
+
+  return { inner, seam };
+}
+
+/**
+ * Merge seam pieces of all tiles into whole polygons
+ * Pieces are grouped by touching bounds first, so the union only ever sees pieces of one shape
+ */
+export function stitchPolygons(pieces: Polygon[]): Polygon[] {
+  return mergePolygons(pieces, SEAM_TOLERANCE);
+}
+
+// Helper functions
+
+/**
+ * Part of a ring inside the clip rectangle, from where it enters to where it leaves
+ * Both are positions along the rectangle's outline, see outlinePosition
+ */
+interface Chain {
+  points: Point[];
+  entry: number;
+  exit: number;
+}
+
+/**
+ * Clip a polygon to a rectangle (Weiler-Atherton against a convex clip region)
+ * Rings are oriented alike and cut into chains where they cross the rectangle; every chain is
+ * joined to the chain entering next along the outline, walking in the direction exteriors run.
+ * Rings that do not cross stay whole when inside, and an exterior around the whole rectangle
+ * leaves the rectangle itself
+ */
+function clipPolygon(polygon: Polygon, rect: Rect): Polygon[] {
+  const exteriors: Point[][] = [];
+  const holes: Point[][] = [];
+  const chains: Chain[] = [];
+  const center = { x: (rect.x0 + rect.x1) / 2, y: (rect.y0 + rect.y1) / 2 };
+  let enclosed = 0;
+
+  [polygon.exterior, ...polygon.holes].forEach((ring, index) => {
+    const isHole = index > 0;
+    const oriented = calculateSignedArea(ring) < 0 === isHole ? ring.slice().reverse() : ring;
+
+    if (oriented.every(point => insideRect(point, rect))) {
+      (isHole ? holes : exteriors).push(oriented);
+      return;
+    }
+
+    const ringChains = clipRing(oriented, rect);
+    chains.push(...ringChains);
+    if (ringChains.length === 0 && containsPoint(oriented, center)) enclosed += isHole ? -1 : 1;
+  });
+
+  // An uncrossed exterior around the rectangle, unless an uncrossed hole is around it too
+  if (chains.length === 0 && enclosed > 0) {
+    exteriors.push([{ x: rect.x0, y: rect.y0 }, { x: rect.x1, y: rect.y0 }, { x: rect.x1, y: rect.y1 }, { x: rect.x0, y: rect.y1 }]);
+  }
+
+  const perimeter = 2 * (rect.x1 - rect.x0 + rect.y1 - rect.y0);
+  const ahead = (from: number, to: number) => (to - from + perimeter) % perimeter;
+  const next = chains.map(chain => chains.reduce((best, candidate, index) =>
+    best < 0 || ahead(chain.exit, candidate.entry) < ahead(chain.exit, chains[best].entry) ? index : best, -1));
+
+  const joined = chains.map(() => false);
+  chains.forEach((_, start) => {
+    const ring: Point[] = [];
+    for (let index = start; !joined[index]; index = next[index]) {
+      joined[index] = true;
+      ring.push(...chains[index].points, ...cornersBetween(chains[index].exit, chains[next[index]].entry, rect));
+    }
+
+    // Chains meeting on the outline share their end points
+    const distinct = ring.filter((point, i) => {
+      const previous = ring[(i + ring.length - 1) % ring.length];
+      return point.x !== previous.x || point.y !== previous.y;
+    });
+    if (distinct.length >= 3) exteriors.push(distinct);
+  });
+
+  const parts = exteriors.map(exterior => ({ exterior, holes: [] as Point[][] }));
+  for (const hole of holes) {
+    const part = parts.length === 1 ? parts[0] : parts.find(candidate => containsPoint(candidate.exterior, hole[0]));
+    part?.holes.push(hole);
+  }
+
+  return parts;
+}
+
+/**
+ * Chains of a ring that leaves the rectangle somewhere
+ * Stretches running along the outline count as outside: a ring touching the rectangle from
+ * outside adds nothing, and one touching it from inside gets the stretch back from the outline
+ */
+function clipRing(ring: Point[], rect: Rect): Chain[] {
+  const start = ring.findIndex(point => !insideRect(point, rect));
+  const chains: Chain[] = [];
+  let chain: Point[] = [];
+
+  const close = () => {
+    if (chain.length > 0) {
+      chains.push({ points: chain, entry: outlinePosition(chain[0], rect), exit: outlinePosition(chain[chain.length - 1], rect) });
+    }
+    chain = [];
+  };
+
+  for (let k = 0; k < ring.length; k++) {
+    const a = ring[(start + k) % ring.length];
+    const b = ring[(start + k + 1) % ring.length];
+    if (a.x === b.x && a.y === b.y) continue;
+
+    const segment = clipSegment(a, b, rect);
+    if (!segment || onOutline(segment[0], segment[1], rect)) {
+      close();
+      continue;
+    }
+
+    if (chain.length === 0) chain.push(segment[0]);
+    chain.push(segment[1]);
+    if (segment[1] !== b) close();
+  }
+  close();
+
+  return chains;
+}
+
+/**
+ * Part of segment a-b inside the rectangle (Liang-Barsky), or null when at most a point of it is
+ * Cut points land exactly on the rectangle's edges; ends inside are returned as they are
+ */
+function clipSegment(a: Point, b: Point, rect: Rect): [Point, Point] | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  // [direction, distance inside] for the left, right, top and bottom edges
+  const edges = [[-dx, a.x - rect.x0], [dx, rect.x1 - a.x], [-dy, a.y - rect.y0], [dy, rect.y1 - a.y]];
+  let t0 = 0;
+  let t1 = 1;
+  let edge0 = -1;
+  let edge1 = -1;
+
+  edges.forEach(([direction, distance], edge) => {
+    if (direction === 0) {
+      if (distance < 0) t0 = Infinity;
+    } else if (direction < 0 && distance / direction > t0) {
+      t0 = distance / direction;
+      edge0 = edge;
+    } else if (direction > 0 && distance / direction < t1) {
+      t1 = distance / direction;
+      edge1 = edge;
+    }
+  });
+  if (t0 >= t1) return null;
+
+  const cut = (t: number, edge: number): Point => {
+    const point = {
+      x: Math.min(rect.x1, Math.max(rect.x0, a.x + t * dx)),
+      y: Math.min(rect.y1, Math.max(rect.y0, a.y + t * dy)),
+    };
+    if (edge < 2) point.x = edge === 0 ? rect.x0 : rect.x1;
+    else point.y = edge === 2 ? rect.y0 : rect.y1;
+    return point;
+  };
+
+  return [edge0 < 0 ? a : cut(t0, edge0), edge1 < 0 ? b : cut(t1, edge1)];
+}
+
+/**
+ * Distance of an outline point from the top-left corner, going right along the top edge first
+ */
+function outlinePosition(point: Point, rect: Rect): number {
+  const width = rect.x1 - rect.x0;
+  const height = rect.y1 - rect.y0;
+  // Nearest edge, so ring points that lie on an edge need not match it to the last bit
+  const distances = [Math.abs(point.y - rect.y0), Math.abs(point.x - rect.x1), Math.abs(point.y - rect.y1), Math.abs(point.x - rect.x0)];
+  const edge = distances.indexOf(Math.min(...distances));
+  if (edge === 0) return point.x - rect.x0;
+  if (edge === 1) return width + point.y - rect.y0;
+  if (edge === 2) return width + height + rect.x1 - point.x;
+  return (2 * width + height + rect.y1 - point.y) % (2 * (width + height));
+}
+
+/**
+ * Rectangle corners passed walking along the outline from one position to another
+ */
+function cornersBetween(from: number, to: number, rect: Rect): Point[] {
+  const width = rect.x1 - rect.x0;
+  const height = rect.y1 - rect.y0;
+  const perimeter = 2 * (width + height);
+  const ahead = (position: number) => (position - from + perimeter) % perimeter;
+  const corners = [
+    { position: 0, point: { x: rect.x0, y: rect.y0 } },
+    { position: width, point: { x: rect.x1, y: rect.y0 } },
+    { position: width + height, point: { x: rect.x1, y: rect.y1 } },
+    { position: 2 * width + height, point: { x: rect.x0, y: rect.y1 } },
+  ];
+
+  return corners
+    .filter(corner => ahead(corner.position) > 0 && ahead(corner.position) < ahead(to))
+    .sort((a, b) => ahead(a.position) - ahead(b.position))
+    .map(corner => corner.point);
+}
+
+function insideRect(point: Point, rect: Rect): boolean {
+  return point.x >= rect.x0 && point.x <= rect.x1 && point.y >= rect.y0 && point.y <= rect.y1;
+}
+
+// Both ends on the same edge line of the rectangle
+function onOutline(a: Point, b: Point, rect: Rect): boolean {
+  return (a.x === rect.x0 && b.x === rect.x0) || (a.x === rect.x1 && b.x === rect.x1)
+    || (a.y === rect.y0 && b.y === rect.y0) || (a.y === rect.y1 && b.y === rect.y1);
+}
+
+function translatePolygon(polygon: Polygon, dx: number, dy: number): Polygon {
+  const translate = (ring: Point[]) => ring.map(point => ({ x: point.x + dx, y: point.y + dy }));
+  return { exterior: translate(polygon.exterior), holes: polygon.holes.map(translate) };
+}
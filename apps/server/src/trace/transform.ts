@@ -0,0 +1,145 @@
+import type { Point, Polygon, Polyline, ColorLayer, CurvePath, PathSegment, DrawingOrigin } from '../../../../shared/types';
+
+/**
+ * Coordinate transforms between image space and export space
+ * Image coordinates grow downward from the top-left corner; CAD drawings grow upward from their origin
+ */
+
+export interface CoordinateTransform {
+  /** Output units per source pixel */
+  scale: number;
+  /** Mirror the y axis (y up, as CAD applications expect) */
+  flipY: boolean;
+  /** Image point (px) that maps to 0,0 */
+  origin: Point;
+}
+
+export const IDENTITY_TRANSFORM: CoordinateTransform = { scale: 1, flipY: false, origin: { x: 0, y: 0 } };
+
+/**
+ * Uniform scaling in image orientation (SVG)
+ */
+export function scaleTransform(scale: number): CoordinateTransform {
+  return { scale, flipY: false, origin: { x: 0, y: 0 } };
+}
+
+/**
+ * Y-up transform for CAD exports with the chosen origin
+ * `originPoint` is in image pixels and only used for the 'point' origin
+ */
+export function createCADTransform(
+  width: number,
+  height: number,
+  scale: number,
+  origin: DrawingOrigin = 'bottom-left',
+  originPoint?: Point
+): CoordinateTransform {
+  let originPixel: Point;
+  if (origin === 'center') {
+    originPixel = { x: width / 2, y: height / 2 };
+  } else if (origin === 'point' && originPoint) {
+    originPixel = originPoint;
+  } else {
+    originPixel = { x: 0, y: height };
+  }
+
+  return { scale, flipY: true, origin: originPixel };
+}
+
+export function transformPoint(point: Point, transform: CoordinateTransform): Point {
+  const { scale, flipY, origin } = transform;
+  return {
+    x: (point.x - origin.x) * scale,
+    y: (flipY ? origin.y - point.y : point.y - origin.y) * scale,
+  };
+}
+
+/**
+ * Bounding box of the image in export space
+ */
+export function transformExtents(width: number, height: number, transform: CoordinateTransform): { min: Point; max: Point } {
+  const a = transformPoint({ x: 0, y: 0 }, transform);
+  const b = transformPoint({ x: width, y: height }, transform);
+  return {
+    min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+    max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  };
+}
+
+/**
+ * Transform polygons, including their curve representations
+ */
+export function transformPolygons(polygons: Polygon[], transform: CoordinateTransform): Polygon[] {
+  if (isIdentity(transform)) return polygons;
+
+  return polygons.map(polygon => ({
+    exterior: transformPoints(polygon.exterior, transform),
+    holes: polygon.holes.map(hole => transformPoints(hole, transform)),
+    ...(polygon.curves && {
+      curves: {
+        exterior: transformCurve(polygon.curves.exterior, transform),
+        holes: polygon.curves.holes.map(hole => transformCurve(hole, transform)),
+      },
+    }),
+  }));
+}
+
+/**
+ * Transform centerline polylines, including their curve representations
+ */
+export function transformPolylines(polylines: Polyline[], transform: CoordinateTransform): Polyline[] {
+  if (isIdentity(transform)) return polylines;
+
+  return polylines.map(polyline => ({
+    ...polyline,
+    points: transformPoints(polyline.points, transform),
+    ...(polyline.curve && { curve: transformCurve(polyline.curve, transform)! }),
+  }));
+}
+
+/**
+ * Transform the polygons of every color layer
+ */
+export function transformColorLayers(colorLayers: ColorLayer[], transform: CoordinateTransform): ColorLayer[] {
+  if (isIdentity(transform)) return colorLayers;
+  return colorLayers.map(layer => ({ ...layer, polygons: transformPolygons(layer.polygons, transform) }));
+}
+
+// Helper functions
+
+function isIdentity(transform: CoordinateTransform): boolean {
+  return transform.scale === 1 && !transform.flipY && transform.origin.x === 0 && transform.origin.y === 0;
+}
+
+function transformPoints(points: Point[], transform: CoordinateTransform): Point[] {
+  return points.map(point => transformPoint(point, transform));
+}
+
+function transformCurve(curve: CurvePath | null, transform: CoordinateTransform): CurvePath | null {
+  if (!curve) return null;
+
+  return {
+    start: transformPoint(curve.start, transform),
+    segments: curve.segments.map((segment): PathSegment => {
+      if (segment.type === 'cubic') {
+        return {
+          type: 'cubic',
+          control1: transformPoint(segment.control1, transform),
+          control2: transformPoint(segment.control2, transform),
+          to: transformPoint(segment.to, transform),
+        };
+      }
+      if (segment.type === 'arc') {
+        // Mirroring reverses the direction of rotation
+        return {
+          ...segment,
+          center: transformPoint(segment.center, transform),
+          radius: segment.radius * transform.scale,
+          sweep: transform.flipY ? -segment.sweep : segment.sweep,
+          to: transformPoint(segment.to, transform),
+        };
+      }
+      return { type: 'line', to: transformPoint(segment.to, transform) };
+    }),
+  };
+}
@@ -0,0 +1,66 @@
+import type { DrawingUnits } from '../../../../shared/types';
+
+/**
+ * Real-world scale for exports
+ * Reads the PNG pHYs chunk and resolves how many millimetres or inches one pixel spans
+ */
+
+export interface DrawingScale {
+  /** Output units */
+  units: DrawingUnits;
+  /** Output units per source pixel */
+  unitsPerPixel: number;
+}
+
+const MM_PER_INCH = 25.4;
+const METERS_PER_INCH = 0.0254;
+
+// PNG signature (8 bytes) followed by length/type/data/CRC chunks
+const PNG_SIGNATURE_LENGTH = 8;
+
+/**
+ * Read the resolution (DPI) stored in a PNG pHYs chunk
+ * Returns null when the chunk is missing or only describes the aspect ratio
+ */
+export function readPngDpi(buffer: Buffer): number | null {
+  let offset = PNG_SIGNATURE_LENGTH;
+
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+
+    if (type === 'pHYs' && length >= 9 && offset + 17 <= buffer.length) {
+      const pixelsPerUnitX = buffer.readUInt32BE(offset + 8);
+      const unit = buffer.readUInt8(offset + 16);
+
+      // Unit 1 = metre; unit 0 only defines the pixel aspect ratio
+      if (unit !== 1 || pixelsPerUnitX === 0) return null;
+      return pixelsPerUnitX * METERS_PER_INCH;
+    }
+
+    // pHYs must precede the image data
+    if (type === 'IDAT' || type === 'IEND') return null;
+
+    offset += 12 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the export scale from the image DPI, the requested units and the drawing scale (1:n)
+ * Without a DPI there is no physical size, so geometry stays in pixels
+ */
+export function resolveDrawingScale(dpi: number | null, units: DrawingUnits | undefined, drawingScale: number = 1): DrawingScale {
+  const targetUnits = units || (dpi ? 'mm' : 'px');
+
+  if (targetUnits === 'px' || !dpi) {
+    return { units: 'px', unitsPerPixel: 1 };
+  }
+
+  const inchesPerPixel = (1 / dpi) * drawingScale;
+  return {
+    units: targetUnits,
+    unitsPerPixel: targetUnits === 'mm' ? inchesPerPixel * MM_PER_INCH : inchesPerPixel,
+  };
+}
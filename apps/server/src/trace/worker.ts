@@ -0,0 +1,68 @@
+import { parentPort } from 'worker_threads';
+import { traceImage, decodePng } from './index';
+import type { WorkerRequest, WorkerResponse } from '../workers';
+
+/**
+ * Worker thread entry point for the trace pool
+ * Runs one task at a time and posts stage progress back to the main thread
+ * Aborts arrive through the task's shared flag, which the trace reads through its signal, so they
+ * take effect inside long loops that no message could interrupt
+ */
+
+const post = (message: WorkerResponse) => parentPort!.postMessage(message);
+
+parentPort!.on('message', async (message: WorkerRequest) => {
+  const signal = flagSignal(message.abortFlag);
+
+  try {
+    if (message.type === 'decode') {
+      const image = decodePng(toBuffer(message.png));
+
+      // Keep the pixels in shared memory so the image store hands them to any worker without copying
+      const shared = new Uint8Array(new SharedArrayBuffer(image.imageData.data.byteLength));
+      shared.set(image.imageData.data);
+      image.imageData.data = shared;
+
+      post({ type: 'decoded', image });
+      return;
+    }
+
+    const input = message.png ? toBuffer(message.png) : message.image!;
+    const result = await traceImage(input, message.request, {
+      onProgress: progress => post({ type: 'progress', progress }),
+      signal,
+    });
+    post({ type: 'result', result });
+  } catch (error: any) {
+    post({ type: 'error', message: error?.message || 'Trace processing failed', aborted: signal.aborted });
+  }
+});
+
+/**
+ * Signal that aborts once the flag is set; `aborted` and `throwIfAborted()` read the flag
+ * themselves, as no event could abort it while the thread is busy
+ */
+function flagSignal(flag: Int32Array): AbortSignal {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const poll = () => {
+    const aborted = Atomics.load(flag, 0) !== 0;
+    if (aborted) controller.abort(); // No-op once aborted
+    return aborted;
+  };
+
+  Object.defineProperties(signal, {
+    aborted: { get: poll },
+    throwIfAborted: {
+      value: () => {
+        if (poll()) throw signal.reason;
+      },
+    },
+  });
+  return signal;
+}
+
+// Structured cloning turns Buffers into plain Uint8Arrays
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
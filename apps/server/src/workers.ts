@@ -0,0 +1,285 @@
+import { Worker } from 'worker_threads';
+import os from 'os';
+import path from 'path';
+import type { DecodedImage, TraceHooks } from './trace/index';
+import type { TraceRequest, TraceResponse, TraceProgress } from '../../../shared/types';
+
+/**
+ * Worker-thread pool for decoding and tracing
+ * Raster and contour processing is CPU-bound; running it off the main thread keeps Express
+ * (health checks, job status, progress streams) responsive while large images are traced
+ */
+
+/**
+ * Messages sent to a worker
+ * PNG bytes are transferred, decoded images live in shared memory, so neither is copied
+ * `abortFlag` is shared too: the pool aborts a task by setting it to 1, which a worker busy in a
+ * trace loop sees at its next check, whereas a message would wait until the loop ends
+ */
+export type WorkerRequest =
+  | { type: 'decode'; png: Uint8Array; abortFlag: Int32Array }
+  | { type: 'trace'; png: Uint8Array | null; image: DecodedImage | null; request: TraceRequest; abortFlag: Int32Array };
+
+/**
+ * Messages posted back by a worker
+ */
+export type WorkerResponse =
+  | { type: 'progress'; progress: TraceProgress }
+  | { type: 'decoded'; image: DecodedImage }
+  | { type: 'result'; result: TraceResponse }
+  | { type: 'error'; message: string; aborted: boolean };
+
+export interface TracePoolOptions {
+  /** Worker threads */
+  size: number;
+  /** Longest a single task may run before its worker is terminated (ms, 0 = no limit) */
+  timeoutMs: number;
+  /** Worker factory (default: the trace worker script) */
+  createWorker?: () => Worker;
+}
+
+/**
+ * Snapshot of the pool for health checks
+ */
+export interface TracePoolStats {
+  /** Worker threads */
+  size: number;
+  /** Workers running a task */
+  busy: number;
+  /** Tasks waiting for a free worker */
+  queued: number;
+}
+
+/**
+ * Rejects a task whose worker exceeded the timeout; the worker is terminated and replaced
+ */
+export class TraceTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Trace timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TraceTimeoutError';
+  }
+}
+
+interface Task {
+  message: WorkerRequest;
+  transfer: ArrayBuffer[];
+  /** Content hash of the image; tasks prefer the worker whose stage cache already holds it */
+  imageHash?: string;
+  hooks: TraceHooks;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+  timeout?: NodeJS.Timeout;
+  /** Image of the last task, for cache affinity */
+  imageHash?: string;
+}
+
+/**
+ * Default pool size: leave one core for the main thread
+ */
+export function defaultPoolSize(): number {
+  return Math.max(1, os.cpus().length - 1);
+}
+
+export class TracePool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly waiting: Task[] = [];
+  private readonly createWorker: () => Worker;
+  private closed = false;
+
+  constructor(private readonly options: TracePoolOptions) {
+    this.createWorker = options.createWorker || createTraceWorker;
+    for (let i = 0; i < Math.max(1, options.size); i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  /**
+   * Trace on a worker thread; same contract as traceImage, so the pool can serve as a TraceRunner
+   * Aborting the signal rejects right away; a running worker stops at its next abort check
+   */
+  run(input: Buffer | DecodedImage, request: TraceRequest, hooks: TraceHooks = {}): Promise<TraceResponse> {
+    const abortFlag = createAbortFlag();
+    if (Buffer.isBuffer(input)) {
+      const png = transferable(input);
+      return this.enqueue({ type: 'trace', png, image: null, request, abortFlag }, [png.buffer as ArrayBuffer], hooks);
+    }
+    return this.enqueue({ type: 'trace', png: null, image: input, request, abortFlag }, [], hooks, input.hash);
+  }
+
+  /**
+   * Decode a PNG on a worker thread; the pixels come back in shared memory
+   */
+  decode(buffer: Buffer): Promise<DecodedImage> {
+    const png = transferable(buffer);
+    return this.enqueue({ type: 'decode', png, abortFlag: createAbortFlag() }, [png.buffer as ArrayBuffer], {});
+  }
+
+  stats(): TracePoolStats {
+    return {
+      size: this.workers.length,
+      busy: this.workers.filter(poolWorker => poolWorker.task).length,
+      queued: this.waiting.length,
+    };
+  }
+
+  /**
+   * Terminate all workers and reject waiting tasks
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.waiting.splice(0).forEach(task => task.reject(new Error('Trace pool closed')));
+    await Promise.all(this.workers.splice(0).map(poolWorker => {
+      clearTimeout(poolWorker.timeout);
+      poolWorker.task?.reject(new Error('Trace pool closed'));
+      return poolWorker.worker.terminate();
+    }));
+  }
+
+  // Task management
+
+  private enqueue<T>(message: WorkerRequest, transfer: ArrayBuffer[], hooks: TraceHooks, imageHash?: string): Promise<T> {
+    const { signal } = hooks;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.closed) return Promise.reject(new Error('Trace pool closed'));
+
+    return new Promise<T>((resolve, reject) => {
+      const task: Task = { message, transfer, imageHash, hooks, resolve, reject };
+      signal?.addEventListener('abort', () => this.abort(task), { once: true });
+      this.waiting.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.waiting.length > 0) {
+      const idle = this.workers.filter(poolWorker => !poolWorker.task);
+      if (idle.length === 0) return;
+
+      const task = this.waiting.shift()!;
+      const poolWorker = idle.find(candidate => task.imageHash && candidate.imageHash === task.imageHash) || idle[0];
+      this.start(poolWorker, task);
+    }
+  }
+
+  private start(poolWorker: PoolWorker, task: Task): void {
+    poolWorker.task = task;
+    poolWorker.imageHash = task.imageHash;
+    poolWorker.worker.postMessage(task.message, task.transfer);
+
+    if (this.options.timeoutMs > 0) {
+      poolWorker.timeout = setTimeout(() => {
+        console.warn(`Terminating trace worker after ${this.options.timeoutMs}ms`);
+        task.reject(new TraceTimeoutError(this.options.timeoutMs));
+        this.replace(poolWorker);
+      }, this.options.timeoutMs);
+    }
+  }
+
+  private abort(task: Task): void {
+    const reason = task.hooks.signal!.reason;
+    const index = this.waiting.indexOf(task);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    } else {
+      // The worker stays busy until the trace notices the flag and reports back
+      Atomics.store(task.message.abortFlag, 0, 1);
+    }
+    task.reject(reason);
+  }
+
+  private settle(poolWorker: PoolWorker, message: WorkerResponse): void {
+    const task = poolWorker.task;
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.hooks.onProgress?.(message.progress);
+      return;
+    }
+
+    clearTimeout(poolWorker.timeout);
+    poolWorker.task = null;
+
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else if (message.type === 'decoded') {
+      task.resolve(message.image);
+    } else {
+      task.reject(message.aborted && task.hooks.signal?.aborted ? task.hooks.signal.reason : new Error(message.message));
+    }
+    this.dispatch();
+  }
+
+  // Worker lifecycle
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = { worker: this.createWorker(), task: null };
+    let failure: Error | null = null;
+
+    poolWorker.worker.on('message', (message: WorkerResponse) => this.settle(poolWorker, message));
+    poolWorker.worker.on('error', error => {
+      failure = error;
+    });
+    poolWorker.worker.on('exit', code => {
+      // Terminated by the pool (timeout, close) or crashed
+      if (!this.workers.includes(poolWorker)) return;
+      console.error(`Trace worker exited unexpectedly with code ${code}`);
+      poolWorker.task?.reject(failure || new Error(`Trace worker exited with code ${code}`));
+      this.replace(poolWorker);
+    });
+
+    return poolWorker;
+  }
+
+  /**
+   * Terminate a worker and start a fresh one in its place
+   */
+  private replace(poolWorker: PoolWorker): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+
+    clearTimeout(poolWorker.timeout);
+    this.workers.splice(index, 1);
+    poolWorker.worker.terminate();
+
+    if (!this.closed) {
+      this.workers.push(this.spawn());
+      this.dispatch();
+    }
+  }
+}
+
+// Helper functions
+
+/**
+ * Start the trace worker script; under tsx (development) the TypeScript source is loaded through its require hook
+ */
+function createTraceWorker(): Worker {
+  const script = path.join(__dirname, 'trace', `worker${path.extname(__filename)}`);
+  if (script.endsWith('.ts')) {
+    return new Worker(`require(${JSON.stringify(require.resolve('tsx/cjs'))}); require(${JSON.stringify(script)});`, { eval: true });
+  }
+  return new Worker(script);
+}
+
+/**
+ * Abort flag of a task, in memory shared with the worker (0 = running, 1 = aborted)
+ */
+function createAbortFlag(): Int32Array {
+  return new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+}
+
+/**
+ * View of a buffer whose memory can be transferred: the buffer's own memory when it spans
+ * a whole ArrayBuffer, otherwise a copy (small buffers share Node's allocation pool)
+ */
+function transferable(buffer: Buffer): Uint8Array {
+  if (buffer.byteOffset === 0 && buffer.byteLength === buffer.buffer.byteLength) {
+    return new Uint8Array(buffer.buffer, 0, buffer.byteLength);
+  }
+  return new Uint8Array(buffer);
+}
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { useDebouncedCallback } from './lib/debounce';
-import type { TraceRequest, TraceResponse, ErrorResponse } from '../../../shared/types';
+import type { TraceMode, ThresholdMode, TraceResponse, TraceJob, TraceProgress, TraceStage, StoredImage, ErrorResponse } from '../../../shared/types';
 import './App.css';
 
 interface AppState {
@@ -8,19 +8,39 @@ interface AppState {
   fidelity: number;
   whiteFill: boolean;
   useAI: boolean;
+  mode: TraceMode;
+  thresholdMode: ThresholdMode;
   isProcessing: boolean;
+  progress: TraceProgress | null;
   result: TraceResponse | null;
   error: string | null;
   svgPreview: string | null;
 }
 
+// Human-readable pipeline stages for the progress bar
+const STAGE_LABELS: Record<TraceStage, string> = {
+  decoding: 'Decoding PNG',
+  ai: 'AI edge detection',
+  thresholding: 'Thresholding',
+  quantizing: 'Quantizing colors',
+  despeckling: 'Removing speckles',
+  contouring: 'Tracing contours',
+  simplifying: 'Simplifying',
+  validating: 'Validating geometry',
+  fitting: 'Fitting curves and primitives',
+  exporting: 'Generating SVG/DXF',
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     selectedFile: null,
     fidelity: 50,
     whiteFill: false,
     useAI: false,
+    mode: 'outline',
+    thresholdMode: 'fixed',
     isProcessing: false,
+    progress: null,
     result: null,
     error: null,
     svgPreview: null,
@@ -28,52 +48,152 @@ const App: React.FC = () => {
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Server-side copy of the selected file, so parameter changes don't upload it again
+  const storedImageRef = useRef<{ file: File; id: string } | null>(null);
+
+  // Upload the file to the image store once and reuse its id for later traces
+  const uploadImage = useCallback(async (file: File, signal: AbortSignal): Promise<string> => {
+    if (storedImageRef.current?.file === file) return storedImageRef.current.id;
+    if (storedImageRef.current) {
+      // Release the previous file's copy
+      fetch(`/api/images/${storedImageRef.current.id}`, { method: 'DELETE' }).catch(() => undefined);
+      storedImageRef.current = null;
+    }
+
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await fetch('/api/images', { method: 'POST', body: formData, signal });
+    if (!response.ok) {
+      const errorData: ErrorResponse = await response.json();
+      throw new Error(errorData.error || 'Upload failed');
+    }
+
+    const image: StoredImage = await response.json();
+    storedImageRef.current = { file, id: image.id };
+    return image.id;
+  }, []);
+
+  // Follow a job's Server-Sent Events until it finishes, mirroring progress into state
+  // Aborting the signal closes the stream and cancels the job on the server
+  const followJob = useCallback((jobId: string, signal: AbortSignal): Promise<TraceJob> => {
+    return new Promise((resolve, reject) => {
+      const events = new EventSource(`/api/jobs/${jobId}/events`);
+      const stop = () => {
+        events.close();
+        reject(new DOMException('Job cancelled', 'AbortError'));
+      };
+      const cancel = () => {
+        stop();
+        fetch(`/api/jobs/${jobId}`, { method: 'DELETE' }).catch(() => undefined);
+      };
+
+      if (signal.aborted) {
+        cancel();
+        return;
+      }
+      signal.addEventListener('abort', cancel, { once: true });
+
+      const finish = (event: MessageEvent, handler: (job: TraceJob) => void) => {
+        events.close();
+        signal.removeEventListener('abort', cancel);
+        handler(JSON.parse(event.data));
+      };
+
+      events.addEventListener('progress', event => {
+        const job: TraceJob = JSON.parse((event as MessageEvent).data);
+        if (job.stage) {
+          const progress: TraceProgress = { stage: job.stage, percent: job.percent, contourCount: job.contourCount };
+          setState(prev => ({ ...prev, progress }));
+        }
+      });
+      events.addEventListener('completed', event => finish(event as MessageEvent, resolve));
+      events.addEventListener('failed', event => finish(event as MessageEvent, job => reject(new Error(job.error || 'Processing failed'))));
+      events.addEventListener('cancelled', event => finish(event as MessageEvent, stop));
+      events.onerror = () => {
+        events.close();
+        signal.removeEventListener('abort', cancel);
+        reject(new Error('Lost connection to the progress stream'));
+      };
+    });
+  }, []);
 
   // Debounced trace function for live updates
   const debouncedTrace = useDebouncedCallback(
-    async (file: File, fidelity: number, whiteFill: boolean, useAI: boolean) => {
+    async (file: File, fidelity: number, whiteFill: boolean, useAI: boolean, mode: TraceMode, thresholdMode: ThresholdMode) => {
       if (!file) return;
 
-      setState(prev => ({ ...prev, isProcessing: true, error: null }));
+      // A newer trace supersedes the one still running: abort its upload, stream and job
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const { signal } = abortController;
 
-      try {
-        const formData = new FormData();
-        formData.append('image', file);
-        formData.append('fidelity', fidelity.toString());
-        formData.append('whiteFill', whiteFill.toString());
-        formData.append('useAI', useAI.toString());
+      setState(prev => ({ ...prev, isProcessing: true, progress: null, error: null }));
 
-        const response = await fetch('/api/trace', {
-          method: 'POST',
-          body: formData,
-        });
+      try {
+        const submitJob = async () => {
+          const formData = new FormData();
+          formData.append('imageId', await uploadImage(file, signal));
+          formData.append('fidelity', fidelity.toString());
+          formData.append('whiteFill', whiteFill.toString());
+          formData.append('useAI', useAI.toString());
+          formData.append('mode', mode);
+          formData.append('thresholdMode', thresholdMode);
+
+          return fetch('/api/jobs', {
+            method: 'POST',
+            body: formData,
+            signal,
+          });
+        };
+
+        let response = await submitJob();
+        if (response.status === 404) {
+          // The stored image expired or was evicted: upload it again
+          storedImageRef.current = null;
+          response = await submitJob();
+        }
 
         if (!response.ok) {
           const errorData: ErrorResponse = await response.json();
           throw new Error(errorData.error || 'Processing failed');
         }
 
-        const result: TraceResponse = await response.json();
+        const job: TraceJob = await response.json();
+        await followJob(job.id, signal);
+
+        const resultResponse = await fetch(`/api/jobs/${job.id}/result`, { signal });
+        if (!resultResponse.ok) {
+          const errorData: ErrorResponse = await resultResponse.json();
+          throw new Error(errorData.error || 'Processing failed');
+        }
+
+        const result: TraceResponse = await resultResponse.json();
         
         setState(prev => ({
           ...prev,
           result,
           svgPreview: result.svg,
           isProcessing: false,
+          progress: null,
           error: null,
         }));
 
       } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return; // Superseded by a newer trace
+
         console.error('Trace processing error:', error);
         setState(prev => ({
           ...prev,
           error: error instanceof Error ? error.message : 'Unknown error occurred',
           isProcessing: false,
+          progress: null,
         }));
       }
     },
     500, // 500ms debounce
-    [state.selectedFile, state.fidelity, state.whiteFill, state.useAI]
+    [state.selectedFile, state.fidelity, state.whiteFill, state.useAI, state.mode, state.thresholdMode, followJob, uploadImage]
   );
 
   // File selection handlers
@@ -92,8 +212,8 @@ const App: React.FC = () => {
     }));
 
     // Trigger initial trace
-    debouncedTrace(file, state.fidelity, state.whiteFill, state.useAI);
-  }, [state.fidelity, state.whiteFill, state.useAI, debouncedTrace]);
+    debouncedTrace(file, state.fidelity, state.whiteFill, state.useAI, state.mode, state.thresholdMode);
+  }, [state.fidelity, state.whiteFill, state.useAI, state.mode, state.thresholdMode, debouncedTrace]);
 
   const handleFileInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -148,27 +268,45 @@ const App: React.FC = () => {
     setState(prev => ({ ...prev, fidelity }));
     
     if (state.selectedFile) {
-      debouncedTrace(state.selectedFile, fidelity, state.whiteFill, state.useAI);
+      debouncedTrace(state.selectedFile, fidelity, state.whiteFill, state.useAI, state.mode, state.thresholdMode);
     }
-  }, [state.selectedFile, state.whiteFill, state.useAI, debouncedTrace]);
+  }, [state.selectedFile, state.whiteFill, state.useAI, state.mode, state.thresholdMode, debouncedTrace]);
 
   const handleWhiteFillChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const whiteFill = event.target.checked;
     setState(prev => ({ ...prev, whiteFill }));
     
     if (state.selectedFile) {
-      debouncedTrace(state.selectedFile, state.fidelity, whiteFill, state.useAI);
+      debouncedTrace(state.selectedFile, state.fidelity, whiteFill, state.useAI, state.mode, state.thresholdMode);
     }
-  }, [state.selectedFile, state.fidelity, state.useAI, debouncedTrace]);
+  }, [state.selectedFile, state.fidelity, state.useAI, state.mode, state.thresholdMode, debouncedTrace]);
 
   const handleUseAIChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const useAI = event.target.checked;
     setState(prev => ({ ...prev, useAI }));
     
     if (state.selectedFile) {
-      debouncedTrace(state.selectedFile, state.fidelity, state.whiteFill, useAI);
+      debouncedTrace(state.selectedFile, state.fidelity, state.whiteFill, useAI, state.mode, state.thresholdMode);
     }
-  }, [state.selectedFile, state.fidelity, state.whiteFill, debouncedTrace]);
+  }, [state.selectedFile, state.fidelity, state.whiteFill, state.mode, state.thresholdMode, debouncedTrace]);
+
+  const handleModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = event.target.value as TraceMode;
+    setState(prev => ({ ...prev, mode }));
+    
+    if (state.selectedFile) {
+      debouncedTrace(state.selectedFile, state.fidelity, state.whiteFill, state.useAI, mode, state.thresholdMode);
+    }
+  }, [state.selectedFile, state.fidelity, state.whiteFill, state.useAI, state.thresholdMode, debouncedTrace]);
+
+  const handleThresholdModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const thresholdMode = event.target.value as ThresholdMode;
+    setState(prev => ({ ...prev, thresholdMode }));
+    
+    if (state.selectedFile) {
+      debouncedTrace(state.selectedFile, state.fidelity, state.whiteFill, state.useAI, state.mode, thresholdMode);
+    }
+  }, [state.selectedFile, state.fidelity, state.whiteFill, state.useAI, state.mode, debouncedTrace]);
 
   // Download handlers
   const handleDownloadSVG = useCallback(() => {
@@ -261,6 +399,37 @@ const App: React.FC = () => {
               <small>Higher values preserve more detail but increase file size</small>
             </div>
 
+            <div className="control-group">
+              <label htmlFor="mode-select">Tracing Mode</label>
+              <select
+                id="mode-select"
+                value={state.mode}
+                onChange={handleModeChange}
+                className="select"
+                aria-label="Tracing mode"
+              >
+                <option value="outline">Outline (closed shapes)</option>
+                <option value="centerline">Centerline (line drawings)</option>
+              </select>
+              <small>Centerline turns strokes into single lines instead of thin outlines</small>
+            </div>
+
+            <div className="control-group">
+              <label htmlFor="threshold-select">Threshold</label>
+              <select
+                id="threshold-select"
+                value={state.thresholdMode}
+                onChange={handleThresholdModeChange}
+                className="select"
+                aria-label="Threshold mode"
+              >
+                <option value="fixed">Fixed (128)</option>
+                <option value="otsu">Automatic (Otsu)</option>
+                <option value="adaptive">Adaptive (uneven lighting)</option>
+              </select>
+              <small>Adaptive handles shadows and faint pencil on photos and scans</small>
+            </div>
+
             <div className="checkbox-group">
               <input
                 id="white-fill-checkbox"
@@ -299,7 +468,19 @@ const App: React.FC = () => {
           <div className="preview-container">
             {state.isProcessing ? (
               <div className="processing">
-                <p>Processing...</p>
+                <p>{state.progress ? STAGE_LABELS[state.progress.stage] : 'Processing...'}</p>
+                <div
+                  className="progress-bar"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={state.progress?.percent ?? 0}
+                >
+                  <div className="progress-fill" style={{ width: `${state.progress?.percent ?? 0}%` }} />
+                </div>
+                {state.progress?.contourCount !== undefined && (
+                  <small>{state.progress.contourCount} contours</small>
+                )}
               </div>
             ) : state.svgPreview ? (
               <div
@@ -348,6 +529,32 @@ const App: React.FC = () => {
                   <span>Simplification:</span>
                   <span>{state.result.metrics.simplification.toFixed(2)}</span>
                 </div>
+                {state.result.metrics.threshold !== undefined && (
+                  <div className="metric">
+                    <span>Threshold:</span>
+                    <span>{state.result.metrics.threshold}</span>
+                  </div>
+                )}
+                {state.result.metrics.repairs && (
+                  <div className="metric">
+                    <span>Repairs:</span>
+                    <span>
+                      {state.result.metrics.repairs.repaired} repaired, {state.result.metrics.repairs.split} split, {state.result.metrics.repairs.dropped} dropped
+                    </span>
+                  </div>
+                )}
+                {state.result.metrics.mergeCount !== undefined && (
+                  <div className="metric">
+                    <span>Merged:</span>
+                    <span>{state.result.metrics.mergeCount}</span>
+                  </div>
+                )}
+                {state.result.metrics.maxDeviation !== undefined && (
+                  <div className="metric">
+                    <span>Max Deviation:</span>
+                    <span>{state.result.metrics.maxDeviation.toFixed(2)}px</span>
+                  </div>
+                )}
                 <div className="metric">
                   <span>Total Time:</span>
                   <span>{state.result.metrics.timings.total}ms</span>
@@ -9,12 +9,139 @@ export interface TraceRequest {
   whiteFill: boolean;
   /** Optional threshold for binarization (0-255) */
   threshold?: number;
+  /** How the binarization threshold is chosen (default: fixed) */
+  thresholdMode?: ThresholdMode;
+  /** Local statistic for adaptive thresholding (default: sauvola) */
+  adaptiveMethod?: AdaptiveMethod;
+  /** Window size (px) for adaptive thresholding (default: 25) */
+  adaptiveWindow?: number;
+  /** How transparent pixels are handled (default: composite) */
+  alphaMode?: AlphaMode;
+  /** Background color (#rrggbb) behind transparent pixels (default: #ffffff) */
+  alphaBackground?: string;
+  /** Alpha (0-255) below which a pixel counts as background in cutoff mode (default: 128) */
+  alphaCutoff?: number;
   /** Minimum area for speckle removal (px²) */
   despeckleAreaMin?: number;
   /** Whether to use AI preprocessing */
   useAI?: boolean;
+  /** Trace outlines in tiles of this size (px); images above 4096×4096 are tiled automatically, 0 disables. Tiled traces decode uploaded PNGs row by row, never whole */
+  tileSize?: number;
+  /** Tracing mode: closed outlines or single-stroke centerlines (default: outline) */
+  mode?: TraceMode;
+  /** How outline contours are extracted (default: border) */
+  contourMethod?: ContourMethod;
+  /** Smoothing of traced outline rings before simplification (default: none) */
+  smoothing?: SmoothingMethod;
+  /** Gaussian sigma (px) or Chaikin iterations (default: from fidelity) */
+  smoothingStrength?: number;
+  /** How outline rings are simplified (default: douglas-peucker) */
+  simplifyMethod?: SimplifyMethod;
+  /** Remove the least significant vertices across the whole drawing until at most this many nodes remain */
+  maxNodes?: number;
+  /** Fit cubic Bezier curves to traced outlines instead of straight polylines */
+  curveFitting?: boolean;
+  /** Turning angle (degrees) above which a vertex is kept as a sharp corner during smoothing and curve fitting */
+  cornerThreshold?: number;
+  /** Recognize circles and circular arcs and export them as native primitives */
+  detectPrimitives?: boolean;
+  /** Maximum deviation (px) for a run of vertices to be accepted as a circle or arc */
+  primitiveTolerance?: number;
+  /** Snap near-horizontal/vertical/45° edges to exact angles (architectural plans) */
+  orthogonalSnap?: boolean;
+  /** Maximum angular deviation (degrees) for an edge to be snapped */
+  snapTolerance?: number;
+  /** Quantize colors and trace each color region onto its own layer */
+  colorMode?: boolean;
+  /** Number of colors for color mode, including the background (omit for automatic) */
+  colorCount?: number;
+  /** Image resolution, overriding the PNG pHYs chunk */
+  dpi?: number;
+  /** Drawing scale denominator, e.g. 100 for a 1:100 plan (default: 1) */
+  drawingScale?: number;
+  /** Output units (default: mm when the DPI is known, px otherwise) */
+  units?: DrawingUnits;
+  /** Image point that becomes 0,0 in CAD exports (default: bottom-left) */
+  origin?: DrawingOrigin;
+  /** Origin position in image pixels (measured from the top-left corner) for the 'point' origin */
+  originPoint?: Point;
+  /** Grow (positive) or shrink (negative) filled regions by this distance in export units, e.g. half the laser kerf */
+  offset?: number;
+  /** Corner shape where offset outlines turn around convex corners (default: miter) */
+  offsetJoin?: OffsetJoin;
+  /** Merge polygons that touch or overlap into single shapes (per color layer in color mode) */
+  dissolve?: boolean;
 }
 
+/**
+ * Tracing mode
+ * - outline: closed polygons around every filled region
+ * - centerline: open polylines along the skeleton of line drawings
+ */
+export type TraceMode = 'outline' | 'centerline';
+
+/**
+ * Contour extraction in outline mode
+ * - border: follow the borders of the thresholded bitmap through pixel centers
+ * - marching-squares: sub-pixel iso-contours of the blurred grayscale at the threshold level
+ */
+export type ContourMethod = 'border' | 'marching-squares';
+
+/**
+ * Outline smoothing before simplification; sharp corners are kept in both
+ * - gaussian: Gaussian-weighted average of neighbouring vertices along the ring (removes pixel jitter)
+ * - chaikin: corner cutting, rounding every vertex off a quarter of the way along its edges
+ */
+export type SmoothingMethod = 'none' | 'gaussian' | 'chaikin';
+
+/**
+ * Outline simplification
+ * - douglas-peucker: every ring on its own (fastest; rings can end up crossing at low fidelity)
+ * - topology-preserving: Douglas-Peucker that keeps vertices wherever a ring would cross itself,
+ *   its holes or a neighbouring ring
+ * - visvalingam: Visvalingam-Whyatt, removing vertices by the area they add (smooth, even shapes)
+ */
+export type SimplifyMethod = 'douglas-peucker' | 'topology-preserving' | 'visvalingam';
+
+/**
+ * Threshold selection
+ * - fixed: the global `threshold` value
+ * - otsu: global threshold computed from the luminance histogram
+ * - adaptive: per-pixel threshold from local window statistics (uneven lighting)
+ */
+export type ThresholdMode = 'fixed' | 'otsu' | 'adaptive';
+
+export type AdaptiveMethod = 'sauvola' | 'niblack';
+
+/**
+ * Transparency handling
+ * - composite: blend pixels over the background color by their alpha
+ * - cutoff: pixels with alpha below the cutoff become background, others keep their color
+ * - mask: ignore color and trace the alpha channel itself (opaque = foreground)
+ */
+export type AlphaMode = 'composite' | 'cutoff' | 'mask';
+
+/**
+ * Export units; px keeps raw pixel coordinates
+ */
+export type DrawingUnits = 'px' | 'mm' | 'in';
+
+/**
+ * Corners of offset outlines
+ * - miter: extend both edges until they meet (cut off square beyond twice the offset distance)
+ * - round: circular arc around the original corner
+ * - square: cut off square at the offset distance from the original corner
+ */
+export type OffsetJoin = 'miter' | 'round' | 'square';
+
+/**
+ * Origin of CAD exports, whose y axis points up
+ * - bottom-left: bottom-left corner of the image
+ * - center: image center
+ * - point: a caller-supplied image point
+ */
+export type DrawingOrigin = 'bottom-left' | 'center' | 'point';
+
 export interface TraceResponse {
   /** Generated SVG content */
   svg: string;
@@ -22,6 +149,73 @@ export interface TraceResponse {
   dxf: string;
   /** Processing metrics */
   metrics: TraceMetrics;
+  /** Quantized palette (#rrggbb) in color mode, most frequent first; the background color is not traced */
+  palette?: string[];
+}
+
+/**
+ * Pipeline stage reported while a trace runs
+ */
+export type TraceStage =
+  | 'decoding'
+  | 'ai'
+  | 'thresholding'
+  | 'quantizing'
+  | 'despeckling'
+  | 'contouring'
+  | 'simplifying'
+  | 'validating'
+  | 'fitting'
+  | 'exporting';
+
+/**
+ * Progress event emitted by the pipeline when it enters a stage
+ */
+export interface TraceProgress {
+  /** Stage being started */
+  stage: TraceStage;
+  /** Overall completion 0-100 */
+  percent: number;
+  /** Contours (or centerlines) found so far, once vectorization has started */
+  contourCount?: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Status of an asynchronous trace job (GET /api/jobs/:id)
+ */
+export interface TraceJob {
+  /** Job identifier */
+  id: string;
+  /** Lifecycle state */
+  status: JobStatus;
+  /** Current pipeline stage while running */
+  stage?: TraceStage;
+  /** Overall completion 0-100 */
+  percent: number;
+  /** Contours found so far while running */
+  contourCount?: number;
+  /** ISO timestamps */
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Failure message when status is failed */
+  error?: string;
+}
+
+/**
+ * An image uploaded once and kept server-side for repeated traces (POST /api/images)
+ */
+export interface StoredImage {
+  /** Image identifier for /api/images/:id/trace and /api/jobs */
+  id: string;
+  width: number;
+  height: number;
+  /** Resolution from the PNG pHYs chunk */
+  dpi?: number;
+  /** ISO timestamp; every trace extends the lifetime */
+  expiresAt: string;
 }
 
 export interface TraceMetrics {
@@ -29,8 +223,26 @@ export interface TraceMetrics {
   nodeCount: number;
   /** Number of polygons extracted */
   polygonCount: number;
+  /** Number of open/closed centerline polylines extracted */
+  polylineCount?: number;
+  /** Number of cubic Bezier segments emitted by curve fitting */
+  curveCount?: number;
+  /** Number of circles and arcs recognized by primitive detection */
+  primitiveCount?: number;
   /** Simplification ratio applied */
   simplification: number;
+  /** Binarization threshold used (mean local threshold in adaptive mode) */
+  threshold?: number;
+  /** Polygons changed by geometry validation (outline and color modes) */
+  repairs?: GeometryRepairs;
+  /** Polygons merged into others by dissolve, when requested */
+  mergeCount?: number;
+  /** Farthest a vertex removed to meet the node budget lies from the result (px), when a budget is set */
+  maxDeviation?: number;
+  /** Image resolution used for scaling (pHYs chunk or request override) */
+  dpi?: number;
+  /** Units of the exported coordinates */
+  units?: DrawingUnits;
   /** Processing time breakdown */
   timings: {
     preprocessing?: number;
@@ -38,9 +250,23 @@ export interface TraceMetrics {
     vectorization: number;
     export: number;
     total: number;
+    /** Stages whose results came from the stage cache */
+    cacheHits?: TraceStage[];
   };
 }
 
+/**
+ * What geometry validation changed; no polygon is lost without being counted here
+ */
+export interface GeometryRepairs {
+  /** Self-intersecting polygons rebuilt as a single simple polygon */
+  repaired: number;
+  /** Self-intersecting polygons that came apart into several polygons, all of which are kept */
+  split: number;
+  /** Degenerate polygons removed (fewer than 3 distinct points or no enclosed area) */
+  dropped: number;
+}
+
 export interface Point {
   x: number;
   y: number;
@@ -51,6 +277,74 @@ export interface Polygon {
   exterior: Point[];
   /** Interior holes */
   holes: Point[][];
+  /** Optional curve representation of the rings, preferred by exporters when present */
+  curves?: PolygonCurves;
+}
+
+/**
+ * Polygons traced from one quantized color
+ */
+export interface ColorLayer {
+  /** Fill color as #rrggbb */
+  color: string;
+  /** Polygons covering the regions of this color */
+  polygons: Polygon[];
+}
+
+export interface Polyline {
+  /** Vertices along the line */
+  points: Point[];
+  /** Whether the last point connects back to the first */
+  closed: boolean;
+  /** Optional curve representation of the line, preferred by exporters when present */
+  curve?: CurvePath;
+}
+
+export interface PolygonCurves {
+  /** Curve path of the exterior ring (null = use the point ring) */
+  exterior: CurvePath | null;
+  /** Curve paths of the holes, index-aligned with Polygon.holes */
+  holes: (CurvePath | null)[];
+}
+
+/**
+ * Path of connected segments, each starting where the previous one ended
+ */
+export interface CurvePath {
+  /** Start point of the first segment */
+  start: Point;
+  /** Segments in drawing order */
+  segments: PathSegment[];
+}
+
+export type PathSegment = LineSegment | CubicSegment | ArcSegment;
+
+export interface LineSegment {
+  type: 'line';
+  /** End point */
+  to: Point;
+}
+
+export interface CubicSegment {
+  type: 'cubic';
+  /** First control point */
+  control1: Point;
+  /** Second control point */
+  control2: Point;
+  /** End point */
+  to: Point;
+}
+
+export interface ArcSegment {
+  type: 'arc';
+  /** Circle center */
+  center: Point;
+  /** Circle radius */
+  radius: number;
+  /** Signed sweep in radians, positive in the direction of increasing atan2 angle (±2π = full circle) */
+  sweep: number;
+  /** End point */
+  to: Point;
 }
 
 export interface ProcessingOptions {
@@ -73,6 +367,19 @@ export interface ImageData {
   data: Uint8Array;
 }
 
+/**
+ * Single-channel raster with one byte per pixel, used from binarization onward
+ * Binary bitmaps hold 1 for foreground (ink) and 0 for background
+ */
+export interface Bitmap {
+  /** Bitmap width in pixels */
+  width: number;
+  /** Bitmap height in pixels */
+  height: number;
+  /** Row-major pixel values */
+  data: Uint8Array;
+}
+
 export interface ContourHierarchy {
   /** Contour index */
   index: number;
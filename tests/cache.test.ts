@@ -0,0 +1,100 @@
+import { StageCache, hashContent, stageKey, imageSize, pathsSize } from '../apps/server/src/trace/cache';
+
+describe('Stage Cache', () => {
+  describe('StageCache', () => {
+    it('should return stored values and undefined on a miss', () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      cache.set('a', [1, 2, 3], 10);
+
+      expect(cache.get('a')).toEqual([1, 2, 3]);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.bytes).toBe(10);
+    });
+
+    it('should evict the least recently used entries beyond the budget', () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      cache.set('first', 1, 40);
+      cache.set('second', 2, 40);
+      cache.get('first'); // First is now the most recently used
+
+      cache.set('third', 3, 40);
+
+      expect(cache.get('first')).toBe(1);
+      expect(cache.get('second')).toBeUndefined();
+      expect(cache.get('third')).toBe(3);
+      expect(cache.bytes).toBe(80);
+    });
+
+    it('should not cache values larger than the whole budget', () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      cache.set('kept', 1, 60);
+      cache.set('huge', 2, 200);
+
+      expect(cache.get('huge')).toBeUndefined();
+      expect(cache.get('kept')).toBe(1);
+    });
+
+    it('should replace entries stored under the same key', () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      cache.set('a', 1, 30);
+      cache.set('a', 2, 50);
+
+      expect(cache.get('a')).toBe(2);
+      expect(cache.size).toBe(1);
+      expect(cache.bytes).toBe(50);
+    });
+
+    it('should compute once and report hits when memoizing', async () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      const compute = jest.fn(async () => 'contours');
+
+      const first = await cache.memoize('key', compute, () => 10);
+      const second = await cache.memoize('key', compute, () => 10);
+
+      expect(first).toEqual({ value: 'contours', hit: false });
+      expect(second).toEqual({ value: 'contours', hit: true });
+      expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed computations', async () => {
+      const cache = new StageCache({ maxBytes: 100 });
+
+      await expect(cache.memoize('key', () => { throw new Error('aborted'); }, () => 10)).rejects.toThrow('aborted');
+      expect(cache.size).toBe(0);
+    });
+
+    it('should drop everything on clear', () => {
+      const cache = new StageCache({ maxBytes: 100 });
+      cache.set('a', 1, 30);
+      cache.clear();
+
+      expect(cache.size).toBe(0);
+      expect(cache.bytes).toBe(0);
+    });
+  });
+
+  describe('keys', () => {
+    it('should hash identical content to the same key', () => {
+      expect(hashContent(Buffer.from('png'))).toBe(hashContent(Buffer.from('png')));
+      expect(hashContent(Buffer.from('png'))).not.toBe(hashContent(Buffer.from('jpg')));
+    });
+
+    it('should derive stage keys from the input key and the stage parameters', () => {
+      const root = hashContent(Buffer.from('png'));
+      const key = stageKey(root, 'threshold', ['fixed', 128]);
+
+      expect(stageKey(root, 'threshold', ['fixed', 128])).toBe(key);
+      expect(stageKey(root, 'threshold', ['fixed', 129])).not.toBe(key);
+      expect(stageKey(root, 'despeckle', ['fixed', 128])).not.toBe(key);
+      expect(stageKey(hashContent(Buffer.from('other')), 'threshold', ['fixed', 128])).not.toBe(key);
+    });
+  });
+
+  describe('size estimates', () => {
+    it('should count raster bytes and path points', () => {
+      expect(imageSize({ width: 2, height: 2, data: new Uint8Array(16) })).toBe(16);
+      expect(pathsSize([[{ x: 0, y: 0 }, { x: 1, y: 0 }], [{ x: 1, y: 1 }]])).toBe(pathsSize([[{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }]]));
+      expect(pathsSize([])).toBe(0);
+    });
+  });
+});
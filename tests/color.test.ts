@@ -0,0 +1,81 @@
+import { quantizeColors, createClusterMask, toHexColor } from '../apps/server/src/trace/color';
+import type { ImageData } from '../shared/types';
+
+describe('Color Quantization', () => {
+  type Color = [number, number, number];
+
+  // Helper to create an RGB image from a color function
+  const createColorImage = (width: number, height: number, colorAt: (x: number, y: number) => Color): ImageData => {
+    const data = new Uint8Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = (y * width + x) * 4;
+        const [r, g, b] = colorAt(x, y);
+        data[index] = r;
+        data[index + 1] = g;
+        data[index + 2] = b;
+        data[index + 3] = 255;
+      }
+    }
+
+    return { width, height, data };
+  };
+
+  const white: Color = [255, 255, 255];
+  const red: Color = [220, 30, 30];
+  const blue: Color = [30, 60, 200];
+
+  // White background with a red square on the left and a smaller blue square on the right
+  const createFlag = () => createColorImage(40, 20, (x, y) => {
+    if (y >= 4 && y < 16 && x >= 4 && x < 16) return red;
+    if (y >= 6 && y < 14 && x >= 24 && x < 32) return blue;
+    return white;
+  });
+
+  describe('quantizeColors', () => {
+    it('should recover the exact colors of a flat image', () => {
+      const quantized = quantizeColors(createFlag(), 3);
+
+      expect(quantized.palette.map(toHexColor)).toEqual(['#ffffff', '#dc1e1e', '#1e3cc8']);
+      expect(quantized.counts).toEqual([800 - 144 - 64, 144, 64]);
+      expect(quantized.background).toBe(0);
+    });
+
+    it('should choose the number of colors automatically', () => {
+      const quantized = quantizeColors(createFlag());
+
+      expect(quantized.palette).toHaveLength(3);
+    });
+
+    it('should be deterministic', () => {
+      const first = quantizeColors(createFlag());
+      const second = quantizeColors(createFlag());
+
+      expect(second.palette).toEqual(first.palette);
+      expect(Array.from(second.labels)).toEqual(Array.from(first.labels));
+    });
+
+    it('should not invent colors for a single-color image', () => {
+      const quantized = quantizeColors(createColorImage(10, 10, () => blue), 4);
+
+      expect(quantized.palette).toEqual([blue]);
+    });
+  });
+
+  describe('createClusterMask', () => {
+    it('should mark only the pixels of one cluster as foreground', () => {
+      const quantized = quantizeColors(createFlag(), 3);
+      const mask = createClusterMask(quantized, 40, 20, 2);
+
+      let foreground = 0;
+      for (let i = 0; i < 40 * 20; i++) {
+        if (mask.data[i] === 1) foreground++;
+      }
+
+      expect(foreground).toBe(64);
+      expect(mask.data[10 * 40 + 28]).toBe(1); // Inside the blue square
+      expect(mask.data[10 * 40 + 10]).toBe(0); // Inside the red square
+    });
+  });
+});
@@ -1,20 +1,14 @@
-import { extractContours, simplifyContours, calculatePolygonArea, ensureWindingOrder } from '../apps/server/src/trace/contour';
-import type { ImageData, Point } from '../shared/types';
+import { extractContours, traceBorders, simplifyContours, calculatePolygonArea, ensureWindingOrder } from '../apps/server/src/trace/contour';
+import type { Bitmap, Point } from '../shared/types';
 
 describe('Contour Extraction', () => {
-  // Helper to create binary image data
-  const createBinaryImage = (width: number, height: number, pattern: number[][]): ImageData => {
-    const data = new Uint8Array(width * height * 4);
+  // Helper to create a binary bitmap
+  const createBinaryImage = (width: number, height: number, pattern: number[][]): Bitmap => {
+    const data = new Uint8Array(width * height);
     
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        const value = pattern[y] && pattern[y][x] ? 0 : 255; // 0 = black (foreground), 255 = white (background)
-        
-        data[index] = value;     // R
-        data[index + 1] = value; // G
-        data[index + 2] = value; // B
-        data[index + 3] = 255;   // A
+        data[y * width + x] = pattern[y] && pattern[y][x] ? 1 : 0; // 1 = foreground, 0 = background
       }
     }
     
@@ -113,6 +107,73 @@ describe('Contour Extraction', () => {
       // This tests edge case handling
       expect(Array.isArray(contours)).toBe(true);
     });
+
+    it('should terminate on a filled disc', () => {
+      // Traces started on the inner steps of the outline used to circle it forever
+      const pattern = Array.from({ length: 40 }, (_, y) => Array.from({ length: 40 }, (_, x) => ((x - 20) ** 2 + (y - 20) ** 2 < 225 ? 1 : 0)));
+      
+      const contours = extractContours(createBinaryImage(40, 40, pattern));
+      
+      expect(contours.length).toBeGreaterThan(0);
+      expect(contours[0].points.length).toBeGreaterThan(40);
+    });
+
+    it('should parent islands inside holes to the enclosing contour', () => {
+      // Ring with an island in its hole, and a second island inside a hole of the first island
+      const pattern = [
+        [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+        [0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0],
+        [0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0],
+        [0, 1, 0, 1, 1, 1, 1, 1, 1, 1, 0, 1, 0],
+        [0, 1, 0, 1, 0, 0, 0, 0, 0, 1, 0, 1, 0],
+        [0, 1, 0, 1, 0, 1, 1, 1, 0, 1, 0, 1, 0],
+        [0, 1, 0, 1, 0, 1, 1, 1, 0, 1, 0, 1, 0],
+        [0, 1, 0, 1, 0, 0, 0, 0, 0, 1, 0, 1, 0],
+        [0, 1, 0, 1, 1, 1, 1, 1, 1, 1, 0, 1, 0],
+        [0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0],
+        [0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0],
+        [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      ];
+
+      const contours = extractContours(createBinaryImage(13, 12, pattern));
+
+      expect(contours).toHaveLength(3);
+      expect(contours.map(contour => contour.parent)).toEqual([-1, 0, 1]);
+      expect(contours.map(contour => contour.holes.length)).toEqual([1, 1, 0]);
+    });
+
+    it('should stop when the abort signal has fired', () => {
+      const imageData = createBinaryImage(3, 3, [[0, 0, 0], [0, 1, 0], [0, 0, 0]]);
+      const abortController = new AbortController();
+      abortController.abort();
+
+      expect(() => extractContours(imageData, abortController.signal)).toThrow();
+    });
+  });
+
+  describe('traceBorders', () => {
+    it('should build the outer/hole hierarchy', () => {
+      const pattern = [
+        [1, 1, 1, 1, 1, 0, 1, 1],
+        [1, 0, 0, 0, 1, 0, 1, 1],
+        [1, 0, 1, 0, 1, 0, 0, 0],
+        [1, 0, 0, 0, 1, 0, 0, 0],
+        [1, 1, 1, 1, 1, 0, 0, 0],
+      ];
+
+      const { borders, hierarchy } = traceBorders(createBinaryImage(8, 5, pattern));
+
+      // Scan order: square, its neighbour, the square's hole, the dot in the hole
+      expect(hierarchy).toEqual([
+        { index: 0, parent: -1, children: [2], isHole: false },
+        { index: 1, parent: -1, children: [], isHole: false },
+        { index: 2, parent: 0, children: [3], isHole: true },
+        { index: 3, parent: 2, children: [], isHole: false },
+      ]);
+      expect(borders[0]).toHaveLength(16); // Border pixels of the 5x5 square, each once
+      expect(borders[2]).toHaveLength(12); // 8-connected, so the hole's corners are skipped
+      expect(borders[3]).toEqual([{ x: 2, y: 2 }]);
+    });
   });
 
   describe('simplifyContours', () => {
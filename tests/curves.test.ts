@@ -0,0 +1,111 @@
+import { fitCurvePath, fitPolygonCurves, detectCorners, evaluateCubic, countCurveSegments } from '../apps/server/src/trace/curves';
+import type { Point, CurvePath, Polygon } from '../shared/types';
+
+describe('Curve Fitting', () => {
+  const options = { tolerance: 0.5, cornerAngle: 60 };
+
+  const createCircle = (radius: number, count: number): Point[] => {
+    const points: Point[] = [];
+    for (let i = 0; i < count; i++) {
+      const angle = (i / count) * Math.PI * 2;
+      points.push({ x: 50 + radius * Math.cos(angle), y: 50 + radius * Math.sin(angle) });
+    }
+    points.push({ ...points[0] }); // Closed
+    return points;
+  };
+
+  const createSquare = (size: number = 10): Point[] => [
+    { x: 0, y: 0 },
+    { x: size, y: 0 },
+    { x: size, y: size },
+    { x: 0, y: size },
+    { x: 0, y: 0 }, // Closed
+  ];
+
+  // Sample every segment of a path and return the sampled points
+  const samplePath = (path: CurvePath): Point[] => {
+    const samples: Point[] = [];
+    let current = path.start;
+    for (const segment of path.segments) {
+      for (let t = 0; t <= 1; t += 0.1) {
+        samples.push(segment.type === 'cubic'
+          ? evaluateCubic(current, segment.control1, segment.control2, segment.to, t)
+          : { x: current.x + (segment.to.x - current.x) * t, y: current.y + (segment.to.y - current.y) * t });
+      }
+      current = segment.to;
+    }
+    return samples;
+  };
+
+  describe('fitCurvePath', () => {
+    it('should fit a circle with a few cubic segments', () => {
+      const circle = createCircle(20, 64);
+      const path = fitCurvePath(circle, true, options);
+
+      expect(path).not.toBeNull();
+      expect(path!.segments.every(segment => segment.type === 'cubic')).toBe(true);
+      expect(path!.segments.length).toBeLessThan(16);
+
+      // Fitted curve stays close to the true circle
+      for (const sample of samplePath(path!)) {
+        expect(Math.abs(Math.hypot(sample.x - 50, sample.y - 50) - 20)).toBeLessThan(1);
+      }
+    });
+
+    it('should keep the corners of a square as straight lines', () => {
+      const path = fitCurvePath(createSquare(), true, options);
+
+      expect(path).not.toBeNull();
+      expect(path!.segments).toHaveLength(4);
+      expect(path!.segments.every(segment => segment.type === 'line')).toBe(true);
+    });
+
+    it('should end closed paths at their start point', () => {
+      const path = fitCurvePath(createCircle(10, 32), true, options);
+      const last = path!.segments[path!.segments.length - 1];
+
+      expect(last.to.x).toBeCloseTo(path!.start.x);
+      expect(last.to.y).toBeCloseTo(path!.start.y);
+    });
+
+    it('should fit a straight open line with a single line segment', () => {
+      const line = [0, 1, 2, 3, 4, 5].map(x => ({ x: x * 2, y: 0 }));
+      const path = fitCurvePath(line, false, options);
+
+      expect(path!.segments).toEqual([{ type: 'line', to: { x: 10, y: 0 } }]);
+    });
+
+    it('should return null for degenerate input', () => {
+      expect(fitCurvePath([{ x: 0, y: 0 }], false, options)).toBeNull();
+      expect(fitCurvePath([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 0 }], true, options)).toBeNull();
+    });
+  });
+
+  describe('detectCorners', () => {
+    it('should find all four corners of a square', () => {
+      const square = createSquare().slice(0, -1);
+      expect(detectCorners(square, true, 60)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should not report corners on a smooth circle', () => {
+      const circle = createCircle(20, 64).slice(0, -1);
+      expect(detectCorners(circle, true, 60)).toEqual([]);
+    });
+  });
+
+  describe('fitPolygonCurves', () => {
+    it('should attach curves to exterior and holes without changing the point rings', () => {
+      const polygon: Polygon = {
+        exterior: createCircle(30, 64),
+        holes: [createSquare(10).map(p => ({ x: p.x + 45, y: p.y + 45 }))],
+      };
+
+      const [fitted] = fitPolygonCurves([polygon], options);
+
+      expect(fitted.exterior).toBe(polygon.exterior);
+      expect(fitted.curves?.exterior).not.toBeNull();
+      expect(fitted.curves?.holes).toHaveLength(1);
+      expect(countCurveSegments([fitted])).toBeGreaterThan(0);
+    });
+  });
+});
@@ -132,10 +132,196 @@ describe('DXF Generation', () => {
       
       const dxf = generateDXF(polygons, 100, 100, false);
 
-      // Check that coordinates are formatted with appropriate precision
+      // Check that coordinates are formatted with appropriate precision (y is mirrored to point up)
       expect(dxf).toContain('1.123457'); // Should be rounded to 6 decimal places
-      expect(dxf).toContain('2.987654');
-      expect(dxf).toContain('10.333333');
+      expect(dxf).toContain('97.012346');
+      expect(dxf).toContain('89.666667');
+    });
+  });
+
+  describe('fitted curves', () => {
+    const curvedPolygon: Polygon = {
+      exterior: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+        { x: 0, y: 0 },
+      ],
+      holes: [],
+      curves: {
+        exterior: {
+          start: { x: 0, y: 0 },
+          segments: [
+            { type: 'line', to: { x: 10, y: 0 } },
+            { type: 'cubic', control1: { x: 15, y: 3 }, control2: { x: 15, y: 7 }, to: { x: 10, y: 10 } },
+            { type: 'line', to: { x: 0, y: 10 } },
+            { type: 'line', to: { x: 0, y: 0 } },
+          ],
+        },
+        holes: [],
+      },
+    };
+
+    it('should write curves as bulged LWPOLYLINE arcs instead of SPLINE', () => {
+      const dxf = generateDXF([curvedPolygon], 100, 100, false);
+
+      expect(dxf).not.toContain('SPLINE');
+      expect(dxf.split('\n')).toContain('42'); // Bulge group code
+      expect((dxf.match(/LWPOLYLINE/g) || []).length).toBe(1);
+    });
+
+    it('should keep curved polylines closed', () => {
+      const dxf = generateDXF([curvedPolygon], 100, 100, false);
+      const validation = validateDXFOutput(dxf);
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.warnings.some(w => w.includes('unclosed'))).toBe(false);
+    });
+
+    it('should bulge towards the control points', () => {
+      const dxf = generateDXF([curvedPolygon], 100, 100, false);
+      const lines = dxf.split('\n');
+      const bulges = lines
+        .map((line, i) => (line === '42' ? parseFloat(lines[i + 1]) : null))
+        .filter((value): value is number => value !== null);
+
+      // The curve turns counter-clockwise in image space, so clockwise once y points up
+      expect(bulges.length).toBeGreaterThan(0);
+      expect(bulges.every(b => b < 0)).toBe(true);
+    });
+  });
+
+  describe('circle and arc primitives', () => {
+    const circlePolygon: Polygon = {
+      exterior: [
+        { x: 60, y: 50 },
+        { x: 50, y: 60 },
+        { x: 40, y: 50 },
+        { x: 50, y: 40 },
+        { x: 60, y: 50 },
+      ],
+      holes: [],
+      curves: {
+        exterior: {
+          start: { x: 60, y: 50 },
+          segments: [{ type: 'arc', center: { x: 50, y: 50 }, radius: 10, sweep: Math.PI * 2, to: { x: 60, y: 50 } }],
+        },
+        holes: [],
+      },
+    };
+
+    it('should write detected circles as CIRCLE entities', () => {
+      const dxf = generateDXF([circlePolygon], 100, 100, false);
+      const lines = dxf.split('\n');
+      const circleIndex = lines.indexOf('CIRCLE');
+
+      expect(circleIndex).toBeGreaterThan(-1);
+      expect(dxf).not.toContain('LWPOLYLINE');
+      expect(lines[lines.indexOf('40', circleIndex) + 1]).toBe('10');
+    });
+
+    it('should fill circles with a two-bulge HATCH boundary', () => {
+      const dxf = generateDXF([circlePolygon], 100, 100, true);
+      const lines = dxf.split('\n');
+      const hatchLines = lines.slice(lines.indexOf('HATCH'));
+      const bulges = hatchLines
+        .map((line, i) => (line === '42' ? parseFloat(hatchLines[i + 1]) : null))
+        .filter((value): value is number => value !== null);
+
+      expect(bulges).toEqual([-1, -1]); // Mirrored y turns the circle clockwise
+    });
+
+    it('should write an open arc centerline as an ARC entity', () => {
+      const dxf = generateDXF([], 100, 100, false, {
+        polylines: [
+          {
+            points: [{ x: 10, y: 0 }, { x: 0, y: 10 }],
+            closed: false,
+            curve: {
+              start: { x: 10, y: 0 },
+              segments: [{ type: 'arc', center: { x: 0, y: 0 }, radius: 10, sweep: Math.PI / 2, to: { x: 0, y: 10 } }],
+            },
+          },
+        ],
+      });
+      const lines = dxf.split('\n');
+      const arcIndex = lines.indexOf('ARC');
+
+      // Mirrored y: the quarter arc runs clockwise from 0° to 270°, written counter-clockwise from 270° to 0°
+      expect(arcIndex).toBeGreaterThan(-1);
+      expect(lines[lines.indexOf('50', arcIndex) + 1]).toBe('270');
+      expect(lines[lines.indexOf('51', arcIndex) + 1]).toBe('0');
+    });
+  });
+
+  describe('color layers', () => {
+    const colorLayers = [
+      { color: '#dc1e1e', polygons: [createTestPolygons()[0]] },
+      { color: '#1e3cc8', polygons: [createTestPolygons()[1]] },
+    ];
+
+    it('should add one layer per color with its true color', () => {
+      const dxf = generateDXF([], 100, 100, false, { colorLayers });
+      const lines = dxf.split('\n');
+
+      const redLayer = lines.indexOf('VW_CLASS_Color_1');
+      const blueLayer = lines.indexOf('VW_CLASS_Color_2');
+      expect(redLayer).toBeGreaterThan(-1);
+      expect(blueLayer).toBeGreaterThan(-1);
+      expect(lines[lines.indexOf('420', redLayer) + 1]).toBe((0xdc1e1e).toString());
+      expect(lines[lines.indexOf('420', blueLayer) + 1]).toBe((0x1e3cc8).toString());
+    });
+
+    it('should place outlines and solid fills on the color layers', () => {
+      const dxf = generateDXF([], 100, 100, false, { colorLayers });
+      const entities = dxf.slice(dxf.indexOf('ENTITIES'));
+
+      expect((entities.match(/VW_CLASS_Color_1/g) || []).length).toBe(2); // Outline + HATCH
+      expect((entities.match(/VW_CLASS_Color_2/g) || []).length).toBe(3); // Exterior, hole + HATCH
+      expect((entities.match(/HATCH/g) || []).length).toBe(2);
+    });
+  });
+
+  describe('real-world units', () => {
+    it('should scale coordinates and declare millimetres in the header', () => {
+      const dxf = generateDXF(createTestPolygons(), 100, 50, false, { scale: { units: 'mm', unitsPerPixel: 0.5 } });
+      const lines = dxf.split('\n');
+
+      expect(lines[lines.indexOf('$INSUNITS') + 2]).toBe('4');
+      const extMax = lines.indexOf('$EXTMAX');
+      expect(lines.slice(extMax + 1, extMax + 5)).toEqual(['10', '50', '20', '25']);
+
+      const entities = lines.slice(lines.indexOf('ENTITIES'));
+      const firstVertex = entities.indexOf('10');
+      expect(entities.slice(firstVertex, firstVertex + 8)).toEqual(['10', '0', '20', '25', '10', '5', '20', '25']);
+    });
+
+    it('should write unitless pixel coordinates by default', () => {
+      const lines = generateDXF(createTestPolygons(), 100, 50).split('\n');
+
+      expect(lines[lines.indexOf('$INSUNITS') + 2]).toBe('0');
+      const extMax = lines.indexOf('$EXTMAX');
+      expect(lines.slice(extMax + 1, extMax + 5)).toEqual(['10', '100', '20', '50']);
+    });
+  });
+
+  describe('CAD orientation', () => {
+    it('should flip y so the image bottom-left becomes the origin', () => {
+      const lines = generateDXF(createTestPolygons(), 100, 50).split('\n');
+      const entities = lines.slice(lines.indexOf('ENTITIES'));
+      const firstVertex = entities.indexOf('10');
+
+      expect(entities.slice(firstVertex, firstVertex + 8)).toEqual(['10', '0', '20', '50', '10', '10', '20', '50']);
+    });
+
+    it('should center the extents on the image center', () => {
+      const lines = generateDXF([], 100, 50, false, { origin: 'center' }).split('\n');
+      const extMin = lines.indexOf('$EXTMIN');
+      const extMax = lines.indexOf('$EXTMAX');
+
+      expect(lines.slice(extMin + 1, extMin + 5)).toEqual(['10', '-50', '20', '-25']);
+      expect(lines.slice(extMax + 1, extMax + 5)).toEqual(['10', '50', '20', '25']);
     });
   });
 
@@ -1,5 +1,6 @@
-import { validateGeometry, cleanupGeometry, isValidPolygon } from '../apps/server/src/trace/geometry';
+import { validateGeometry, cleanupGeometry, isValidPolygon, rectilinearize, detectDominantOrientation, offsetPolygons, dissolvePolygons, containsPoint } from '../apps/server/src/trace/geometry';
 import type { Polygon, Point } from '../shared/types';
+import * as martinez from 'martinez-polygon-clipping';
 
 describe('Geometry Validation', () => {
   const createSquare = (size: number = 10): Point[] => [
@@ -76,6 +77,80 @@ describe('Geometry Validation', () => {
       const signedArea = calculateSignedArea(result[0].exterior);
       expect(signedArea).toBeLessThan(0); // CCW has negative signed area
     });
+
+    it('should keep every part of a self-intersecting polygon', () => {
+      // Figure-8 crossing itself at (10, 10), with a hole in the right lobe
+      const figureEight = [
+        { x: 0, y: 0 }, { x: 20, y: 20 }, { x: 20, y: 0 }, { x: 0, y: 20 }, { x: 0, y: 0 },
+      ];
+      const hole = [{ x: 16, y: 9 }, { x: 16, y: 11 }, { x: 18, y: 11 }, { x: 18, y: 9 }, { x: 16, y: 9 }];
+      const repairs = { repaired: 0, split: 0, dropped: 0 };
+
+      const result = validateGeometry([{ exterior: figureEight, holes: [hole] }], repairs);
+
+      expect(result).toHaveLength(2);
+      const lobes = [...result].sort((a, b) => a.exterior[0].x - b.exterior[0].x);
+      expect(lobes[0].holes).toHaveLength(0);
+      expect(lobes[1].holes).toHaveLength(1);
+      expect(lobes.map(lobe => Math.abs(calculateSignedArea(lobe.exterior)))).toEqual([100, 100]);
+      expect(calculateSignedArea(lobes[1].exterior)).toBeLessThan(0);
+      expect(calculateSignedArea(lobes[1].holes[0])).toBeGreaterThan(0);
+      expect(repairs).toEqual({ repaired: 0, split: 1, dropped: 0 });
+    });
+
+    it('should repair self-intersections in rings too large to spread into call arguments', () => {
+      // 2000 px figure-8 with its first diagonal traced as 200,000 points
+      const diagonal = Array.from({ length: 200000 }, (_, i) => ({ x: i / 100, y: i / 100 }));
+      const figureEight = [...diagonal, { x: 2000, y: 2000 }, { x: 2000, y: 0 }, { x: 0, y: 2000 }, { x: 0, y: 0 }];
+      const repairs = { repaired: 0, split: 0, dropped: 0 };
+
+      const result = validateGeometry([{ exterior: figureEight, holes: [] }], repairs);
+
+      expect(result).toHaveLength(2);
+      expect(repairs).toEqual({ repaired: 0, split: 1, dropped: 0 });
+    });
+
+    it('should count repaired and dropped polygons', () => {
+      // Square with a loop crossing its left edge, and a ring with no area
+      const looped = [
+        { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }, { x: 0, y: 4 },
+        { x: 3, y: 4 }, { x: 3, y: 6 }, { x: -2, y: 6 }, { x: -2, y: 4 }, { x: 0, y: 4 }, { x: 0, y: 0 },
+      ];
+      const flat = [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 0 }];
+      const repairs = { repaired: 0, split: 0, dropped: 0 };
+
+      const result = validateGeometry([
+        { exterior: createSquare(), holes: [] },
+        { exterior: looped, holes: [] },
+        { exterior: flat, holes: [] },
+        { exterior: [{ x: 0, y: 0 }], holes: [] },
+      ], repairs);
+
+      expect(result).toHaveLength(2);
+      expect(result[0].exterior).toEqual(createSquare()); // Simple polygons are left as they are
+      expect(result[1].exterior).not.toEqual(looped);
+      expect(repairs).toEqual({ repaired: 1, split: 0, dropped: 2 });
+    });
+
+    it('should only clip polygons whose edges meet', () => {
+      // A hole lying against the exterior's edge meets it; a hole inside does not
+      const intersection = jest.spyOn(martinez, 'intersection');
+      const inside = createSquare(4).map(p => ({ x: p.x + 3, y: p.y + 3 }));
+      const touching = createSquare(4).map(p => ({ x: p.x + 6, y: p.y + 3 }));
+      const repairs = { repaired: 0, split: 0, dropped: 0 };
+
+      try {
+        validateGeometry([
+          { exterior: createSquare(), holes: [inside] },
+          { exterior: createSquare(), holes: [touching] },
+        ], repairs);
+
+        expect(intersection).toHaveBeenCalledTimes(1);
+        expect(repairs.repaired + repairs.split + repairs.dropped).toBe(1);
+      } finally {
+        intersection.mockRestore();
+      }
+    });
   });
 
   describe('cleanupGeometry', () => {
@@ -155,6 +230,196 @@ describe('Geometry Validation', () => {
     });
   });
 
+  describe('rectilinearize', () => {
+    // Slightly skewed walls: 0.4° and 89.7° instead of 0° and 90°
+    const createSkewedRoom = (): Point[] => [
+      { x: 0, y: 0 },
+      { x: 100, y: 0.7 },
+      { x: 100.5, y: 60 },
+      { x: 0.3, y: 60.2 },
+      { x: 0, y: 0 },
+    ];
+
+    const edgeAngles = (ring: Point[]): number[] =>
+      ring.slice(0, -1).map((p, i) => (Math.atan2(ring[i + 1].y - p.y, ring[i + 1].x - p.x) * 180) / Math.PI);
+
+    it('should snap nearly orthogonal edges to exact angles', () => {
+      const [result] = rectilinearize([{ exterior: createSkewedRoom(), holes: [] }], 3);
+
+      expect(result.exterior).toHaveLength(5);
+      for (const angle of edgeAngles(result.exterior)) {
+        const remainder = Math.abs(angle) % 90;
+        expect(Math.min(remainder, 90 - remainder)).toBeLessThan(0.5); // Within the dominant orientation spread
+      }
+
+      // Opposite walls become exactly parallel and neighbours exactly perpendicular
+      const [a, b, c, d] = edgeAngles(result.exterior);
+      expect(Math.abs(Math.abs(a - c) - 180)).toBeLessThan(1e-9);
+      expect(Math.abs(Math.abs(b - d) - 180)).toBeLessThan(1e-9);
+      expect(Math.abs(Math.abs(a - b) - 90)).toBeLessThan(1e-9);
+    });
+
+    it('should keep rings closed and valid', () => {
+      const [result] = rectilinearize([{ exterior: createSkewedRoom(), holes: [] }], 3);
+      const ring = result.exterior;
+
+      expect(ring[0]).toEqual(ring[ring.length - 1]);
+      expect(isValidPolygon(result)).toBe(true);
+    });
+
+    it('should follow a rotated drawing instead of the image axes', () => {
+      const angle = (20 * Math.PI) / 180;
+      const rotate = (p: Point): Point => ({
+        x: p.x * Math.cos(angle) - p.y * Math.sin(angle),
+        y: p.x * Math.sin(angle) + p.y * Math.cos(angle),
+      });
+      const polygon: Polygon = { exterior: createSkewedRoom().map(rotate), holes: [] };
+
+      const orientation = detectDominantOrientation([polygon]);
+      expect((orientation! * 180) / Math.PI).toBeGreaterThan(19);
+      expect((orientation! * 180) / Math.PI).toBeLessThan(21);
+    });
+
+    it('should leave edges outside the tolerance untouched', () => {
+      const triangle: Point[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 30, y: 70 }, { x: 0, y: 0 }];
+      const [result] = rectilinearize([{ exterior: triangle, holes: [] }], 3);
+
+      expect(result.exterior).toHaveLength(triangle.length);
+      result.exterior.forEach((point, i) => {
+        expect(point.x).toBeCloseTo(triangle[i].x, 9);
+        expect(point.y).toBeCloseTo(triangle[i].y, 9);
+      });
+    });
+  });
+
+  describe('offsetPolygons', () => {
+    const offsetSquare = (x: number, y: number, size: number): Point[] =>
+      createSquare(size).map(p => ({ x: p.x + x, y: p.y + y }));
+
+    const filledArea = (polygons: Polygon[]): number => polygons.reduce((total, polygon) =>
+      total + Math.abs(calculateSignedArea(polygon.exterior)) - polygon.holes.reduce((holes, hole) => holes + Math.abs(calculateSignedArea(hole)), 0), 0);
+
+    const bounds = (ring: Point[]) => ({
+      x0: Math.min(...ring.map(p => p.x)),
+      y0: Math.min(...ring.map(p => p.y)),
+      x1: Math.max(...ring.map(p => p.x)),
+      y1: Math.max(...ring.map(p => p.y)),
+    });
+
+    it('should grow exteriors outward with the requested corners', () => {
+      const square: Polygon = { exterior: createSquare(10), holes: [] };
+
+      const [miter] = offsetPolygons([square], 1, { join: 'miter' });
+      expect(miter.exterior).toHaveLength(5);
+      expect(bounds(miter.exterior)).toEqual({ x0: -1, y0: -1, x1: 11, y1: 11 });
+      expect(calculateSignedArea(miter.exterior)).toBeLessThan(0); // Counter-clockwise
+
+      const round = offsetPolygons([square], 1, { join: 'round' });
+      expect(filledArea(round)).toBeGreaterThan(140);
+      expect(filledArea(round)).toBeLessThan(100 + 40 + Math.PI); // Arcs are inscribed
+
+      const squared = offsetPolygons([square], 1, { join: 'square' });
+      expect(squared[0].exterior).toHaveLength(9); // Every corner cut once
+      expect(filledArea(squared)).toBeCloseTo(144 - 4 * (3 - 2 * Math.SQRT2), 6);
+    });
+
+    it('should move holes inward and close them when they shrink to nothing', () => {
+      const frame: Polygon = { exterior: createSquare(20), holes: [offsetSquare(8, 8, 4).reverse()] };
+
+      const [grown] = offsetPolygons([frame], 1, { join: 'miter' });
+      expect(grown.holes).toHaveLength(1);
+      expect(bounds(grown.holes[0])).toEqual({ x0: 9, y0: 9, x1: 11, y1: 11 });
+      expect(calculateSignedArea(grown.holes[0])).toBeGreaterThan(0); // Clockwise
+
+      const [closed] = offsetPolygons([frame], 3, { join: 'miter' });
+      expect(closed.holes).toHaveLength(0);
+      expect(filledArea([closed])).toBeCloseTo(26 * 26, 6);
+    });
+
+    it('should shrink polygons and drop those thinner than the offset', () => {
+      const result = offsetPolygons([
+        { exterior: createSquare(10), holes: [] },
+        { exterior: offsetSquare(20, 0, 4), holes: [] },
+      ], -2.5, { join: 'miter' });
+
+      expect(result).toHaveLength(1);
+      expect(bounds(result[0].exterior)).toEqual({ x0: 2.5, y0: 2.5, x1: 7.5, y1: 7.5 });
+    });
+
+    it('should split a shape whose neck shrinks away', () => {
+      const dumbbell: Point[] = [
+        { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 4.5 }, { x: 20, y: 4.5 }, { x: 20, y: 0 }, { x: 30, y: 0 },
+        { x: 30, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 5.5 }, { x: 10, y: 5.5 }, { x: 10, y: 10 }, { x: 0, y: 10 }, { x: 0, y: 0 },
+      ];
+
+      const result = offsetPolygons([{ exterior: dumbbell, holes: [] }], -1, { join: 'miter' });
+
+      expect(result).toHaveLength(2);
+      expect(filledArea(result)).toBeCloseTo(128, 6);
+    });
+
+    it('should merge polygons that grow into each other', () => {
+      const result = offsetPolygons([
+        { exterior: createSquare(10), holes: [] },
+        { exterior: offsetSquare(11, 0, 10), holes: [] },
+      ], 1, { join: 'miter' });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].holes).toHaveLength(0);
+      expect(filledArea(result)).toBeCloseTo(23 * 12, 6);
+    });
+  });
+
+  describe('dissolvePolygons', () => {
+    const rectangle = (x0: number, y0: number, x1: number, y1: number): Polygon => ({
+      exterior: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }, { x: x0, y: y0 }],
+      holes: [],
+    });
+
+    it('should merge polygons sharing an edge into one outline', () => {
+      const result = dissolvePolygons([rectangle(0, 0, 10, 10), rectangle(10, 0, 20, 10)]);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].exterior).toHaveLength(5); // The shared edge and its end vertices are gone
+      expect(Math.abs(calculateSignedArea(result[0].exterior))).toBe(200);
+      expect(calculateSignedArea(result[0].exterior)).toBeLessThan(0);
+    });
+
+    it('should rebuild the hole enclosed by merged polygons', () => {
+      const frame = [rectangle(0, 0, 30, 10), rectangle(20, 10, 30, 30), rectangle(0, 20, 20, 30), rectangle(0, 10, 10, 20)];
+
+      const result = dissolvePolygons(frame);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].holes).toHaveLength(1);
+      expect(Math.abs(calculateSignedArea(result[0].holes[0]))).toBe(100);
+      expect(calculateSignedArea(result[0].holes[0])).toBeGreaterThan(0);
+    });
+
+    it('should return polygons touching nothing unchanged', () => {
+      const separate = [rectangle(0, 0, 10, 10), rectangle(20, 0, 30, 10)];
+
+      const result = dissolvePolygons(separate);
+
+      expect(result).toHaveLength(2);
+      expect(result).toContain(separate[0]);
+      expect(result).toContain(separate[1]);
+    });
+  });
+
+  describe('containsPoint', () => {
+    it('should test points against open and closed rings', () => {
+      const closed = createSquare();
+      const open = closed.slice(0, -1);
+
+      for (const ring of [closed, open]) {
+        expect(containsPoint(ring, { x: 5, y: 5 })).toBe(true);
+        expect(containsPoint(ring, { x: 15, y: 5 })).toBe(false);
+        expect(containsPoint(ring, { x: 5, y: -1 })).toBe(false);
+      }
+    });
+  });
+
   describe('Even-odd parity', () => {
     it('should maintain proper hole relationships', () => {
       const exterior = createSquare(20);
@@ -0,0 +1,84 @@
+import { ImageStore, ImageTooLargeError } from '../apps/server/src/images';
+import type { DecodedImage } from '../apps/server/src/trace/index';
+
+// N x 1 RGBA image, counted as 4 * N bytes against the budget
+const createImage = (width: number): DecodedImage => ({
+  hash: `hash-${width}`,
+  imageData: { width, height: 1, data: new Uint8Array(width * 4) },
+  dpi: width === 10 ? 300 : null,
+});
+
+describe('Image Store', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store decoded images and return them by id', () => {
+    const store = new ImageStore({ ttlMs: 60000, maxBytes: 1000 });
+
+    const image = store.put(createImage(10));
+    expect(image).toMatchObject({ width: 10, height: 1, dpi: 300 });
+    expect(Date.parse(image.expiresAt)).toBeGreaterThan(Date.now());
+
+    expect(store.get(image.id)?.imageData.width).toBe(10);
+    expect(store.info(image.id)).toMatchObject({ id: image.id, width: 10 });
+    expect(store.get('unknown')).toBeNull();
+    expect(store.info('unknown')).toBeNull();
+  });
+
+  it('should return the same decoded image on every access', () => {
+    const store = new ImageStore({ ttlMs: 60000, maxBytes: 1000 });
+    const { id } = store.put(createImage(5));
+
+    expect(store.get(id)).toBe(store.get(id));
+  });
+
+  it('should evict the least recently used images when the budget is exceeded', () => {
+    const store = new ImageStore({ ttlMs: 60000, maxBytes: 100 });
+
+    const first = store.put(createImage(10)); // 40 bytes
+    const second = store.put(createImage(10)); // 80 bytes
+    store.get(first.id); // First is now the most recently used
+
+    const third = store.put(createImage(10)); // Needs room: second goes
+
+    expect(store.info(first.id)).not.toBeNull();
+    expect(store.info(second.id)).toBeNull();
+    expect(store.info(third.id)).not.toBeNull();
+  });
+
+  it('should reject images larger than the whole budget', () => {
+    const store = new ImageStore({ ttlMs: 60000, maxBytes: 50 });
+    const kept = store.put(createImage(5));
+
+    expect(() => store.put(createImage(20))).toThrow(ImageTooLargeError);
+    expect(store.info(kept.id)).not.toBeNull();
+  });
+
+  it('should expire idle images and extend the lifetime on access', () => {
+    jest.useFakeTimers();
+    const store = new ImageStore({ ttlMs: 1000, maxBytes: 1000 });
+    const { id } = store.put(createImage(5));
+
+    jest.advanceTimersByTime(800);
+    expect(store.get(id)).not.toBeNull();
+
+    jest.advanceTimersByTime(800);
+    expect(store.info(id)).not.toBeNull();
+
+    jest.advanceTimersByTime(300);
+    expect(store.info(id)).toBeNull();
+  });
+
+  it('should delete images and release their budget', () => {
+    const store = new ImageStore({ ttlMs: 60000, maxBytes: 65 });
+    const kept = store.put(createImage(5)); // 20 bytes
+    const deleted = store.put(createImage(10)); // 60 bytes
+
+    expect(store.delete(deleted.id)).toBe(true);
+    expect(store.delete(deleted.id)).toBe(false);
+
+    store.put(createImage(10)); // Fits without evicting the first image
+    expect(store.info(kept.id)).not.toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { traceIsolines } from '../apps/server/src/trace/isolines';
+import type { ImageData } from '../shared/types';
+
+describe('Marching Squares', () => {
+  // Grayscale RGBA image from a luminance function
+  const createGrayImage = (width: number, height: number, luminance: (x: number, y: number) => number): ImageData => {
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = Math.max(0, Math.min(255, Math.round(luminance(x, y))));
+        data.set([value, value, value, 255], (y * width + x) * 4);
+      }
+    }
+    return { width, height, data };
+  };
+
+  // Dark disc whose edge ramps linearly from black to white over two pixels
+  const antialiasedDisc = (size: number, radius: number) => createGrayImage(size, size, (x, y) => {
+    const distance = Math.hypot(x - size / 2, y - size / 2);
+    return 127.5 + (distance - radius) * 128;
+  });
+
+  it('should interpolate edge positions between pixel centers', () => {
+    const columns = [0, 100, 200, 255, 255];
+    const contours = traceIsolines(createGrayImage(5, 3, x => columns[x]), 150);
+
+    expect(contours).toHaveLength(1);
+    const edge = contours[0].points.filter(point => point.x > 1); // Other points are border pixel centers
+    expect(edge.length).toBeGreaterThan(0);
+    edge.forEach(point => expect(point.x).toBeCloseTo(1.495, 3)); // Level 149.5 between 100 and 200
+  });
+
+  it('should trace an anti-aliased disc as a smooth circle', () => {
+    const contours = traceIsolines(antialiasedDisc(40, 12), 128);
+
+    expect(contours).toHaveLength(1);
+    expect(contours[0].holes).toEqual([]);
+    contours[0].points.forEach(point => {
+      expect(Math.abs(Math.hypot(point.x - 20, point.y - 20) - 12)).toBeLessThan(0.05);
+    });
+  });
+
+  it('should accept a per-pixel threshold map', () => {
+    const image = createGrayImage(6, 6, () => 100);
+    const threshold = new Float32Array(36).fill(50);
+    [14, 15, 20, 21].forEach(index => threshold[index] = 200); // 2x2 block darker than its threshold
+
+    const contours = traceIsolines(image, threshold);
+
+    expect(contours).toHaveLength(1);
+    contours[0].points.forEach(point => {
+      expect(point.x).toBeGreaterThan(1);
+      expect(point.x).toBeLessThan(4);
+    });
+  });
+
+  it('should nest holes and islands to any depth', () => {
+    // Square ring around a square ring around a dot
+    const ring = (x: number, y: number, outer: number, inner: number) => {
+      const distance = Math.max(Math.abs(x - 15), Math.abs(y - 15));
+      return distance <= outer && distance > inner;
+    };
+    const image = createGrayImage(31, 31, (x, y) => (ring(x, y, 13, 10) || ring(x, y, 7, 4) || ring(x, y, 1, -1) ? 0 : 255));
+
+    const contours = traceIsolines(image, 128);
+
+    expect(contours).toHaveLength(3);
+    const byParent = [...contours].sort((a, b) => a.parent - b.parent);
+    expect(byParent.map(contour => contour.holes.length)).toEqual([1, 1, 0]);
+    expect(byParent[1].parent).toBe(contours.indexOf(byParent[0]));
+    expect(byParent[2].parent).toBe(contours.indexOf(byParent[1]));
+  });
+
+  it('should close contours along the image border', () => {
+    const contours = traceIsolines(createGrayImage(4, 4, () => 0), 128);
+
+    expect(contours).toHaveLength(1);
+    expect(contours[0].points).toHaveLength(12); // Border pixel centers
+    contours[0].points.forEach(point => expect([point.x, point.y].some(value => value === 0 || value === 3)).toBe(true));
+  });
+
+  it('should stop when the abort signal has fired', () => {
+    const abortController = new AbortController();
+    abortController.abort();
+
+    expect(() => traceIsolines(antialiasedDisc(10, 3), 128, abortController.signal)).toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import { JobQueue, QueueFullError } from '../apps/server/src/jobs';
+import type { TraceRunner } from '../apps/server/src/jobs';
+import type { TraceRequest, TraceResponse } from '../shared/types';
+
+describe('Job Queue', () => {
+  const request: TraceRequest = { fidelity: 50, whiteFill: false };
+
+  const createResponse = (): TraceResponse => ({
+    svg: '<svg />',
+    dxf: '',
+    metrics: { nodeCount: 0, polygonCount: 0, simplification: 1, timings: { vectorization: 0, export: 0, total: 0 } },
+  });
+
+  // Runner that reports each stage and waits for the test to release it
+  const createControlledRunner = () => {
+    const releases: (() => void)[] = [];
+    const runner: TraceRunner = async (buffer, traceRequest, { onProgress, signal }) => {
+      onProgress?.({ stage: 'decoding', percent: 0 });
+      await new Promise<void>(resolve => releases.push(resolve));
+      signal?.throwIfAborted();
+      onProgress?.({ stage: 'contouring', percent: 40, contourCount: 3 });
+      return createResponse();
+    };
+    return { runner, releases };
+  };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should run jobs to completion and keep the result', async () => {
+    const { runner, releases } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 5, retentionMs: 60000, runner });
+
+    const job = queue.submit(Buffer.alloc(0), request);
+    expect(job.status).toBe('running'); // A free slot starts the job right away
+
+    await flush();
+    expect(queue.get(job.id)).toMatchObject({ status: 'running', stage: 'decoding' });
+    expect(queue.getResult(job.id)).toBeNull();
+
+    releases[0]();
+    await flush();
+    expect(queue.get(job.id)).toMatchObject({ status: 'completed', percent: 100 });
+    expect(queue.getResult(job.id)?.svg).toBe('<svg />');
+  });
+
+  it('should respect the concurrency limit and reject submissions beyond the queue limit', async () => {
+    const { runner, releases } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 1, retentionMs: 60000, runner });
+
+    const first = queue.submit(Buffer.alloc(0), request);
+    const second = queue.submit(Buffer.alloc(0), request);
+    await flush();
+
+    expect(queue.get(first.id)?.status).toBe('running');
+    expect(queue.get(second.id)?.status).toBe('queued');
+    expect(() => queue.submit(Buffer.alloc(0), request)).toThrow(QueueFullError);
+
+    releases[0]();
+    await flush();
+    expect(queue.get(second.id)?.status).toBe('running');
+    releases[1]();
+    await flush();
+  });
+
+  it('should cancel queued jobs immediately and abort running jobs through their signal', async () => {
+    const { runner, releases } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 5, retentionMs: 60000, runner });
+
+    const running = queue.submit(Buffer.alloc(0), request);
+    const queued = queue.submit(Buffer.alloc(0), request);
+    await flush();
+
+    expect(queue.cancel(queued.id)?.status).toBe('cancelled');
+    expect(queue.cancel(running.id)?.status).toBe('running');
+
+    releases[0]();
+    await flush();
+    expect(queue.get(running.id)?.status).toBe('cancelled');
+    expect(queue.getResult(running.id)).toBeNull();
+  });
+
+  it('should stream progress snapshots to subscribers until the job finishes', async () => {
+    const { runner, releases } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, maxQueued: 5, retentionMs: 60000, runner });
+    const job = queue.submit(Buffer.alloc(0), request);
+    const events: string[] = [];
+
+    queue.subscribe(job.id, snapshot => events.push(`${snapshot.status}:${snapshot.stage ?? '-'}:${snapshot.percent}`));
+    releases[0]();
+    await flush();
+
+    expect(events).toEqual(['running:contouring:40', 'completed:-:100']);
+    expect(queue.subscribe('unknown', () => undefined)).toBeNull();
+  });
+
+  it('should report failures and forget jobs after the retention period', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    const queue = new JobQueue({
+      concurrency: 1,
+      maxQueued: 5,
+      retentionMs: 1000,
+      runner: async () => { throw new Error('Invalid PNG'); },
+    });
+
+    const job = queue.submit(Buffer.alloc(0), request);
+    await flush();
+    expect(queue.get(job.id)).toMatchObject({ status: 'failed', error: 'Invalid PNG' });
+
+    jest.advanceTimersByTime(1000);
+    expect(queue.get(job.id)).toBeNull();
+    jest.useRealTimers();
+  });
+});
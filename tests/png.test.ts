@@ -0,0 +1,103 @@
+import { deflateSync } from 'zlib';
+import { PNG } from 'pngjs';
+import { readPngHeader, readPngRows } from '../apps/server/src/trace/png';
+
+describe('Row-by-row PNG decoding', () => {
+  const decodeRows = async (buffer: Buffer): Promise<Uint8Array> => {
+    const rows: Uint8Array[] = [];
+    for await (const row of readPngRows(buffer)) rows.push(new Uint8Array(row));
+    return new Uint8Array(Buffer.concat(rows));
+  };
+
+  const pngjsPixels = (buffer: Buffer) => new Uint8Array(PNG.sync.read(buffer, { checkCRC: false }).data);
+
+  // Deterministic noise, so every filter type has something to predict
+  const noise = (length: number, seed: number) => Uint8Array.from({ length }, (_, i) => (i * 7919 + seed * 104729) % 251);
+
+  // Chunks are written without CRCs, which neither decoder needs; IDAT is split every `idatSize` bytes
+  const encodePng = (header: { width: number; height: number; bitDepth: number; colorType: number; interlace?: number },
+    lines: Uint8Array[], extra: { type: string; data: number[] }[] = [], idatSize = 5): Buffer => {
+    const chunk = (type: string, data: Uint8Array) => {
+      const bytes = Buffer.alloc(12 + data.length);
+      bytes.writeUInt32BE(data.length, 0);
+      bytes.write(type, 4, 'ascii');
+      bytes.set(data, 8);
+      return bytes;
+    };
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(header.width, 0);
+    ihdr.writeUInt32BE(header.height, 4);
+    ihdr.set([header.bitDepth, header.colorType, 0, 0, header.interlace || 0], 8);
+
+    const compressed = deflateSync(Buffer.concat(lines.map(line => Buffer.from([0, ...line]))));
+    const idat: Buffer[] = [];
+    for (let offset = 0; offset < compressed.length; offset += idatSize) {
+      idat.push(chunk('IDAT', compressed.subarray(offset, offset + idatSize)));
+    }
+    return Buffer.concat([
+      Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+      chunk('IHDR', ihdr),
+      ...extra.map(({ type, data }) => chunk(type, Uint8Array.from(data))),
+      ...idat,
+      chunk('IEND', new Uint8Array(0)),
+    ]);
+  };
+
+  describe('readPngHeader', () => {
+    it('should read the size and pixel format', () => {
+      const png = new PNG({ width: 5, height: 3 });
+      expect(readPngHeader(PNG.sync.write(png))).toEqual({ width: 5, height: 3, bitDepth: 8, colorType: 6, interlaced: false });
+    });
+
+    it('should reject files that are not PNGs', () => {
+      expect(() => readPngHeader(Buffer.from('GIF89a, not a PNG at all, honestly'))).toThrow('Invalid file signature');
+    });
+  });
+
+  describe('readPngRows', () => {
+    it('should decode every filter, color type and bit depth like pngjs', async () => {
+      for (const colorType of [0, 2, 4, 6]) {
+        for (const bitDepth of [8, 16]) {
+          for (const filterType of [0, 1, 2, 3, 4]) {
+            const png = new PNG({ width: 13, height: 7 });
+            png.data.set(noise(png.data.length, colorType + bitDepth + filterType));
+            const encoded = PNG.sync.write(png, { colorType: colorType as 0 | 2 | 4 | 6, bitDepth: bitDepth as 8 | 16, filterType });
+
+            expect(await decodeRows(encoded)).toEqual(pngjsPixels(encoded));
+          }
+        }
+      }
+    });
+
+    it('should expand palettes and low bit depths with their transparency like pngjs', async () => {
+      const lines = [noise(4, 1), noise(4, 2), noise(4, 3)];
+      const cases = [
+        // 2-bit palette of 4 colors, two of them with alpha
+        encodePng({ width: 15, height: 3, bitDepth: 2, colorType: 3 }, lines, [
+          { type: 'PLTE', data: [255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9] },
+          { type: 'tRNS', data: [0, 128] },
+        ]),
+        // 4-bit gray with gray 5 transparent
+        encodePng({ width: 7, height: 3, bitDepth: 4, colorType: 0 }, lines, [{ type: 'tRNS', data: [0, 5] }]),
+        // 1-bit gray
+        encodePng({ width: 29, height: 3, bitDepth: 1, colorType: 0 }, lines),
+        // 8-bit RGB with one transparent color
+        encodePng({ width: 2, height: 2, bitDepth: 8, colorType: 2 }, [Uint8Array.from([1, 2, 3, 4, 5, 6]), Uint8Array.from([4, 5, 6, 1, 2, 3])], [
+          { type: 'tRNS', data: [0, 4, 0, 5, 0, 6] },
+        ], 1),
+      ];
+
+      for (const encoded of cases) {
+        expect(await decodeRows(encoded)).toEqual(pngjsPixels(encoded));
+      }
+    });
+
+    it('should reject interlaced and truncated images', async () => {
+      const interlaced = encodePng({ width: 2, height: 2, bitDepth: 8, colorType: 0, interlace: 1 }, [noise(1, 1), noise(1, 2)]);
+      const truncated = encodePng({ width: 2, height: 3, bitDepth: 8, colorType: 0 }, [noise(2, 1), noise(2, 2)]);
+
+      await expect(decodeRows(interlaced)).rejects.toThrow('Interlaced');
+      await expect(decodeRows(truncated)).rejects.toThrow('Ran out of data');
+    });
+  });
+});
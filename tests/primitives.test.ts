@@ -0,0 +1,106 @@
+import { fitCircle, detectPrimitivePath, detectPolygonPrimitives, asCircle, countPrimitives } from '../apps/server/src/trace/primitives';
+import type { Point, Polygon } from '../shared/types';
+
+describe('Primitive Detection', () => {
+  const options = { tolerance: 1, minArcAngle: 30 };
+
+  const createArc = (cx: number, cy: number, radius: number, from: number, to: number, count: number): Point[] => {
+    const points: Point[] = [];
+    for (let i = 0; i <= count; i++) {
+      const angle = ((from + ((to - from) * i) / count) * Math.PI) / 180;
+      points.push({ x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) });
+    }
+    return points;
+  };
+
+  const createCircle = (radius: number, count: number): Point[] => {
+    const points = createArc(50, 50, radius, 0, 360, count);
+    points[points.length - 1] = { ...points[0] }; // Closed
+    return points;
+  };
+
+  describe('fitCircle', () => {
+    it('should recover center and radius from points on a circle', () => {
+      const circle = fitCircle(createArc(20, 30, 15, 0, 90, 8));
+
+      expect(circle!.center.x).toBeCloseTo(20, 6);
+      expect(circle!.center.y).toBeCloseTo(30, 6);
+      expect(circle!.radius).toBeCloseTo(15, 6);
+    });
+
+    it('should return null for collinear points', () => {
+      expect(fitCircle([{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 }])).toBeNull();
+    });
+  });
+
+  describe('detectPrimitivePath', () => {
+    it('should recognize a simplified circle as a single full-circle arc', () => {
+      const path = detectPrimitivePath(createCircle(20, 12), true, options);
+      const circle = asCircle(path);
+
+      expect(circle).not.toBeNull();
+      expect(circle!.center.x).toBeCloseTo(50, 3);
+      expect(circle!.center.y).toBeCloseTo(50, 3);
+      expect(circle!.radius).toBeCloseTo(20, 3);
+      expect(Math.abs(circle!.sweep)).toBeCloseTo(Math.PI * 2, 6);
+    });
+
+    it('should not turn a square or hexagon into a circle', () => {
+      const square = [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 40 }, { x: 0, y: 40 }, { x: 0, y: 0 }];
+      const hexagon = createCircle(30, 6);
+
+      expect(detectPrimitivePath(square, true, options)).toBeNull();
+      expect(asCircle(detectPrimitivePath(hexagon, true, options))).toBeNull();
+    });
+
+    it('should find a quarter-circle arc between straight edges', () => {
+      // Rounded corner: two straight edges joined by a quarter circle of radius 30
+      const ring = [
+        { x: 0, y: 0 },
+        ...createArc(30, 30, 30, -90, 0, 6).map(p => ({ x: p.x + 20, y: p.y })),
+        { x: 80, y: 80 },
+        { x: 0, y: 80 },
+        { x: 0, y: 0 },
+      ];
+      const path = detectPrimitivePath(ring, true, options);
+      const arcs = path!.segments.filter(segment => segment.type === 'arc');
+
+      expect(arcs).toHaveLength(1);
+      if (arcs[0].type === 'arc') {
+        expect(arcs[0].radius).toBeCloseTo(30, 3);
+        expect(arcs[0].sweep).toBeCloseTo(Math.PI / 2, 3);
+      }
+    });
+
+    it('should describe an open arc with a single arc segment', () => {
+      const path = detectPrimitivePath(createArc(0, 0, 25, 0, -120, 8), false, options);
+
+      expect(path!.segments).toHaveLength(1);
+      expect(path!.segments[0].type).toBe('arc');
+      if (path!.segments[0].type === 'arc') {
+        expect(path!.segments[0].sweep).toBeCloseTo((-120 * Math.PI) / 180, 3);
+      }
+    });
+
+    it('should leave straight lines alone', () => {
+      const line = [0, 1, 2, 3, 4, 5].map(x => ({ x: x * 10, y: (x % 2) * 0.2 }));
+      expect(detectPrimitivePath(line, false, options)).toBeNull();
+    });
+  });
+
+  describe('detectPolygonPrimitives', () => {
+    it('should only attach curves to polygons with primitives', () => {
+      const circle: Polygon = { exterior: createCircle(20, 12), holes: [] };
+      const square: Polygon = {
+        exterior: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }, { x: 0, y: 0 }],
+        holes: [],
+      };
+
+      const [detectedCircle, detectedSquare] = detectPolygonPrimitives([circle, square], options);
+
+      expect(detectedCircle.curves?.exterior).not.toBeNull();
+      expect(detectedSquare.curves).toBeUndefined();
+      expect(countPrimitives([detectedCircle, detectedSquare])).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { applyAlpha, removeSpeckles, otsuThreshold, luminanceHistogram, otsuFromHistogram, adaptiveThreshold, binarizeImage, computeThreshold } from '../apps/server/src/trace/raster';
+import type { ImageData, Bitmap } from '../shared/types';
+
+describe('Thresholding', () => {
+  // Helper to create a grayscale image from a luminance function
+  const createGrayImage = (width: number, height: number, valueAt: (x: number, y: number) => number): ImageData => {
+    const data = new Uint8Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = (y * width + x) * 4;
+        const value = valueAt(x, y);
+        data[index] = value;
+        data[index + 1] = value;
+        data[index + 2] = value;
+        data[index + 3] = 255;
+      }
+    }
+
+    return { width, height, data };
+  };
+
+  const isBlack = (bitmap: Bitmap, x: number, y: number) => bitmap.data[y * bitmap.width + x] === 1;
+
+  describe('otsuThreshold', () => {
+    it('should split a bimodal image between its two levels', () => {
+      // Faint pencil (170) on light paper (230): a fixed 128 threshold finds nothing
+      const imageData = createGrayImage(20, 20, x => (x < 8 ? 170 : 230));
+      const threshold = otsuThreshold(imageData);
+
+      expect(threshold).toBeGreaterThan(170);
+      expect(threshold).toBeLessThanOrEqual(230);
+
+      const binary = binarizeImage(imageData, threshold);
+      expect(isBlack(binary, 2, 10)).toBe(true);
+      expect(isBlack(binary, 15, 10)).toBe(false);
+    });
+
+    it('should split pure black and white in the middle of the gap', () => {
+      const imageData = createGrayImage(10, 10, x => (x < 5 ? 0 : 255));
+      expect(otsuThreshold(imageData)).toBe(128);
+    });
+
+    it('should find the same threshold from histograms accumulated over tiles', () => {
+      const valueAt = (x: number) => (x < 8 ? 170 : 230);
+      const left = createGrayImage(10, 20, valueAt);
+      const right = createGrayImage(10, 20, x => valueAt(x + 10));
+
+      const histogram = luminanceHistogram(right, luminanceHistogram(left));
+
+      expect(otsuFromHistogram(histogram)).toBe(otsuThreshold(createGrayImage(20, 20, valueAt)));
+    });
+  });
+
+  describe('adaptiveThreshold', () => {
+    // Dark strokes every 10px on paper that darkens from 240 to 110 (a shadow)
+    const createShadowedScan = () => createGrayImage(80, 40, x => {
+      const paper = Math.round(240 - (130 * x) / 79);
+      return x % 10 < 2 ? Math.round(paper * 0.4) : paper;
+    });
+
+    it('should keep strokes and paper apart under a shadow with Sauvola', () => {
+      const imageData = createShadowedScan();
+      const binary = binarizeImage(imageData, adaptiveThreshold(imageData, 'sauvola', 15));
+
+      // Strokes in the bright and the shadowed half are foreground, paper is not
+      expect(isBlack(binary, 10, 20)).toBe(true);
+      expect(isBlack(binary, 70, 20)).toBe(true);
+      expect(isBlack(binary, 15, 20)).toBe(false);
+      expect(isBlack(binary, 75, 20)).toBe(false);
+
+      // A global threshold either loses the bright strokes or blackens the shadowed paper
+      const global = binarizeImage(imageData, otsuThreshold(imageData));
+      expect(!isBlack(global, 10, 20) || isBlack(global, 75, 20)).toBe(true);
+    });
+
+    it('should support Niblack', () => {
+      const imageData = createShadowedScan();
+      const binary = binarizeImage(imageData, adaptiveThreshold(imageData, 'niblack', 15));
+
+      expect(isBlack(binary, 70, 20)).toBe(true);
+      expect(isBlack(binary, 75, 20)).toBe(false);
+    });
+
+    it('should keep uniform black and white areas unchanged', () => {
+      const imageData = createGrayImage(40, 20, x => (x < 20 ? 0 : 255));
+      const binary = binarizeImage(imageData, adaptiveThreshold(imageData, 'sauvola', 5));
+
+      expect(isBlack(binary, 2, 10)).toBe(true);
+      expect(isBlack(binary, 37, 10)).toBe(false);
+    });
+  });
+
+  describe('computeThreshold', () => {
+    it('should use the given value in fixed mode', () => {
+      const imageData = createGrayImage(4, 4, () => 100);
+      expect(computeThreshold(imageData, { mode: 'fixed', value: 90 })).toBe(90);
+      expect(computeThreshold(imageData, { mode: 'adaptive', windowSize: 3 })).toBeInstanceOf(Float32Array);
+    });
+  });
+});
+
+describe('applyAlpha', () => {
+  // One transparent black pixel, one half-transparent red pixel, one opaque black pixel
+  const createTransparentImage = (): ImageData => ({
+    width: 3,
+    height: 1,
+    data: new Uint8Array([
+      0, 0, 0, 0,
+      255, 0, 0, 128,
+      0, 0, 0, 255,
+    ]),
+  });
+
+  it('should composite transparent pixels over a white background by default', () => {
+    const result = applyAlpha(createTransparentImage(), { mode: 'composite' });
+
+    expect(Array.from(result.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(Array.from(result.data.slice(4, 8))).toEqual([255, 127, 127, 255]);
+    expect(Array.from(result.data.slice(8, 12))).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should replace pixels below the cutoff with the background color', () => {
+    const result = applyAlpha(createTransparentImage(), { mode: 'cutoff', background: [0, 0, 255], cutoff: 200 });
+
+    expect(Array.from(result.data.slice(0, 4))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(result.data.slice(4, 8))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(result.data.slice(8, 12))).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should trace the alpha channel itself in mask mode', () => {
+    const result = applyAlpha(createTransparentImage(), { mode: 'mask' });
+
+    expect(result.data[0]).toBe(255);
+    expect(result.data[4]).toBe(127);
+    expect(result.data[8]).toBe(0);
+  });
+});
+
+describe('removeSpeckles', () => {
+  // 6x6 empty bitmap with a 1px speck at (1,1) and a 3x3 block in the bottom-right corner
+  const createSpeckledImage = (): Bitmap => {
+    const data = new Uint8Array(6 * 6);
+    const setForeground = (x: number, y: number) => { data[y * 6 + x] = 1; };
+    setForeground(1, 1);
+    for (let y = 3; y < 6; y++) {
+      for (let x = 3; x < 6; x++) setForeground(x, y);
+    }
+    return { width: 6, height: 6, data };
+  };
+
+  it('should remove components smaller than the minimum area', () => {
+    const result = removeSpeckles(createSpeckledImage(), 4);
+
+    expect(result.data[1 * 6 + 1]).toBe(0);
+    expect(result.data[4 * 6 + 4]).toBe(1);
+  });
+
+  it('should keep small components touching the border with keepEdges', () => {
+    const result = removeSpeckles(createSpeckledImage(), 10, undefined, { keepEdges: true });
+
+    expect(result.data[1 * 6 + 1]).toBe(0);
+    expect(result.data[4 * 6 + 4]).toBe(1); // The 9px block may continue beyond the tile
+    expect(removeSpeckles(createSpeckledImage(), 10).data[4 * 6 + 4]).toBe(0);
+  });
+
+  it('should throw once the abort signal has fired', () => {
+    const abortController = new AbortController();
+    abortController.abort();
+
+    expect(() => removeSpeckles(createSpeckledImage(), 4, abortController.signal)).toThrow();
+  });
+});
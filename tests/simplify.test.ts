@@ -0,0 +1,147 @@
+import { simplifyPreservingTopology, simplifyVisvalingam, simplifyPolylinesVisvalingam, limitNodes } from '../apps/server/src/trace/simplify';
+import { simplifyContours } from '../apps/server/src/trace/contour';
+import type { Point, Polygon, Polyline } from '../shared/types';
+
+describe('Topology-preserving Simplification', () => {
+  // Proper crossings between the edges of all rings
+  const countCrossings = (polygons: Polygon[]) => {
+    const edges: [Point, Point][] = [];
+    polygons.forEach(polygon => [polygon.exterior, ...polygon.holes].forEach(ring => {
+      ring.forEach((point, i) => edges.push([point, ring[(i + 1) % ring.length]]));
+    }));
+    const orient = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+    let crossings = 0;
+    edges.forEach(([a, b], i) => edges.slice(i + 1).forEach(([c, d]) => {
+      if (orient(a, b, c) * orient(a, b, d) < 0 && orient(c, d, a) * orient(c, d, b) < 0) crossings++;
+    }));
+    return crossings;
+  };
+
+  const contains = (ring: Point[], point: Point) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+  };
+
+  // 40×40 square traced pixel by pixel, its right side bulging out (positive) or in (negative) between y = 10 and 30
+  const bulgingSquare = (bulge: number): Point[] => {
+    const points: Point[] = [];
+    for (let x = 0; x < 40; x++) points.push({ x, y: 0 });
+    for (let y = 0; y < 40; y++) points.push({ x: y > 10 && y < 30 ? 40 + bulge : 40, y });
+    for (let x = 40; x > 0; x--) points.push({ x, y: 40 });
+    for (let y = 40; y > 0; y--) points.push({ x: 0, y });
+    return points;
+  };
+
+  it('should simplify rings without conflicts like Douglas-Peucker', () => {
+    const [square] = simplifyPreservingTopology([{ exterior: bulgingSquare(0), holes: [] }], 1);
+
+    expect(square.exterior).toHaveLength(4);
+    expect(square.holes).toEqual([]);
+  });
+
+  it('should keep a hole from crossing its exterior', () => {
+    const polygon = { exterior: bulgingSquare(2.5), holes: [[{ x: 37, y: 15 }, { x: 37, y: 20 }, { x: 42, y: 20 }, { x: 42, y: 15 }]] };
+
+    const [ringByRing] = simplifyContours([{ points: polygon.exterior, holes: polygon.holes, isHole: false, parent: -1 }], 3);
+    expect(countCrossings([{ exterior: ringByRing.points, holes: ringByRing.holes }])).toBeGreaterThan(0);
+
+    const [simplified] = simplifyPreservingTopology([polygon], 3);
+    expect(countCrossings([simplified])).toBe(0);
+    simplified.holes[0].forEach(point => expect(contains(simplified.exterior, point)).toBe(true));
+  });
+
+  it('should keep neighbouring polygons from overlapping', () => {
+    // Two shapes on either side of a jagged boundary, half a pixel apart
+    const boundary = Array.from({ length: 101 }, (_, x) => ({ x, y: 50 + ((x * 37) % 11) / 3 }));
+    const upper = { exterior: [{ x: 0, y: 0 }, ...boundary, { x: 100, y: 0 }], holes: [] };
+    const lower = { exterior: [{ x: 100, y: 100 }, ...[...boundary].reverse().map(point => ({ x: point.x, y: point.y + 0.5 })), { x: 0, y: 100 }], holes: [] };
+
+    const simplified = simplifyPreservingTopology([upper, lower], 3);
+
+    expect(countCrossings(simplified)).toBe(0);
+    simplified[1].exterior.forEach(point => expect(contains(simplified[0].exterior, point)).toBe(false));
+    simplified[0].exterior.forEach(point => expect(contains(simplified[1].exterior, point)).toBe(false));
+    expect(simplified[0].exterior.length).toBeLessThan(upper.exterior.length);
+  });
+
+  it('should keep clear of obstacle polygons without changing them', () => {
+    // A small square sits in the notch, which Douglas-Peucker alone would cut across
+    const obstacle = { exterior: [{ x: 38, y: 18 }, { x: 39, y: 18 }, { x: 39, y: 20 }, { x: 38, y: 20 }], holes: [] };
+
+    const simplified = simplifyPreservingTopology([{ exterior: bulgingSquare(-2.5), holes: [] }], 3, [obstacle]);
+
+    expect(simplified).toHaveLength(1);
+    expect(countCrossings([...simplified, obstacle])).toBe(0);
+    obstacle.exterior.forEach(point => expect(contains(simplified[0].exterior, point)).toBe(false));
+    expect(simplifyPreservingTopology([{ exterior: bulgingSquare(-2.5), holes: [] }], 3)[0].exterior).toHaveLength(4);
+  });
+});
+
+describe('Visvalingam-Whyatt Simplification', () => {
+  // Closed ring around a circle, repeating its first point like validated polygons
+  const circle = (cx: number, cy: number, radius: number, count: number): Point[] => {
+    const ring = Array.from({ length: count }, (_, i) => ({
+      x: cx + radius * Math.cos((2 * Math.PI * i) / count),
+      y: cy + radius * Math.sin((2 * Math.PI * i) / count),
+    }));
+    return [...ring, ring[0]];
+  };
+
+  const countNodes = (polygons: Polygon[]) => polygons.reduce((total, polygon) => total + polygon.exterior.length + polygon.holes.reduce((sum, hole) => sum + hole.length, 0), 0);
+
+  it('should remove vertices whose triangle is below the squared epsilon', () => {
+    // Square with a 0.5 px dent in the middle of one side: triangle area 5 with 20 px sides
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0.5 }, { x: 20, y: 0 }, { x: 20, y: 20 }, { x: 0, y: 20 }];
+
+    expect(simplifyVisvalingam([{ exterior: square, holes: [] }], 2)[0].exterior).toHaveLength(5);
+    expect(simplifyVisvalingam([{ exterior: square, holes: [] }], 3)[0].exterior).toEqual(square.filter((_, i) => i !== 1));
+  });
+
+  it('should keep at least a triangle and polyline endpoints', () => {
+    const [polygon] = simplifyVisvalingam([{ exterior: circle(0, 0, 5, 32), holes: [circle(0, 0, 2, 16)] }], 100);
+    expect(polygon.exterior).toHaveLength(4); // Closing point repeated
+    expect(polygon.holes[0]).toHaveLength(4);
+
+    const line: Polyline = { points: Array.from({ length: 10 }, (_, x) => ({ x, y: x % 2 })), closed: false };
+    const [simplified] = simplifyPolylinesVisvalingam([line], 100);
+    expect(simplified.points).toEqual([line.points[0], line.points[9]]);
+  });
+
+  it('should meet a node budget across all groups and polylines', () => {
+    // Coarse circles lose fewer vertices than the finely sampled one, whose vertices add less area
+    const groups = [[{ exterior: circle(0, 0, 10, 100), holes: [] }], [{ exterior: circle(50, 0, 10, 12), holes: [] }]];
+    const polylines: Polyline[] = [{ points: Array.from({ length: 21 }, (_, x) => ({ x, y: 40 + Math.sin(x) })), closed: false }];
+
+    const result = limitNodes(groups, polylines, 60);
+
+    expect(result.nodeCount).toBe(60);
+    expect(countNodes(result.groups.flat()) + result.polylines[0].points.length).toBe(60);
+    expect(result.groups[1][0].exterior.length).toBeGreaterThan(result.groups[0][0].exterior.length / 3);
+    expect(result.maxDeviation).toBeGreaterThan(0);
+    expect(result.maxDeviation).toBeLessThan(2);
+  });
+
+  it('should report the smallest count when the budget cannot be met', () => {
+    const result = limitNodes([[{ exterior: circle(0, 0, 10, 50), holes: [] }, { exterior: circle(30, 0, 10, 50), holes: [] }]], [], 3);
+
+    expect(result.nodeCount).toBe(8); // Two triangles with their closing points
+    // At least the sagitta of a 120° arc (an equilateral triangle), at most the radius
+    expect(result.maxDeviation).toBeGreaterThanOrEqual(5 - 1e-9);
+    expect(result.maxDeviation).toBeLessThan(10);
+  });
+
+  it('should leave the drawing alone when it is within the budget', () => {
+    const groups = [[{ exterior: circle(0, 0, 10, 20), holes: [] }]];
+
+    const result = limitNodes(groups, [], 100);
+
+    expect(result.nodeCount).toBe(21);
+    expect(result.groups[0][0].exterior).toEqual(groups[0][0].exterior);
+    expect(result.maxDeviation).toBe(0);
+  });
+});
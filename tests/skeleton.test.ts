@@ -0,0 +1,103 @@
+import { skeletonize, traceSkeleton, polylineLength } from '../apps/server/src/trace/skeleton';
+import type { Bitmap } from '../shared/types';
+
+describe('Centerline Tracing', () => {
+  // Helper to create a binary bitmap from a predicate
+  const createBinaryImage = (width: number, height: number, isForeground: (x: number, y: number) => boolean): Bitmap => {
+    const data = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data[y * width + x] = isForeground(x, y) ? 1 : 0; // 1 = foreground, 0 = background
+      }
+    }
+
+    return { width, height, data };
+  };
+
+  const countForeground = (bitmap: Bitmap): number => {
+    let count = 0;
+    for (let i = 0; i < bitmap.width * bitmap.height; i++) {
+      if (bitmap.data[i] === 1) count++;
+    }
+    return count;
+  };
+
+  describe('skeletonize', () => {
+    it('should thin a thick horizontal stroke to a single row', () => {
+      // 3px thick line from x=2 to x=27
+      const imageData = createBinaryImage(30, 9, (x, y) => x >= 2 && x <= 27 && y >= 3 && y <= 5);
+      const skeleton = skeletonize(imageData);
+
+      // Every column of the stroke interior keeps exactly one pixel
+      for (let x = 5; x <= 24; x++) {
+        let columnCount = 0;
+        for (let y = 0; y < 9; y++) {
+          if (skeleton.data[y * 30 + x] === 1) columnCount++;
+        }
+        expect(columnCount).toBe(1);
+      }
+    });
+
+    it('should leave an empty image empty', () => {
+      const imageData = createBinaryImage(10, 10, () => false);
+      const skeleton = skeletonize(imageData);
+
+      expect(countForeground(skeleton)).toBe(0);
+    });
+  });
+
+  describe('traceSkeleton', () => {
+    it('should trace a thick stroke as one open polyline', () => {
+      const imageData = createBinaryImage(40, 9, (x, y) => x >= 2 && x <= 37 && y >= 3 && y <= 5);
+      const polylines = traceSkeleton(skeletonize(imageData));
+
+      expect(polylines).toHaveLength(1);
+      expect(polylines[0].closed).toBe(false);
+      expect(polylineLength(polylines[0].points)).toBeGreaterThan(25);
+
+      // Centerline runs along the middle row of the stroke
+      for (const point of polylines[0].points) {
+        expect(Math.abs(point.y - 4)).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should split a cross into branches meeting at the junction', () => {
+      const imageData = createBinaryImage(31, 31, (x, y) =>
+        (Math.abs(y - 15) <= 1 && x >= 2 && x <= 28) || (Math.abs(x - 15) <= 1 && y >= 2 && y <= 28)
+      );
+      const polylines = traceSkeleton(skeletonize(imageData));
+
+      expect(polylines.length).toBeGreaterThanOrEqual(4);
+
+      // Branches share endpoints near the center of the cross
+      const nearCenter = polylines.filter(polyline => {
+        const ends = [polyline.points[0], polyline.points[polyline.points.length - 1]];
+        return ends.some(p => Math.abs(p.x - 15) <= 2 && Math.abs(p.y - 15) <= 2);
+      });
+      expect(nearCenter.length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should trace a ring as a closed polyline', () => {
+      const imageData = createBinaryImage(40, 40, (x, y) => {
+        const r = Math.hypot(x - 20, y - 20);
+        return r >= 11 && r <= 14;
+      });
+      const polylines = traceSkeleton(skeletonize(imageData));
+
+      expect(polylines).toHaveLength(1);
+      expect(polylines[0].closed).toBe(true);
+      expect(polylines[0].points.length).toBeGreaterThan(20);
+    });
+
+    it('should prune short spurs', () => {
+      // Long stroke with a 1px bump that thinning turns into a tiny spur
+      const imageData = createBinaryImage(40, 10, (x, y) =>
+        (x >= 2 && x <= 37 && y >= 4 && y <= 6) || (x === 20 && y === 3)
+      );
+      const polylines = traceSkeleton(skeletonize(imageData), 4);
+
+      expect(polylines).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { smoothContours } from '../apps/server/src/trace/smoothing';
+import type { SmoothingOptions } from '../apps/server/src/trace/smoothing';
+import type { Contour } from '../apps/server/src/trace/contour';
+import type { Point } from '../shared/types';
+
+describe('Contour Smoothing', () => {
+  const contour = (points: Point[], holes: Point[][] = []): Contour => ({ points, holes, isHole: false, parent: -1 });
+
+  // 40×40 square traced pixel by pixel, every other pixel on the sides (away from the corners) pushed 1 px outward
+  const jitteredSquare = (): Point[] => {
+    const jittered = (i: number) => i % 2 === 1 && i > 2 && i < 38;
+    const points: Point[] = [];
+    for (let x = 0; x < 40; x++) points.push({ x, y: jittered(x) ? -1 : 0 });
+    for (let y = 0; y < 40; y++) points.push({ x: jittered(y) ? 41 : 40, y });
+    for (let x = 40; x > 0; x--) points.push({ x, y: jittered(x) ? 41 : 40 });
+    for (let y = 40; y > 0; y--) points.push({ x: jittered(y) ? -1 : 0, y });
+    return points;
+  };
+
+  const gaussian: SmoothingOptions = { method: 'gaussian', strength: 2, cornerAngle: 60, cornerRadius: 4 };
+  const chaikin: SmoothingOptions = { method: 'chaikin', strength: 1, cornerAngle: 60, cornerRadius: 4 };
+
+  it('should average out pixel jitter along edges', () => {
+    const [smoothed] = smoothContours([contour(jitteredSquare())], gaussian);
+
+    expect(smoothed.points).toHaveLength(160);
+    const top = smoothed.points.filter(point => point.x > 8 && point.x < 32 && point.y < 5);
+    top.forEach(point => expect(point.y).toBeCloseTo(-0.5, 1));
+  });
+
+  it('should keep sharp corners in place', () => {
+    for (const options of [gaussian, chaikin]) {
+      const [smoothed] = smoothContours([contour(jitteredSquare())], options);
+
+      for (const corner of [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 40 }, { x: 0, y: 40 }]) {
+        expect(smoothed.points).toContainEqual(corner);
+      }
+    }
+  });
+
+  it('should smooth rings without corners all the way round', () => {
+    // Circle of radius 10 whose vertices alternate 0.5 px in and out
+    const ring = Array.from({ length: 64 }, (_, i) => {
+      const angle = (2 * Math.PI * i) / 64;
+      const radius = 10 + (i % 2 ? 0.5 : -0.5);
+      return { x: 20 + radius * Math.cos(angle), y: 20 + radius * Math.sin(angle) };
+    });
+
+    const [smoothed] = smoothContours([contour(ring, [ring.slice().reverse()])], gaussian);
+
+    [smoothed.points, smoothed.holes[0]].forEach(points => {
+      expect(points).toHaveLength(64);
+      // Gaussian smoothing also shrinks the circle slightly, by about sigma² / 2r
+      points.forEach(point => expect(Math.abs(Math.hypot(point.x - 20, point.y - 20) - 10)).toBeLessThan(0.25));
+    });
+  });
+
+  it('should cut every other vertex in two per Chaikin iteration', () => {
+    // Gentle arc closed by a right angle: only the two ends of the arc and the corner are sharp
+    const arc = Array.from({ length: 11 }, (_, i) => ({ x: i * 3, y: 10 * Math.sin((Math.PI * i) / 10) }));
+    const ring = [...arc, { x: 30, y: -20 }, { x: 0, y: -20 }];
+
+    const [once] = smoothContours([contour(ring)], chaikin);
+    const [twice] = smoothContours([contour(ring)], { ...chaikin, strength: 2 });
+
+    const corners = 2 * ring.length - once.points.length;
+    expect(corners).toBeGreaterThan(0);
+    expect(twice.points.length).toBe(2 * once.points.length - corners);
+    expect(once.points).toContainEqual({ x: 30, y: -20 });
+    expect(once.points).toContainEqual({ x: 0, y: -20 });
+  });
+});
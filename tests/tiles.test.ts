@@ -0,0 +1,221 @@
+import { resolveTileSize, tileOverlap, planTiles, cropImage, imageRows, tileRegions, clipToCore, stitchPolygons } from '../apps/server/src/trace/tiles';
+import { toGrayscale, binarizeImage, removeSpeckles } from '../apps/server/src/trace/raster';
+import { extractContours } from '../apps/server/src/trace/contour';
+import { ringBounds } from '../apps/server/src/trace/geometry';
+import type { ImageData, Point, Polygon } from '../shared/types';
+
+describe('Tiled Processing', () => {
+  // Axis-aligned rectangle through pixel centers
+  const rectangle = (x0: number, y0: number, x1: number, y1: number): Point[] => [
+    { x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 },
+  ];
+
+  const ringArea = (ring: Point[]) => Math.abs(ring.reduce((sum, point, i) => {
+    const next = ring[(i + 1) % ring.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+  const polygonArea = (polygon: Polygon) => ringArea(polygon.exterior) - polygon.holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+
+  describe('resolveTileSize', () => {
+    it('should tile large images automatically and honor explicit sizes', () => {
+      expect(resolveTileSize(1000, 1000)).toBe(0);
+      expect(resolveTileSize(20000, 14000)).toBe(2048);
+      expect(resolveTileSize(20000, 14000, 0)).toBe(0);
+      expect(resolveTileSize(1000, 1000, 256)).toBe(256);
+      expect(resolveTileSize(200, 200, 256)).toBe(0); // Fits in one tile
+    });
+  });
+
+  describe('tileOverlap', () => {
+    it('should cover the adaptive window and the speckle limit, up to half a tile', () => {
+      expect(tileOverlap(512, 10)).toBe(16);
+      expect(tileOverlap(512, 10, 51)).toBe(42);
+      expect(tileOverlap(512, 10, undefined, 30)).toBe(46);
+      expect(tileOverlap(512, 100)).toBe(100);
+      expect(tileOverlap(512, 5000)).toBe(256);
+    });
+  });
+
+  describe('planTiles', () => {
+    it('should partition the image into cores with clamped overlapping regions', () => {
+      const tiles = planTiles(250, 120, 100, 10);
+
+      expect(tiles).toHaveLength(6);
+      expect(tiles[0]).toEqual({ core: { x0: 0, y0: 0, x1: 100, y1: 100 }, region: { x0: 0, y0: 0, x1: 110, y1: 110 } });
+      expect(tiles[4]).toEqual({ core: { x0: 100, y0: 100, x1: 200, y1: 120 }, region: { x0: 90, y0: 90, x1: 210, y1: 120 } });
+
+      const coreArea = tiles.reduce((sum, { core }) => sum + (core.x1 - core.x0) * (core.y1 - core.y0), 0);
+      expect(coreArea).toBe(250 * 120);
+    });
+  });
+
+  describe('cropImage', () => {
+    it('should copy the pixels of a rectangle', () => {
+      const data = new Uint8Array(4 * 3 * 4);
+      for (let i = 0; i < 12; i++) data[i * 4] = i;
+
+      const crop = cropImage({ width: 4, height: 3, data }, { x0: 1, y0: 1, x1: 3, y1: 3 });
+
+      expect(crop.width).toBe(2);
+      expect(crop.height).toBe(2);
+      expect([0, 1, 2, 3].map(i => crop.data[i * 4])).toEqual([5, 6, 9, 10]);
+    });
+  });
+
+  describe('tileRegions', () => {
+    const image: ImageData = { width: 11, height: 13, data: Uint8Array.from({ length: 11 * 13 * 4 }, (_, i) => i % 4 === 3 ? 255 : (i * 37) % 256) };
+    const grayscale = toGrayscale(image);
+    const tiles = planTiles(11, 13, 4, 2);
+
+    it('should hand out every region as its grayscale crop, reading each row once', async () => {
+      let rowsRead = 0;
+      const rows = async function* () {
+        for await (const row of imageRows(grayscale)) {
+          rowsRead++;
+          yield row;
+        }
+      };
+
+      const regions: ImageData[] = [];
+      for await (const [tile, region] of tileRegions(rows(), 11, tiles)) {
+        expect(tile).toBe(tiles[regions.length]);
+        regions.push(region);
+      }
+
+      expect(regions).toEqual(tiles.map(tile => cropImage(grayscale, tile.region)));
+      expect(rowsRead).toBe(13);
+    });
+
+    it('should stop reading rows when the tiles are left early', async () => {
+      let closed = false;
+      const rows = async function* () {
+        try {
+          yield* imageRows(grayscale);
+        } finally {
+          closed = true;
+        }
+      };
+
+      for await (const _ of tileRegions(rows(), 11, tiles)) break;
+
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('clipToCore', () => {
+    const tile = { core: { x0: 100, y0: 0, x1: 200, y1: 100 }, region: { x0: 90, y0: 0, x1: 200, y1: 100 } };
+
+    it('should keep polygons inside the core and drop those in the overlap', () => {
+      const clipped = clipToCore([
+        { exterior: rectangle(20, 20, 40, 40), holes: [] },
+        { exterior: rectangle(1, 20, 5, 40), holes: [] }, // Pixels 91-95 belong to the left neighbour
+      ], tile);
+
+      expect(clipped.inner).toEqual([{ exterior: rectangle(110, 20, 130, 40), holes: [] }]);
+      expect(clipped.seam).toEqual([]);
+    });
+
+    it('should cut polygons crossing the core boundary half a pixel outside the core', () => {
+      const clipped = clipToCore([{ exterior: rectangle(0, 20, 30, 40), holes: [] }], tile);
+
+      expect(clipped.inner).toEqual([]);
+      expect(clipped.seam).toHaveLength(1);
+      expect(Math.min(...clipped.seam[0].exterior.map(point => point.x))).toBe(99.5);
+      expect(polygonArea(clipped.seam[0])).toBeCloseTo(20.5 * 20);
+    });
+
+    it('should cut a shape that leaves and re-enters the core into separate pieces', () => {
+      // U lying on its side, its base in the overlap and its arms reaching into the core
+      const u = [
+        { x: 0, y: 20 }, { x: 30, y: 20 }, { x: 30, y: 30 }, { x: 5, y: 30 },
+        { x: 5, y: 50 }, { x: 30, y: 50 }, { x: 30, y: 60 }, { x: 0, y: 60 },
+      ];
+
+      const clipped = clipToCore([{ exterior: u, holes: [] }], tile);
+
+      expect(clipped.seam).toHaveLength(2);
+      clipped.seam.forEach(piece => {
+        expect(piece.exterior).toHaveLength(4);
+        expect(polygonArea(piece)).toBeCloseTo(20.5 * 10);
+      });
+    });
+  });
+
+  describe('stitchPolygons', () => {
+    it('should merge the pieces of a shape cut by seams, keeping its hole', () => {
+      // A 40x40 square with a 10x10 hole, traced by two tiles split at x = 20
+      const square: Polygon = { exterior: rectangle(0, 0, 40, 40), holes: [rectangle(15, 15, 25, 25).reverse()] };
+      const left = clipToCore([square], { core: { x0: 0, y0: 0, x1: 20, y1: 50 }, region: { x0: 0, y0: 0, x1: 50, y1: 50 } });
+      const right = clipToCore([square], { core: { x0: 20, y0: 0, x1: 50, y1: 50 }, region: { x0: 0, y0: 0, x1: 50, y1: 50 } });
+
+      const stitched = stitchPolygons([...left.seam, ...right.seam]);
+
+      expect(stitched).toHaveLength(1);
+      expect(stitched[0].holes).toHaveLength(1);
+      expect(polygonArea(stitched[0])).toBeCloseTo(40 * 40 - 10 * 10);
+    });
+
+    it('should trace hollow shapes across seams and tile corners like the whole image', () => {
+      // Rotated hollow rectangles [center, half size, hole half size, degrees]: across the x = 100
+      // seam, the y = 300 seam, just right of the (200, 200) corner with another below it, and one
+      // around the whole core of the tile at (400, 400) with its hole inside that core
+      const frames = [
+        { cx: 100, cy: 50, size: [40, 20], hole: [20, 8], angle: 20 },
+        { cx: 50, cy: 300, size: [40, 20], hole: [20, 8], angle: 35 },
+        { cx: 230, cy: 200, size: [50, 30], hole: [30, 15], angle: 2 },
+        { cx: 230, cy: 300, size: [50, 30], hole: [30, 15], angle: 2 },
+        { cx: 450, cy: 450, size: [90, 90], hole: [30, 30], angle: 10 },
+      ];
+      const size = 600;
+      const data = new Uint8Array(size * size * 4).fill(255);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const inked = frames.some(({ cx, cy, size: [w, h], hole: [hw, hh], angle }) => {
+            const radians = (angle * Math.PI) / 180;
+            const u = Math.abs((x - cx) * Math.cos(radians) + (y - cy) * Math.sin(radians));
+            const v = Math.abs((y - cy) * Math.cos(radians) - (x - cx) * Math.sin(radians));
+            return u < w && v < h && !(u < hw && v < hh);
+          });
+          if (inked) data.fill(0, (y * size + x) * 4, (y * size + x) * 4 + 3);
+        }
+      }
+      const image: ImageData = { width: size, height: size, data };
+      const trace = (region: ImageData, keepEdges: boolean): Polygon[] => {
+        const bitmap = removeSpeckles(binarizeImage(toGrayscale(region), 128), 10, undefined, { keepEdges });
+        return extractContours(bitmap).map(contour => ({ exterior: contour.points, holes: contour.holes }));
+      };
+
+      const inner: Polygon[] = [];
+      const seam: Polygon[] = [];
+      for (const tile of planTiles(size, size, 100, tileOverlap(100, 10))) {
+        const clipped = clipToCore(trace(cropImage(image, tile.region), true), tile);
+        inner.push(...clipped.inner);
+        seam.push(...clipped.seam);
+      }
+
+      const summarize = (polygons: Polygon[]) => polygons
+        .map(polygon => ({ bounds: ringBounds(polygon.exterior), holes: polygon.holes.length, area: polygonArea(polygon) }))
+        .sort((a, b) => a.bounds.x0 - b.bounds.x0 || a.bounds.y0 - b.bounds.y0);
+      const whole = summarize(trace(image, false));
+      const tiled = summarize([...inner, ...stitchPolygons(seam)]);
+
+      expect(whole).toHaveLength(frames.length);
+      expect(tiled).toHaveLength(whole.length);
+      tiled.forEach((polygon, i) => {
+        expect(polygon.bounds).toEqual(whole[i].bounds);
+        expect(polygon.holes).toBe(1);
+        expect(polygon.area).toBeCloseTo(whole[i].area, 6);
+      });
+    });
+
+    it('should keep separate shapes apart', () => {
+      const stitched = stitchPolygons([
+        { exterior: rectangle(0, 0, 10, 10), holes: [] },
+        { exterior: rectangle(30, 0, 40, 10), holes: [] },
+      ]);
+
+      expect(stitched).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { createCADTransform, scaleTransform, transformPoint, transformExtents, transformPolygons } from '../apps/server/src/trace/transform';
+import type { Polygon } from '../shared/types';
+
+describe('Coordinate Transforms', () => {
+  // Full circle of radius 10 around (20, 10), drawn counter-clockwise in image space
+  const createCirclePolygon = (): Polygon => ({
+    exterior: [{ x: 30, y: 10 }, { x: 20, y: 20 }, { x: 10, y: 10 }, { x: 20, y: 0 }, { x: 30, y: 10 }],
+    holes: [],
+    curves: {
+      exterior: {
+        start: { x: 30, y: 10 },
+        segments: [{ type: 'arc', center: { x: 20, y: 10 }, radius: 10, sweep: Math.PI * 2, to: { x: 30, y: 10 } }],
+      },
+      holes: [],
+    },
+  });
+
+  describe('createCADTransform', () => {
+    it('should flip y about the bottom-left corner by default', () => {
+      const transform = createCADTransform(100, 50, 1);
+
+      expect(transformPoint({ x: 0, y: 50 }, transform)).toEqual({ x: 0, y: 0 });
+      expect(transformPoint({ x: 10, y: 0 }, transform)).toEqual({ x: 10, y: 50 });
+    });
+
+    it('should center the drawing on the image center', () => {
+      const transform = createCADTransform(100, 50, 2, 'center');
+
+      expect(transformPoint({ x: 50, y: 25 }, transform)).toEqual({ x: 0, y: 0 });
+      expect(transformExtents(100, 50, transform)).toEqual({ min: { x: -100, y: -50 }, max: { x: 100, y: 50 } });
+    });
+
+    it('should place the origin at a user point', () => {
+      const transform = createCADTransform(100, 50, 1, 'point', { x: 40, y: 30 });
+
+      expect(transformPoint({ x: 40, y: 30 }, transform)).toEqual({ x: 0, y: 0 });
+      expect(transformPoint({ x: 50, y: 20 }, transform)).toEqual({ x: 10, y: 10 });
+    });
+  });
+
+  describe('transformPolygons', () => {
+    it('should scale rings and arc curves alike', () => {
+      const [scaled] = transformPolygons([createCirclePolygon()], scaleTransform(2));
+
+      expect(scaled.exterior[1]).toEqual({ x: 40, y: 40 });
+      expect(scaled.curves?.exterior?.start).toEqual({ x: 60, y: 20 });
+      expect(scaled.curves?.exterior?.segments[0]).toMatchObject({ radius: 20, sweep: Math.PI * 2 });
+    });
+
+    it('should reverse arc sweeps when flipping y', () => {
+      const [flipped] = transformPolygons([createCirclePolygon()], createCADTransform(40, 20, 1));
+
+      expect(flipped.curves?.exterior?.segments[0]).toMatchObject({ center: { x: 20, y: 10 }, sweep: -Math.PI * 2 });
+    });
+
+    it('should return the input unchanged for the identity transform', () => {
+      const polygons = [createCirclePolygon()];
+      expect(transformPolygons(polygons, scaleTransform(1))).toBe(polygons);
+    });
+  });
+});
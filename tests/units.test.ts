@@ -0,0 +1,53 @@
+import { readPngDpi, resolveDrawingScale } from '../apps/server/src/trace/units';
+import { PNG } from 'pngjs';
+
+describe('Drawing Units', () => {
+  // Encode a small PNG and insert a pHYs chunk after IHDR
+  const createPngWithPhys = (pixelsPerMeter: number, unit: number): Buffer => {
+    const png = new PNG({ width: 2, height: 2 });
+    png.data.fill(255);
+    const encoded = PNG.sync.write(png);
+
+    const chunk = Buffer.alloc(21);
+    chunk.writeUInt32BE(9, 0);
+    chunk.write('pHYs', 4, 'ascii');
+    chunk.writeUInt32BE(pixelsPerMeter, 8);
+    chunk.writeUInt32BE(pixelsPerMeter, 12);
+    chunk.writeUInt8(unit, 16);
+    // CRC is not checked when reading the DPI
+
+    const ihdrEnd = 8 + 12 + 13;
+    return Buffer.concat([encoded.subarray(0, ihdrEnd), chunk, encoded.subarray(ihdrEnd)]);
+  };
+
+  describe('readPngDpi', () => {
+    it('should convert pixels per metre to DPI', () => {
+      expect(readPngDpi(createPngWithPhys(11811, 1))).toBeCloseTo(300, 0);
+    });
+
+    it('should return null without a physical unit or pHYs chunk', () => {
+      expect(readPngDpi(createPngWithPhys(11811, 0))).toBeNull();
+
+      const png = new PNG({ width: 2, height: 2 });
+      expect(readPngDpi(PNG.sync.write(png))).toBeNull();
+    });
+  });
+
+  describe('resolveDrawingScale', () => {
+    it('should default to millimetres when the DPI is known', () => {
+      const scale = resolveDrawingScale(254, undefined);
+      expect(scale.units).toBe('mm');
+      expect(scale.unitsPerPixel).toBeCloseTo(0.1);
+    });
+
+    it('should apply the drawing scale and inch units', () => {
+      const scale = resolveDrawingScale(100, 'in', 50);
+      expect(scale.units).toBe('in');
+      expect(scale.unitsPerPixel).toBeCloseTo(0.5);
+    });
+
+    it('should keep pixels without a DPI', () => {
+      expect(resolveDrawingScale(null, 'mm')).toEqual({ units: 'px', unitsPerPixel: 1 });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Worker } from 'worker_threads';
+import { TracePool, TraceTimeoutError } from '../apps/server/src/workers';
+import type { TraceRequest } from '../shared/types';
+
+// Stand-in for the trace worker speaking the same protocol: fidelity is the trace duration in ms,
+// spent in a loop that only the abort flag can stop, 0 never finishes and mode 'crash' kills the worker
+const FAKE_WORKER = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', message => {
+  if (message.type === 'decode') {
+    const data = new Uint8Array(new SharedArrayBuffer(message.png.length * 4));
+    parentPort.postMessage({ type: 'decoded', image: { hash: 'hash', imageData: { width: message.png.length, height: 1, data }, dpi: null } });
+    return;
+  }
+  const { request } = message;
+  if (request.mode === 'crash') throw new Error('Worker crashed');
+  parentPort.postMessage({ type: 'progress', progress: { stage: 'decoding', percent: 0 } });
+  if (request.fidelity === 0) return;
+  // Yield once so the progress message goes out, then stay busy
+  setTimeout(() => {
+    const end = Date.now() + request.fidelity;
+    while (Date.now() < end) {
+      if (Atomics.load(message.abortFlag, 0) !== 0) {
+        parentPort.postMessage({ type: 'error', message: 'This operation was aborted', aborted: true });
+        return;
+      }
+    }
+    const size = message.png ? message.png.length : message.image.imageData.width;
+    parentPort.postMessage({
+      type: 'result',
+      result: { svg: 'size ' + size, dxf: '', metrics: { nodeCount: 0, polygonCount: 0, simplification: 1, timings: { vectorization: 0, export: 0, total: 0 } } },
+    });
+  });
+});
+`;
+
+describe('Trace Pool', () => {
+  let pool: TracePool | null = null;
+
+  const createPool = (size: number, timeoutMs = 0) => {
+    pool = new TracePool({ size, timeoutMs, createWorker: () => new Worker(FAKE_WORKER, { eval: true }) });
+    return pool;
+  };
+
+  const request = (fidelity: number, mode?: TraceRequest['mode']): TraceRequest => ({ fidelity, whiteFill: false, mode });
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = null;
+  });
+
+  it('should trace on a worker, forward progress and transfer the PNG buffer', async () => {
+    const tracePool = createPool(1);
+    const buffer = Buffer.alloc(100);
+    const onProgress = jest.fn();
+
+    const result = await tracePool.run(buffer, request(5), { onProgress });
+
+    expect(result.svg).toBe('size 100');
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'decoding', percent: 0 });
+    expect(buffer.byteLength).toBe(0); // Moved to the worker, not copied
+  });
+
+  it('should decode into shared memory and trace decoded images', async () => {
+    const tracePool = createPool(1);
+
+    const image = await tracePool.decode(Buffer.alloc(8));
+    expect(Object.prototype.toString.call(image.imageData.data.buffer)).toBe('[object SharedArrayBuffer]');
+
+    const result = await tracePool.run(image, request(5));
+    expect(result.svg).toBe('size 8');
+  });
+
+  it('should queue tasks beyond the pool size and report the queue depth', async () => {
+    const tracePool = createPool(2);
+
+    const traces = [1, 2, 3, 4].map(() => tracePool.run(Buffer.alloc(10), request(50)));
+    expect(tracePool.stats()).toEqual({ size: 2, busy: 2, queued: 2 });
+
+    await Promise.all(traces);
+    expect(tracePool.stats()).toEqual({ size: 2, busy: 0, queued: 0 });
+  });
+
+  it('should terminate and replace workers that exceed the timeout', async () => {
+    const tracePool = createPool(1, 200);
+
+    await expect(tracePool.run(Buffer.alloc(10), request(0))).rejects.toThrow(TraceTimeoutError);
+    expect(tracePool.stats()).toEqual({ size: 1, busy: 0, queued: 0 });
+
+    const result = await tracePool.run(Buffer.alloc(10), request(5));
+    expect(result.svg).toBe('size 10');
+  });
+
+  it('should reject queued and running traces when their signal aborts', async () => {
+    const tracePool = createPool(1);
+    const running = new AbortController();
+    const queued = new AbortController();
+
+    const first = tracePool.run(Buffer.alloc(10), request(60000), { signal: running.signal });
+    const second = tracePool.run(Buffer.alloc(10), request(5), { signal: queued.signal });
+    queued.abort();
+    running.abort();
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(tracePool.stats().queued).toBe(0);
+
+    // The aborted worker leaves its loop instead of running for a minute, and takes new work
+    const result = await tracePool.run(Buffer.alloc(10), request(5));
+    expect(result.svg).toBe('size 10');
+  });
+
+  it('should reject the trace and replace the worker when it crashes', async () => {
+    const tracePool = createPool(1);
+
+    await expect(tracePool.run(Buffer.alloc(10), request(5, 'crash' as TraceRequest['mode']))).rejects.toThrow('Worker crashed');
+
+    const result = await tracePool.run(Buffer.alloc(10), request(5));
+    expect(result.svg).toBe('size 10');
+  });
+});